@@ -1,251 +1,568 @@
 
-import React, { useState, useMemo } from 'react';
-import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { RiskLevel, CalculationResults } from './types';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
-  IBC_PERCENTAGE,
-  HEALTH_RATE,
-  PENSION_RATE,
-  ARL_RATES,
-  VACATION_PROVISION_RATE,
-  SEVERANCE_PROVISION_RATE
+  RiskLevel,
+  ArlActivity,
+  ContractEntry,
+  PortfolioInput,
+  PortfolioResults,
+  CalculationResults,
+  CalculatorState,
+  IBCBound,
+  WithholdingMethod,
+  CostMode,
+  ContributionPayer,
+  SolverStatus,
+  ContractorDetails,
+  Currency,
+  ExchangeRates,
+  ForeignCurrency,
+  InvoiceDetails,
+  ReportDocumentType,
+  ReportSection,
+  ReportSectionContent,
+  Language,
+  ProvisionBucket,
+  ProvisionMode,
+  UrlStateWarning
+} from './types';
+import {
+  AVAILABLE_YEARS,
+  FULL_MONTH_DAYS,
+  MAX_FX_RESERVE_PERCENT,
+  PRESUMPTIVE_COST_ACTIVITIES
 } from './constants';
+import { calculatePortfolio, getFiscalParameters, clampContractualRiskPercent } from './services/calculator';
+import { solvePortfolioContractValue } from './services/solver';
+import { parseInputValue, formatRate } from './utils/format';
+import { useI18n, MESSAGES, Messages } from './i18n';
+import { MONTHS_IN_YEAR } from './services/projection';
+import AnnualPlanner from './components/AnnualPlanner';
+import ScenarioManager from './components/ScenarioManager';
+import BatchCalculator from './components/BatchCalculator';
+import PaymentCalendar from './components/PaymentCalendar';
+import ArlActivityPicker from './components/ArlActivityPicker';
+import SensitivityCharts from './components/SensitivityCharts';
+import ProvisionBuckets from './components/ProvisionBuckets';
+import DaysWorkedInput from './components/DaysWorkedInput';
+import EmploymentComparison from './components/EmploymentComparison';
+import TaxRegimeComparison from './components/TaxRegimeComparison';
+import { getDefaultProvisionBuckets } from './services/provisions';
+import {
+  FX_RESERVE_BUCKET_ID,
+  applyExchangeRates,
+  clampFxReservePercent,
+  convertToCop,
+  getDisplayCurrency,
+  isForeignCurrency,
+  withFxReserve
+} from './services/currency';
+import { analyzeSensitivity, buildSensitivityCharts, SENSITIVITY_MAX_SMMLV_OPTIONS } from './services/sensitivity';
+import { findArlActivity } from './services/arlActivities';
+import { createContractEntry, createDefaultCalculatorState, DEFAULT_CONTRACT_VALUE } from './services/contracts';
+import { encodeCalculatorState, decodeCalculatorState } from './services/urlState';
+import { renderReport, buildReportFilename } from './services/report';
+import { buildInvoiceDocument, formatInvoiceNumber, loadInvoiceDetails, saveInvoiceDetails } from './services/invoice';
+import { buildPilaLines, getPilaPeriod, pilaToCsv } from './services/pila';
+import { downloadTextFile } from './utils/download';
+import { CSV_MIME_TYPE } from './utils/csv';
+
+// The ARL class as shown in the cards and the PDF, with the CIIU activity that justifies it.
+const formatArlClass = (contract: ContractEntry): string =>
+  contract.arlActivity ? `${contract.riskLevel} · CIIU ${contract.arlActivity}` : contract.riskLevel;
+
+// Generated names ("Contrato 2") follow the active language; names the user typed are kept.
+const localizeDefaultLabels = (contracts: ContractEntry[], messages: Messages): ContractEntry[] =>
+  contracts.map((contract) => {
+    const number = Number(contract.label.match(/\d+$/)?.[0]);
+    const isDefaultLabel = Object.values(MESSAGES).some((m) => m.contract.defaultLabel(number) === contract.label);
+    return isDefaultLabel ? { ...contract, label: messages.contract.defaultLabel(number) } : contract;
+  });
 
 const App: React.FC = () => {
-  const [contractValue, setContractValue] = useState<number>(3200000);
-  const [riskLevel, setRiskLevel] = useState<RiskLevel>(RiskLevel.I);
-  const [contractualRiskPercent, setContractualRiskPercent] = useState<number>(10.0);
+  const { t, language, setLanguage, formatCurrency, formatInputDisplay } = useI18n();
+
+  // Inputs shared through a link win over the defaults; invalid ones are reported, not applied.
+  const [initialUrlState] = useState(() => decodeCalculatorState(window.location.search, createDefaultCalculatorState()));
+  const [urlWarnings, setUrlWarnings] = useState<UrlStateWarning[]>(initialUrlState.warnings);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  const [contracts, setContracts] = useState<ContractEntry[]>(() => localizeDefaultLabels(initialUrlState.state.contracts, t));
+  const [activeContractId, setActiveContractId] = useState<string>('');
+  const [contractualRiskPercent, setContractualRiskPercent] = useState<number>(initialUrlState.state.contractualRiskPercent);
+  const [year, setYear] = useState<number>(initialUrlState.state.year);
+  const [withholdingMethod, setWithholdingMethod] = useState<WithholdingMethod>(initialUrlState.state.withholdingMethod);
+  const [provisionBuckets, setProvisionBuckets] = useState<ProvisionBucket[] | undefined>(initialUrlState.state.provisionBuckets);
+  const [daysWorked, setDaysWorked] = useState<number>(initialUrlState.state.daysWorked ?? FULL_MONTH_DAYS);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(initialUrlState.state.exchangeRates ?? {});
+  const [fxReservePercent, setFxReservePercent] = useState<number>(initialUrlState.state.fxReservePercent ?? 0);
   const [isIBCModalOpen, setIsIBCModalOpen] = useState(false);
+  const [isReportModalOpen, setIsReportModalOpen] = useState(false);
+  const [invoiceDetails, setInvoiceDetails] = useState<InvoiceDetails>(() => loadInvoiceDetails(window.localStorage));
+  const [reportDocumentType, setReportDocumentType] = useState<ReportDocumentType>(ReportDocumentType.PLANNING);
+  const [invoiceNumber, setInvoiceNumber] = useState<number>(() => invoiceDetails.lastNumber + 1);
+  // The period picked for the cuenta de cobro only sticks while it is in the selected year.
+  const [editedInvoicePeriod, setInvoicePeriod] = useState<string>('');
+  const [pilaNumber, setPilaNumber] = useState('');
+  const contractorDetails = invoiceDetails.contractor;
+  const updateContractorDetails = (changes: Partial<ContractorDetails>) =>
+    setInvoiceDetails((prev) => ({ ...prev, contractor: { ...prev.contractor, ...changes } }));
+  const [selectedReportSections, setSelectedReportSections] = useState<ReportSection[]>(Object.values(ReportSection));
   
   // New state for Negotiation Simulator
-  const [desiredNetIncome, setDesiredNetIncome] = useState<number>(2800000);
+  const [desiredNetIncome, setDesiredNetIncome] = useState<number>(initialUrlState.state.desiredNetIncome);
+  const [sensitivityMaxSmmlv, setSensitivityMaxSmmlv] = useState<number>(SENSITIVITY_MAX_SMMLV_OPTIONS[0]);
+
+  const [monthlyBilling, setMonthlyBilling] = useState<number[]>(() => Array(MONTHS_IN_YEAR).fill(DEFAULT_CONTRACT_VALUE));
 
-  // Helper functions for monetary input formatting
-  const formatInputDisplay = (val: number | undefined): string => {
-    if (val === undefined || isNaN(val)) return '';
-    return new Intl.NumberFormat('es-CO').format(val);
+  const parameters = useMemo(() => getFiscalParameters(year), [year]);
+  const invoicePeriod = editedInvoicePeriod.startsWith(`${year}-`)
+    ? editedInvoicePeriod
+    : `${year}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
+
+  useEffect(() => {
+    setContracts((prev) => localizeDefaultLabels(prev, t));
+  }, [t]);
+
+  // The contract card edits one contract at a time; the results are always consolidated.
+  const activeIndex = Math.max(contracts.findIndex((c) => c.id === activeContractId), 0);
+  const activeContract = contracts[activeIndex];
+  const {
+    contractValue,
+    currency = Currency.COP,
+    foreignValue = 0,
+    riskLevel,
+    costMode = CostMode.NONE,
+    declaredCosts = 0,
+    presumptiveCostActivity = PRESUMPTIVE_COST_ACTIVITIES[0].ciiu,
+    arlActivity
+  } = activeContract;
+
+  const updateActiveContract = (changes: Partial<ContractEntry>) => {
+    setContracts((prev) => prev.map((c) => (c.id === activeContract.id ? { ...c, ...changes } : c)));
+  };
+  const setContractValue = (val: number) => updateActiveContract({ contractValue: val });
+  // Foreign contracts are edited in their own currency; the engine always gets the pesos.
+  const setForeignValue = (val: number) => {
+    if (!isForeignCurrency(currency)) return;
+    updateActiveContract({ foreignValue: val, contractValue: convertToCop(val, exchangeRates[currency]) });
+  };
+  const setContractCurrency = (next: Currency) => {
+    if (!isForeignCurrency(next)) {
+      updateActiveContract({ currency: undefined, foreignValue: undefined });
+      return;
+    }
+    const rate = exchangeRates[next];
+    const value = isForeignCurrency(currency) ? foreignValue : rate ? Math.round(contractValue / rate) : 0;
+    updateActiveContract({ currency: next, foreignValue: value, contractValue: convertToCop(value, rate) });
+  };
+  const setExchangeRate = (target: ForeignCurrency, rate: number) => {
+    const next = { ...exchangeRates, [target]: rate > 0 ? rate : undefined };
+    setExchangeRates(next);
+    setContracts((prev) => applyExchangeRates(prev, next));
   };
+  const setRiskLevel = (level: RiskLevel) => updateActiveContract({ riskLevel: level, arlActivity: undefined });
+  const setArlActivity = (activity: ArlActivity) => updateActiveContract({ riskLevel: activity.riskLevel, arlActivity: activity.ciiu });
+  const setCostMode = (mode: CostMode) => updateActiveContract({ costMode: mode });
+  const setDeclaredCosts = (val: number) => updateActiveContract({ declaredCosts: val });
+  const setPresumptiveCostActivity = (ciiu: string) => updateActiveContract({ presumptiveCostActivity: ciiu });
 
-  const parseInputValue = (displayVal: string): number => {
-    const numericStr = displayVal.replace(/\D/g, '');
-    return numericStr ? parseInt(numericStr, 10) : 0;
+  const addContract = () => {
+    const entry = createContractEntry(contracts.length + 1, 0, t.contract.defaultLabel(contracts.length + 1));
+    setContracts((prev) => [...prev, entry]);
+    setActiveContractId(entry.id);
   };
 
-  const results = useMemo((): CalculationResults => {
-    const ibc = contractValue * IBC_PERCENTAGE;
+  const removeActiveContract = () => {
+    if (contracts.length <= 1) return;
+    setContracts((prev) => prev.filter((c) => c.id !== activeContract.id));
+    setActiveContractId('');
+  };
 
-    const health = ibc * HEALTH_RATE;
-    const pension = ibc * PENSION_RATE;
-    const arl = ibc * ARL_RATES[riskLevel];
+  // Until the user customizes them, the buckets follow the year's rates and the active language.
+  const effectiveProvisionBuckets = useMemo(
+    () => provisionBuckets ?? getDefaultProvisionBuckets(parameters, t.provisions.defaultBuckets),
+    [provisionBuckets, parameters, t]
+  );
+  // The FX reserve is not one of the editable buckets; it is added on top for foreign contracts.
+  const engineProvisionBuckets = useMemo(
+    () => withFxReserve(effectiveProvisionBuckets, fxReservePercent, t.currency.fxReserveName),
+    [effectiveProvisionBuckets, fxReservePercent, t]
+  );
 
-    const vacationProvision = contractValue * VACATION_PROVISION_RATE;
-    const severanceProvision = contractValue * SEVERANCE_PROVISION_RATE;
-    
-    const contractualRiskRate = contractualRiskPercent / 100;
-    const contractualRiskProvision = contractValue * contractualRiskRate;
+  const portfolioInput = useMemo((): PortfolioInput => ({
+    contracts,
+    contractualRiskPercent,
+    year,
+    withholdingMethod,
+    provisionBuckets: engineProvisionBuckets,
+    daysWorked
+  }), [contracts, contractualRiskPercent, year, withholdingMethod, engineProvisionBuckets, daysWorked]);
 
-    const totalSocialSecurity = health + pension + arl;
-    const totalProvisions = vacationProvision + severanceProvision + contractualRiskProvision;
-    const totalCosts = totalSocialSecurity + totalProvisions;
-    const netIncome = contractValue - totalCosts;
+  // The annual planner applies the profile of the contract being edited to every month.
+  const plannerProfile = useMemo(() => ({
+    currency: activeContract.currency,
+    riskLevel,
+    costMode,
+    declaredCosts,
+    presumptiveCostActivity,
+    contractualRiskPercent,
+    year,
+    withholdingMethod,
+    provisionBuckets: engineProvisionBuckets
+  }), [activeContract.currency, riskLevel, costMode, declaredCosts, presumptiveCostActivity, contractualRiskPercent, year, withholdingMethod, engineProvisionBuckets]);
 
-    const nonDisposablePercent = contractValue > 0 ? (totalCosts / contractValue) * 100 : 0;
+  // Each curve replaces the active contract's class with its own.
+  const sensitivityAnalysis = useMemo(
+    () => analyzeSensitivity(plannerProfile, desiredNetIncome, sensitivityMaxSmmlv),
+    [plannerProfile, desiredNetIncome, sensitivityMaxSmmlv]
+  );
+  const sensitivityCharts = useMemo(
+    () => buildSensitivityCharts(sensitivityAnalysis, desiredNetIncome, parameters.smmlv, {
+      ...t.sensitivity,
+      formatCurrency
+    }),
+    [sensitivityAnalysis, desiredNetIncome, parameters.smmlv, t, formatCurrency]
+  );
 
-    return {
-      contractValue,
-      ibc,
-      health,
-      pension,
-      arl,
-      vacationProvision,
-      severanceProvision,
-      contractualRiskProvision,
-      totalSocialSecurity,
-      totalProvisions,
-      totalCosts,
-      netIncome,
-      nonDisposablePercent
-    };
-  }, [contractValue, riskLevel, contractualRiskPercent]);
+  const calculatorState = useMemo((): CalculatorState => ({
+    contracts,
+    contractualRiskPercent,
+    year,
+    withholdingMethod,
+    desiredNetIncome,
+    provisionBuckets,
+    daysWorked,
+    exchangeRates,
+    fxReservePercent
+  }), [contracts, contractualRiskPercent, year, withholdingMethod, desiredNetIncome, provisionBuckets, daysWorked, exchangeRates, fxReservePercent]);
+
+  const shareUrl = useMemo(() => {
+    const { origin, pathname } = window.location;
+    return `${origin}${pathname}?${encodeCalculatorState(calculatorState)}`;
+  }, [calculatorState]);
+
+  // Keep the address bar in sync so the current calculation can be bookmarked or shared as is.
+  useEffect(() => {
+    window.history.replaceState(null, '', shareUrl);
+  }, [shareUrl]);
+
+  const copyShareUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch {
+      window.prompt(t.netIncome.copyPrompt, shareUrl);
+    }
+  };
+
+  const applyCalculatorState = (state: CalculatorState) => {
+    setContracts(state.contracts);
+    setActiveContractId('');
+    setContractualRiskPercent(state.contractualRiskPercent);
+    setYear(state.year);
+    setWithholdingMethod(state.withholdingMethod);
+    setDesiredNetIncome(state.desiredNetIncome);
+    setProvisionBuckets(state.provisionBuckets);
+    setDaysWorked(state.daysWorked ?? FULL_MONTH_DAYS);
+    setExchangeRates(state.exchangeRates ?? {});
+    setFxReservePercent(state.fxReservePercent ?? 0);
+  };
+
+  const portfolio = useMemo((): PortfolioResults => calculatePortfolio(portfolioInput), [portfolioInput]);
+  const results: CalculationResults = portfolio.consolidated;
+  const hasMultipleContracts = contracts.length > 1;
 
+  // With a foreign contract the key totals are also shown in that currency at its TRM.
+  const displayCurrency = getDisplayCurrency(contracts, activeIndex);
+  const displayRate = displayCurrency ? exchangeRates[displayCurrency] : undefined;
+  const formatForeignEquivalent = (amount: number): string | null =>
+    displayCurrency && displayRate
+      ? t.currency.equivalent(formatCurrency(amount / displayRate, displayCurrency), formatInputDisplay(displayRate))
+      : null;
+  const usedForeignCurrencies = Array.from(new Set(contracts.map((c) => c.currency).filter(isForeignCurrency)));
+  const fxReserveAmount = results.provisions.find((p) => p.id === FX_RESERVE_BUCKET_ID)?.amount ?? 0;
+
+  // The solver reruns the engine with the same profile, so every rule applies to the suggested value too.
+  // With several contracts it solves the value of the contract being edited.
   const simulatorResults = useMemo(() => {
-    const costFactor = results.contractValue > 0 ? results.totalCosts / results.contractValue : 0;
-    const factorRemainder = 1 - costFactor;
-    
-    const requiredGross = factorRemainder > 0 ? desiredNetIncome / factorRemainder : 0;
-    const difference = requiredGross - results.contractValue;
+    const solution = solvePortfolioContractValue(desiredNetIncome, portfolioInput, activeIndex);
+    const isReachable = solution.status === SolverStatus.SOLVED;
+    const difference = isReachable ? solution.requiredGross - portfolioInput.contracts[activeIndex].contractValue : 0;
 
     return {
-      requiredGross,
+      ...solution,
+      isReachable,
       difference
     };
-  }, [desiredNetIncome, results]);
-
-  const formatCurrency = (val: number) => {
-    return new Intl.NumberFormat('es-CO', {
-      style: 'currency',
-      currency: 'COP',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(val);
+  }, [desiredNetIncome, portfolioInput, activeIndex]);
+
+  const arlActivityInfo = findArlActivity(arlActivity);
+  const isArlPaidByEntity = results.contributionPayers.arl === ContributionPayer.CONTRACTING_ENTITY;
+  const riskLevelsLabel = Array.from(new Set(contracts.map(formatArlClass))).join(', ');
+  const arlPayerNote = isArlPaidByEntity
+    ? t.socialSecurity.arlPaidByEntity
+    : results.employerPaidContributions > 0
+      ? t.socialSecurity.arlPartlyPaidByEntity(formatCurrency(results.employerPaidContributions))
+      : null;
+
+  const ibcBoundNotice = results.ibcBound === IBCBound.FLOOR
+    ? t.socialSecurity.floorNotice
+    : results.ibcBound === IBCBound.CAP
+      ? t.socialSecurity.capNotice
+      : null;
+
+  const ibcBaseLabel = results.ibcBound === IBCBound.FLOOR
+    ? t.report.ibcBaseFloor
+    : results.ibcBound === IBCBound.CAP
+      ? t.report.ibcBaseCap
+      : results.deductibleCosts > 0 ? t.report.ibcBaseAfterCosts : t.report.ibcBase;
+
+  const reportSectionContent = (section: ReportSection): ReportSectionContent | null => {
+    switch (section) {
+      case ReportSection.SUMMARY:
+        return {
+          section,
+          title: t.report.summaryTitle,
+          table: {
+            head: [t.report.concept, t.report.value],
+            body: [
+              [t.resultFields.contractValue, formatCurrency(results.contractValue)],
+              ...(displayCurrency && displayRate ? [
+                [t.report.foreignValue(displayCurrency), formatCurrency(results.contractValue / displayRate, displayCurrency)]
+              ] : []),
+              [t.resultFields.daysWorked, t.report.daysOfMonth(results.daysWorked)],
+              ...(results.deductibleCosts > 0 ? [
+                [t.resultFields.deductibleCosts, formatCurrency(results.deductibleCosts)]
+              ] : []),
+              [t.resultFields.netIncome, formatCurrency(results.netIncome)],
+              ...(displayCurrency && displayRate ? [
+                [t.report.foreignNetIncome(displayCurrency), formatCurrency(results.netIncome / displayRate, displayCurrency)]
+              ] : []),
+              [t.report.expensesPercent, `${results.nonDisposablePercent.toFixed(1)}%`],
+              [t.efficiency.title, `${(100 - results.nonDisposablePercent).toFixed(1)}%`],
+              ...(results.withholdingMethod !== WithholdingMethod.NONE ? [
+                [t.report.withholding(t.withholdingMethods[results.withholdingMethod]), formatCurrency(results.withholding)],
+                [t.withholding.expectedDeposit, formatCurrency(results.expectedDeposit)]
+              ] : [])
+            ],
+            theme: 'striped',
+            color: [16, 185, 129]
+          }
+        };
+      case ReportSection.SOCIAL_SECURITY:
+        return {
+          section,
+          title: t.report.socialSecurityTitle,
+          table: {
+            head: [t.report.concept, ibcBaseLabel, t.report.value],
+            body: [
+              [t.report.health(formatRate(parameters.healthRate)), formatCurrency(results.ibc), formatCurrency(results.health)],
+              [t.report.pension(formatRate(parameters.pensionRate)), formatCurrency(results.ibc), formatCurrency(results.pension)],
+              [`${t.socialSecurity.arl(riskLevelsLabel)}${arlPayerNote ? ` - ${arlPayerNote}` : ''}`, formatCurrency(results.ibc), formatCurrency(results.arl)],
+              [t.report.solidarityFund(results.solidarityFundRate > 0 ? formatRate(results.solidarityFundRate) : null), formatCurrency(results.ibc), formatCurrency(results.solidarityFund)],
+              [t.report.totalContributions, '', formatCurrency(results.totalSocialSecurity)]
+            ],
+            theme: 'grid',
+            color: [220, 38, 38]
+          }
+        };
+      case ReportSection.CONTRACTS:
+        if (!hasMultipleContracts) return null;
+        return {
+          section,
+          title: t.report.contractsTitle,
+          table: {
+            head: [t.portfolio.contract, t.portfolio.risk, t.portfolio.value, t.portfolio.allocatedIbc, t.portfolio.contributions, t.portfolio.net],
+            body: [
+              ...contracts.map((contract, i) => [
+                contract.label,
+                formatArlClass(contract),
+                formatCurrency(portfolio.contracts[i].contractValue),
+                formatCurrency(portfolio.contracts[i].ibc),
+                formatCurrency(portfolio.contracts[i].totalSocialSecurity),
+                formatCurrency(portfolio.contracts[i].netIncome)
+              ]),
+              [
+                t.portfolio.consolidated,
+                '',
+                formatCurrency(results.contractValue),
+                formatCurrency(results.ibc),
+                formatCurrency(results.totalSocialSecurity),
+                formatCurrency(results.netIncome)
+              ]
+            ],
+            theme: 'grid',
+            color: [37, 99, 235]
+          }
+        };
+      case ReportSection.PROVISIONS:
+        return {
+          section,
+          title: t.report.provisionsTitle,
+          table: {
+            head: [t.report.concept, t.report.rate, t.report.value],
+            body: [
+              ...effectiveProvisionBuckets.filter((bucket) => bucket.enabled).map((bucket) => [
+                bucket.name,
+                bucket.mode === ProvisionMode.PERCENT ? formatRate(bucket.value / 100, 2) : t.report.fixedAmount,
+                formatCurrency(results.provisions.find((p) => p.id === bucket.id)?.amount ?? 0)
+              ]),
+              ...(fxReserveAmount > 0 ? [
+                [t.currency.fxReserveName, `${fxReservePercent}%`, formatCurrency(fxReserveAmount)]
+              ] : []),
+              [t.report.contractualRisk, `${contractualRiskPercent.toFixed(1)}%`, formatCurrency(results.contractualRiskProvision)],
+              [t.provisions.total, '', formatCurrency(results.totalProvisions)]
+            ],
+            theme: 'grid',
+            color: [217, 119, 6]
+          }
+        };
+      case ReportSection.SIMULATOR:
+        return {
+          section,
+          title: t.report.simulatorTitle,
+          table: {
+            head: [t.report.concept, t.report.value],
+            body: [
+              [t.report.desiredNetIncome, formatCurrency(desiredNetIncome)],
+              ...(simulatorResults.isReachable ? [
+                [t.simulator.suggestedValue, formatCurrency(simulatorResults.requiredGross)],
+                [t.simulator.difference, `${simulatorResults.difference > 0 ? '+' : ''}${formatCurrency(simulatorResults.difference)}`]
+              ] : [
+                [t.simulator.suggestedValue, t.report.unreachable]
+              ])
+            ],
+            theme: 'striped',
+            color: [79, 70, 229]
+          }
+        };
+      case ReportSection.SENSITIVITY:
+        return {
+          section,
+          title: t.sensitivity.title,
+          charts: sensitivityCharts,
+          paragraphs: [
+            `${t.sensitivity.breakevenTitle}: ${sensitivityAnalysis.curves.map((curve) => t.sensitivity.breakevenValue(
+              curve.riskLevel,
+              curve.breakeven !== null ? formatCurrency(curve.breakeven) : t.sensitivity.unreachable
+            )).join(' · ')}.`,
+            t.sensitivity.kinksNote
+          ]
+        };
+      case ReportSection.LEGAL_NOTES:
+        return {
+          section,
+          title: t.report.legalNotesTitle,
+          paragraphs: [
+            `${t.report.ibcNote}${ibcBoundNotice ? ` ${ibcBoundNotice}` : ''}`,
+            t.report.arlNote,
+            t.report.provisionsNote
+          ]
+        };
+    }
   };
 
   const generateReport = () => {
-    const doc = new jsPDF();
-    const margin = 20;
-    let currentY = 20;
-
-    // Header
-    doc.setFontSize(18);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Reporte de Planeación Financiera - Contratistas', margin, currentY);
-    currentY += 10;
-
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Fecha: ${new Date().toLocaleDateString('es-CO')}`, margin, currentY);
-    doc.text(`Versión: 2026.1.0`, 150, currentY);
-    currentY += 15;
-
-    // 1. Executive Summary
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Resumen Ejecutivo', margin, currentY);
-    currentY += 5;
-
-    autoTable(doc, {
-      startY: currentY,
-      margin: { left: margin },
-      head: [['Concepto', 'Valor']],
-      body: [
-        ['Valor Bruto Facturado', formatCurrency(results.contractValue)],
-        ['Ingreso Neto Real Estimado', formatCurrency(results.netIncome)],
-        ['Porcentaje de Gastos y Deducciones', `${results.nonDisposablePercent.toFixed(1)}%`],
-        ['Eficiencia del Contrato', `${(100 - results.nonDisposablePercent).toFixed(1)}%`]
-      ],
-      theme: 'striped',
-      headStyles: { fillColor: [16, 185, 129] }
-    });
-    currentY = (doc as any).lastAutoTable.finalY + 15;
-
-    // 2. Legal Contributions
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Seguridad Social (Obligatorio)', margin, currentY);
-    currentY += 5;
-
-    autoTable(doc, {
-      startY: currentY,
-      margin: { left: margin },
-      head: [['Concepto', 'Base (IBC 40%)', 'Valor']],
-      body: [
-        ['Salud (12.5%)', formatCurrency(results.ibc), formatCurrency(results.health)],
-        ['Pensión (16%)', formatCurrency(results.ibc), formatCurrency(results.pension)],
-        [`ARL (Riesgo ${riskLevel})`, formatCurrency(results.ibc), formatCurrency(results.arl)],
-        ['Total Aportes', '', formatCurrency(results.totalSocialSecurity)]
-      ],
-      theme: 'grid',
-      headStyles: { fillColor: [220, 38, 38] }
-    });
-    currentY = (doc as any).lastAutoTable.finalY + 15;
-
-    // 3. Financial Provisions
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Provisiones Financieras (Sugerido)', margin, currentY);
-    currentY += 5;
-
-    autoTable(doc, {
-      startY: currentY,
-      margin: { left: margin },
-      head: [['Concepto', 'Tasa', 'Valor']],
-      body: [
-        ['Vacaciones', '4.17%', formatCurrency(results.vacationProvision)],
-        ['Cesantías + Intereses', '9.33%', formatCurrency(results.severanceProvision)],
-        [`Riesgo Contractual`, `${contractualRiskPercent.toFixed(1)}%`, formatCurrency(results.contractualRiskProvision)],
-        ['Total Reservas', '', formatCurrency(results.totalProvisions)]
-      ],
-      theme: 'grid',
-      headStyles: { fillColor: [217, 119, 6] }
-    });
-    currentY = (doc as any).lastAutoTable.finalY + 15;
-
-    // 4. Negotiation Simulator
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Simulador de Negociación', margin, currentY);
-    currentY += 5;
-
-    autoTable(doc, {
-      startY: currentY,
-      margin: { left: margin },
-      head: [['Concepto', 'Valor']],
-      body: [
-        ['Ingreso Neto Mensual Deseado', formatCurrency(desiredNetIncome)],
-        ['Valor Sugerido de Contrato', formatCurrency(simulatorResults.requiredGross)],
-        ['Diferencia vs Actual', `${simulatorResults.difference > 0 ? '+' : ''}${formatCurrency(simulatorResults.difference)}`]
+    const generatedAt = new Date();
+    const { name, idNumber, contractNumber } = contractorDetails;
+
+    const doc = renderReport({
+      title: t.report.title,
+      metadata: [
+        t.report.date(generatedAt.toLocaleDateString(t.locale)),
+        t.report.parameters(results.year, results.parametersVersion),
+        ...usedForeignCurrencies
+          .filter((c) => exchangeRates[c])
+          .map((c) => t.report.exchangeRate(c, formatInputDisplay(exchangeRates[c]))),
+        ...(name.trim() ? [t.report.contractor(name.trim())] : []),
+        ...(idNumber.trim() ? [t.report.idNumber(idNumber.trim())] : []),
+        ...(contractNumber.trim() ? [t.report.contractNumber(contractNumber.trim())] : [])
       ],
-      theme: 'striped',
-      headStyles: { fillColor: [79, 70, 229] }
+      stamp: t.report.stamp(results.year, results.parametersVersion),
+      sections: Object.values(ReportSection)
+        .filter((section) => selectedReportSections.includes(section))
+        .map(reportSectionContent)
+        .filter((content): content is ReportSectionContent => content !== null),
+      closingNotes: [t.report.disclaimer, t.report.copyright],
+      formatPageNumber: t.report.page
     });
-    currentY = (doc as any).lastAutoTable.finalY + 15;
-
-    // 5. Legal Notes - FIXED WRAPPING
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Notas Legales', margin, currentY);
-    currentY += 8;
-
-    doc.setFontSize(9);
-    doc.setFont('helvetica', 'normal');
-    
-    const notesMaxWidth = 170;
-    const notesLineHeight = 5;
-    const notesParagraphSpacing = 2;
-
-    const note1 = 'IBC: El Ingreso Base de Cotización (IBC) se calcula sobre el 40% del valor bruto del contrato.';
-    const note2 = 'ARL: Para contratos de prestación de servicios, el contratista es el responsable del pago de la ARL, salvo riesgos IV o V.';
-    const note3 = 'Las provisiones financieras son estimaciones sugeridas para cubrir prestaciones sociales no incluidas en contratos de servicios.';
-    
-    const wrappedNote1 = doc.splitTextToSize(note1, notesMaxWidth);
-    doc.text(wrappedNote1, margin, currentY);
-    currentY += (wrappedNote1.length * notesLineHeight) + notesParagraphSpacing;
-
-    const wrappedNote2 = doc.splitTextToSize(note2, notesMaxWidth);
-    doc.text(wrappedNote2, margin, currentY);
-    currentY += (wrappedNote2.length * notesLineHeight) + notesParagraphSpacing;
-
-    const wrappedNote3 = doc.splitTextToSize(note3, notesMaxWidth);
-    doc.text(wrappedNote3, margin, currentY);
-    currentY += (wrappedNote3.length * notesLineHeight) + 10;
-
-    // 6. Footer
-    doc.setFontSize(8);
-    doc.setTextColor(150);
-    const disclaimer = 'Esta calculadora es una herramienta de referencia. Los valores pueden variar según normativas locales o cambios en la ley tributaria';
-    const splitDisclaimer = doc.splitTextToSize(disclaimer, notesMaxWidth);
-    doc.text(splitDisclaimer, margin, currentY);
-    
-    doc.text('© 2026 - Herramienta de Planificación Financiera para Contratistas en Colombia', margin, currentY + 15);
-
-    doc.save('Reporte_Financiero_Contratista.pdf');
+
+    doc.save(buildReportFilename(name, generatedAt, t.report.filePrefix, t.report.fileFallbackName));
+    setIsReportModalOpen(false);
+  };
+
+  const isInvoice = reportDocumentType === ReportDocumentType.INVOICE;
+
+  // The cuenta de cobro bills the contract being edited, with its contributions rounded as in the PILA.
+  const generateInvoice = () => {
+    const issuedAt = new Date();
+    const contractResults = portfolio.contracts[activeIndex];
+    const [pilaLine] = buildPilaLines([activeContract], [contractResults], parameters, invoicePeriod);
+
+    const doc = renderReport(buildInvoiceDocument({
+      details: invoiceDetails,
+      number: invoiceNumber,
+      issuedAt,
+      period: invoicePeriod,
+      contractValue: contractResults.contractValue,
+      pilaLine,
+      pilaNumber,
+      stamp: t.report.stamp(results.year, results.parametersVersion),
+      ...(isForeignCurrency(currency) && exchangeRates[currency] ? {
+        foreignAmount: { currency, value: foreignValue, exchangeRate: exchangeRates[currency]! }
+      } : {})
+    }, {
+      ...t.invoice,
+      formatCurrency,
+      formatExchangeRate: formatInputDisplay,
+      formatRate,
+      formatDate: (date) => date.toLocaleDateString(t.locale),
+      formatPeriod: (period) => new Date(`${period}-01T00:00:00`).toLocaleDateString(t.locale, { month: 'long', year: 'numeric' }),
+      formatPageNumber: t.report.page
+    }));
+
+    const saved = { ...invoiceDetails, lastNumber: invoiceNumber };
+    saveInvoiceDetails(window.localStorage, saved);
+    setInvoiceDetails(saved);
+    setInvoiceNumber(invoiceNumber + 1);
+
+    doc.save(buildReportFilename(
+      contractorDetails.name,
+      issuedAt,
+      `${t.invoice.filePrefix}_${formatInvoiceNumber(invoiceNumber)}`,
+      t.report.fileFallbackName
+    ));
+    setIsReportModalOpen(false);
+  };
+
+  const pilaPeriod = getPilaPeriod(new Date(), year);
+
+  const exportPila = () => {
+    const lines = buildPilaLines(contracts, portfolio.contracts, parameters, pilaPeriod);
+    downloadTextFile(t.pila.fileName(pilaPeriod), pilaToCsv(lines, t.pila), CSV_MIME_TYPE);
+  };
+
+  const toggleReportSection = (section: ReportSection) => {
+    setSelectedReportSections((prev) =>
+      prev.includes(section) ? prev.filter((s) => s !== section) : [...prev, section]);
   };
 
   const handleRiskChange = (valStr: string) => {
-    let val = parseFloat(valStr);
-    if (isNaN(val)) val = 0;
-    if (val > 20) val = 20;
-    if (val < 0) val = 0;
-    setContractualRiskPercent(val);
+    setContractualRiskPercent(clampContractualRiskPercent(parseFloat(valStr)));
+  };
+
+  const handleFxReserveChange = (valStr: string) => {
+    setFxReservePercent(clampFxReservePercent(parseFloat(valStr)));
   };
 
   const riskInfo = [
-    { level: 'I', rate: '0.522%', color: 'bg-emerald-500', label: 'Riesgo Mínimo', desc: 'Actividades administrativas, centros de educación, finanzas.' },
-    { level: 'II', rate: '1.044%', color: 'bg-green-500', label: 'Riesgo Bajo', desc: 'Procesos manufactureros como tapetes, tejidos, confecciones.' },
-    { level: 'III', rate: '2.436%', color: 'bg-yellow-500', label: 'Riesgo Medio', desc: 'Fabricación de alimentos, alcoholes, agujas, automotriz.' },
-    { level: 'IV', rate: '4.350%', color: 'bg-orange-500', label: 'Riesgo Alto', desc: 'Transporte aéreo, terrestre, fabricación de aceites.' },
-    { level: 'V', rate: '6.960%', color: 'bg-red-600', label: 'Riesgo Máximo', desc: 'Minería, construcción, trabajos eléctricos, explosivos.' },
+    { level: RiskLevel.I, rate: formatRate(parameters.arlRates[RiskLevel.I], 3), color: 'bg-emerald-500', label: t.riskLevels[RiskLevel.I].label, desc: t.riskLevels[RiskLevel.I].description },
+    { level: RiskLevel.II, rate: formatRate(parameters.arlRates[RiskLevel.II], 3), color: 'bg-green-500', label: t.riskLevels[RiskLevel.II].label, desc: t.riskLevels[RiskLevel.II].description },
+    { level: RiskLevel.III, rate: formatRate(parameters.arlRates[RiskLevel.III], 3), color: 'bg-yellow-500', label: t.riskLevels[RiskLevel.III].label, desc: t.riskLevels[RiskLevel.III].description },
+    { level: RiskLevel.IV, rate: formatRate(parameters.arlRates[RiskLevel.IV], 3), color: 'bg-orange-500', label: t.riskLevels[RiskLevel.IV].label, desc: t.riskLevels[RiskLevel.IV].description },
+    { level: RiskLevel.V, rate: formatRate(parameters.arlRates[RiskLevel.V], 3), color: 'bg-red-600', label: t.riskLevels[RiskLevel.V].label, desc: t.riskLevels[RiskLevel.V].description },
   ];
 
   const cardBaseClasses = "bg-white p-6 lg:p-8 rounded-2xl shadow-sm border border-slate-200 transition-all duration-300 hover:shadow-xl hover:-translate-y-1";
@@ -258,10 +575,51 @@ const App: React.FC = () => {
             NetoReal
           </h1>
           <p className="text-lg text-slate-500 max-w-2xl mx-auto lg:text-xl">
-            Calcula cuánto dinero te queda realmente después de aportes legales y provisiones financieras como contratista independiente en Colombia.
+            {t.header.tagline}
           </p>
+          <div className="mt-6 inline-flex items-center gap-1 p-1 bg-white rounded-xl border border-slate-200 shadow-sm" role="group" aria-label={t.header.language}>
+            {Object.values(Language).map((lang) => (
+              <button
+                key={lang}
+                type="button"
+                onClick={() => setLanguage(lang)}
+                aria-pressed={language === lang}
+                className={`px-3 py-1.5 text-[11px] font-bold rounded-lg uppercase tracking-widest transition-all ${
+                  language === lang ? 'bg-blue-600 text-white shadow-md shadow-blue-200' : 'text-slate-500 hover:bg-blue-50'
+                }`}
+              >
+                {MESSAGES[lang].languageName}
+              </button>
+            ))}
+          </div>
         </header>
 
+        {urlWarnings.length > 0 && (
+          <div role="alert" className="mb-8 p-5 bg-amber-50 rounded-2xl border border-amber-200 flex gap-4 items-start shadow-sm">
+            <svg className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <div className="flex-1">
+              <p className="font-bold text-amber-800 mb-2">{t.urlWarnings.title}</p>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-amber-700">
+                {urlWarnings.map((warning, i) => (
+                  <li key={i}>{t.urlWarnings.describe(warning)}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              type="button"
+              onClick={() => setUrlWarnings([])}
+              className="text-amber-500 hover:text-amber-700 transition-colors p-1 rounded-full hover:bg-amber-100"
+              aria-label={t.urlWarnings.dismiss}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8 md:gap-6 xl:gap-5 items-start mb-16">
           <div className="flex flex-col gap-6">
             <section className={cardBaseClasses}>
@@ -269,45 +627,202 @@ const App: React.FC = () => {
                 <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                Datos del Contrato
+                {t.contract.title}
               </h2>
-              
+
+              <div className="flex flex-wrap gap-2 mb-6">
+                {contracts.map((contract) => (
+                  <button
+                    key={contract.id}
+                    type="button"
+                    onClick={() => setActiveContractId(contract.id)}
+                    className={`px-3 py-2 text-[11px] font-bold rounded-lg border transition-all uppercase tracking-widest ${
+                      contract.id === activeContract.id
+                        ? 'bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200'
+                        : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50'
+                    }`}
+                  >
+                    {contract.label}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={addContract}
+                  className="px-3 py-2 text-[11px] font-bold rounded-lg border border-dashed border-slate-300 text-slate-500 hover:border-blue-300 hover:text-blue-600 transition-all uppercase tracking-widest"
+                >
+                  {t.contract.add}
+                </button>
+              </div>
+
               <div className="space-y-6">
+                {hasMultipleContracts && (
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 mb-2">
+                      {t.contract.name}
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={activeContract.label}
+                        onChange={(e) => setContracts((prev) => prev.map((c) => (c.id === activeContract.id ? { ...c, label: e.target.value } : c)))}
+                        className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+                      />
+                      <button
+                        type="button"
+                        onClick={removeActiveContract}
+                        className="px-4 py-3 text-[11px] font-bold rounded-xl border border-red-200 text-red-600 hover:bg-red-50 transition-all uppercase tracking-widest"
+                      >
+                        {t.contract.remove}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="currency-select" className="block text-sm font-semibold text-slate-700 mb-2">
+                    {t.currency.label}
+                  </label>
+                  <select
+                    id="currency-select"
+                    value={currency}
+                    onChange={(e) => setContractCurrency(e.target.value as Currency)}
+                    className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all cursor-pointer text-lg font-medium"
+                  >
+                    {Object.values(Currency).map((c) => (
+                      <option key={c} value={c}>{t.currency.names[c]}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-semibold text-slate-700 mb-2">
-                    Valor Mensual del Contrato (COP)
+                    {isForeignCurrency(currency) ? t.currency.valueIn(currency) : t.contract.value}
                   </label>
                   <input
                     type="text"
                     inputMode="numeric"
-                    value={formatInputDisplay(contractValue)}
-                    onChange={(e) => setContractValue(parseInputValue(e.target.value))}
+                    value={formatInputDisplay(isForeignCurrency(currency) ? foreignValue : contractValue)}
+                    onChange={(e) => (isForeignCurrency(currency) ? setForeignValue : setContractValue)(parseInputValue(e.target.value))}
                     className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all appearance-none text-lg font-medium"
-                    placeholder="Ej. 5.000.000"
+                    placeholder={t.contract.valuePlaceholder}
                   />
+                  {isForeignCurrency(currency) && (
+                    <p className="mt-2 text-xs text-slate-500 leading-relaxed">
+                      {exchangeRates[currency]
+                        ? t.currency.converted(formatCurrency(contractValue))
+                        : t.currency.missingRate(currency)}
+                    </p>
+                  )}
+                </div>
+
+                {isForeignCurrency(currency) && (
+                  <div>
+                    <label htmlFor="exchange-rate-input" className="block text-sm font-semibold text-slate-700 mb-2">
+                      {t.currency.exchangeRate(currency)}
+                    </label>
+                    <input
+                      id="exchange-rate-input"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={exchangeRates[currency] ?? ''}
+                      onChange={(e) => setExchangeRate(currency, parseFloat(e.target.value))}
+                      className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-lg font-medium"
+                      placeholder={t.currency.exchangeRatePlaceholder}
+                    />
+                    <p className="mt-2 text-xs text-slate-500 leading-relaxed">{t.currency.exchangeRateHint}</p>
+                  </div>
+                )}
+
+                <DaysWorkedInput daysWorked={daysWorked} smmlv={parameters.smmlv} onChange={setDaysWorked} />
+
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-2">
+                    {t.contract.costs}
+                  </label>
+                  <select
+                    value={costMode}
+                    onChange={(e) => setCostMode(e.target.value as CostMode)}
+                    className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all cursor-pointer text-lg font-medium"
+                  >
+                    {Object.values(CostMode).map((mode) => (
+                      <option key={mode} value={mode}>{t.costModes[mode]}</option>
+                    ))}
+                  </select>
+                  {costMode === CostMode.DECLARED && (
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={formatInputDisplay(declaredCosts)}
+                      onChange={(e) => setDeclaredCosts(parseInputValue(e.target.value))}
+                      className="mt-3 w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all appearance-none text-lg font-medium"
+                      placeholder={t.contract.costsPlaceholder}
+                    />
+                  )}
+                  {costMode === CostMode.PRESUMPTIVE && (
+                    <select
+                      value={presumptiveCostActivity}
+                      onChange={(e) => setPresumptiveCostActivity(e.target.value)}
+                      className="mt-3 w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all cursor-pointer font-medium"
+                    >
+                      {PRESUMPTIVE_COST_ACTIVITIES.map((activity) => (
+                        <option key={activity.ciiu} value={activity.ciiu}>
+                          {activity.ciiu} - {activity.description} ({formatRate(activity.rate)})
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {results.deductibleCosts > 0 && (
+                    <p className="mt-2 text-xs text-slate-500">
+                      {t.contract.costsApplied(formatCurrency(results.deductibleCosts))}
+                    </p>
+                  )}
                 </div>
 
                 <div>
                   <label className="block text-sm font-semibold text-slate-700 mb-2">
-                    Nivel de Riesgo ARL
+                    {t.contract.riskLevel}
                   </label>
                   <select
                     value={riskLevel}
                     onChange={(e) => setRiskLevel(e.target.value as RiskLevel)}
                     className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all cursor-pointer text-lg font-medium"
                   >
-                    <option value={RiskLevel.I}>Clase I (0.522%) - Administrativos</option>
-                    <option value={RiskLevel.II}>Clase II (1.044%) - Manufactura</option>
-                    <option value={RiskLevel.III}>Clase III (2.436%) - Construcción/Agro</option>
-                    <option value={RiskLevel.IV}>Clase IV (4.350%) - Transporte</option>
-                    <option value={RiskLevel.V}>Clase V (6.960%) - Minería/Alto Riesgo</option>
+                    {Object.values(RiskLevel).map((level) => (
+                      <option key={level} value={level}>
+                        {t.contract.riskClass(level)} ({formatRate(parameters.arlRates[level], 3)}) - {t.riskLevels[level].sector}
+                      </option>
+                    ))}
                   </select>
+                  {arlActivityInfo && (
+                    <p className="mt-2 text-xs text-slate-500">
+                      {t.riskGuide.activity(arlActivityInfo.ciiu, arlActivityInfo.description)}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-2">
+                    {t.contract.year}
+                  </label>
+                  <select
+                    value={year}
+                    onChange={(e) => setYear(Number(e.target.value))}
+                    className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all cursor-pointer text-lg font-medium"
+                  >
+                    {AVAILABLE_YEARS.map((y) => (
+                      <option key={y} value={y}>{y} (v{getFiscalParameters(y).version})</option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-slate-500">
+                    SMMLV {formatCurrency(parameters.smmlv)} · UVT {formatCurrency(parameters.uvt)}
+                  </p>
                 </div>
               </div>
 
               <div className="mt-8 p-5 bg-blue-50 rounded-2xl border border-blue-100 flex flex-col gap-3 transition-colors hover:bg-blue-100/50">
                 <p className="text-sm text-blue-700 leading-relaxed">
-                  <strong>Nota:</strong> El Ingreso Base de Cotización (IBC) se calcula automáticamente sobre el 40% del valor de tu contrato.
+                  <strong>{t.contract.noteLabel}</strong> {t.contract.ibcNote}
                 </p>
                 <button 
                   onClick={() => setIsIBCModalOpen(true)}
@@ -316,17 +831,17 @@ const App: React.FC = () => {
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
-                  ¿Cómo funciona esta regla?
+                  {t.contract.howItWorks}
                 </button>
               </div>
             </section>
 
             <section className={cardBaseClasses}>
-              <h2 className="text-sm font-bold uppercase tracking-wider text-slate-400 mb-6">Eficiencia del Contrato</h2>
+              <h2 className="text-sm font-bold uppercase tracking-wider text-slate-400 mb-6">{t.efficiency.title}</h2>
               <div className="relative pt-1">
                 <div className="flex mb-3 items-center justify-between">
                   <span className="text-xs font-bold py-1.5 px-3 uppercase rounded-full text-blue-600 bg-blue-100">
-                    Gastos y Deducciones
+                    {t.efficiency.badge}
                   </span>
                   <span className="text-lg font-bold text-blue-600">
                     {results.nonDisposablePercent.toFixed(1)}%
@@ -339,24 +854,30 @@ const App: React.FC = () => {
                   ></div>
                 </div>
                 <p className="text-sm text-slate-500 italic leading-relaxed">
-                  Esto significa que de cada $1.000 que cobras, {(100 - results.nonDisposablePercent).toFixed(1)}% es realmente tuyo para gastos personales.
+                  {t.efficiency.explanation((100 - results.nonDisposablePercent).toFixed(1))}
                 </p>
               </div>
             </section>
 
             <section className="bg-slate-900 text-slate-100 p-8 lg:p-10 rounded-[2rem] shadow-xl transition-all duration-300 hover:shadow-2xl hover:shadow-slate-300/10 hover:-translate-y-1.5">
-              <h3 className="text-slate-400 font-bold text-xs uppercase tracking-widest mb-6 border-b border-slate-800 pb-5">Resumen de Operación</h3>
+              <h3 className="text-slate-400 font-bold text-xs uppercase tracking-widest mb-6 border-b border-slate-800 pb-5">{t.operation.title}</h3>
               <div className="space-y-6">
                 <div className="group">
-                  <p className="text-slate-500 text-xs uppercase font-bold mb-1 transition-colors group-hover:text-red-400">Costo Total de Operación</p>
+                  <p className="text-slate-500 text-xs uppercase font-bold mb-1 transition-colors group-hover:text-red-400">{t.operation.totalCosts}</p>
                   <div className="flex justify-between items-end">
                     <span className="text-2xl lg:text-3xl font-bold text-red-400 transition-all group-hover:scale-105 origin-left">{formatCurrency(results.totalCosts)}</span>
                     <span className="text-red-400/60 text-sm font-bold">-{results.nonDisposablePercent.toFixed(1)}%</span>
                   </div>
                 </div>
+                {results.deductibleCosts > 0 && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-slate-500 font-bold uppercase text-xs">{t.operation.includesCosts}</span>
+                    <span className="text-red-400/80 font-bold">{formatCurrency(results.deductibleCosts)}</span>
+                  </div>
+                )}
                 <div className="h-px bg-slate-800"></div>
                 <div className="group">
-                  <p className="text-slate-500 text-xs uppercase font-bold mb-1 transition-colors group-hover:text-white">Valor Bruto Facturado</p>
+                  <p className="text-slate-500 text-xs uppercase font-bold mb-1 transition-colors group-hover:text-white">{t.operation.grossValue}</p>
                   <p className="text-2xl lg:text-3xl font-bold text-white transition-all group-hover:scale-105 origin-left">{formatCurrency(results.contractValue)}</p>
                 </div>
               </div>
@@ -366,24 +887,46 @@ const App: React.FC = () => {
           <div className="flex flex-col gap-6">
             <section className={cardBaseClasses + " flex flex-col h-full"}>
               <div className="flex items-center justify-between mb-5">
-                <h3 className="text-xl font-bold text-slate-800">Seguridad Social</h3>
-                <span className="text-red-600 bg-red-50 text-[11px] font-bold px-3 py-1.5 rounded-full uppercase tracking-tighter border border-red-100">Obligatorio</span>
+                <h3 className="text-xl font-bold text-slate-800">{t.socialSecurity.title}</h3>
+                <span className="text-red-600 bg-red-50 text-[11px] font-bold px-3 py-1.5 rounded-full uppercase tracking-tighter border border-red-100">{t.socialSecurity.badge}</span>
               </div>
               <ul className="space-y-4">
                 <li className="flex justify-between items-center text-sm lg:text-base group">
-                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">Salud (12.5% IBC)</span>
+                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">{t.socialSecurity.ibc}</span>
+                  <span className="font-semibold text-slate-800">{formatCurrency(results.ibc)}</span>
+                </li>
+                {ibcBoundNotice && (
+                  <li className="p-3 bg-amber-50 rounded-xl border border-amber-100 text-[12px] text-amber-700 leading-relaxed">
+                    {ibcBoundNotice}
+                  </li>
+                )}
+                <li className="flex justify-between items-center text-sm lg:text-base group">
+                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">{t.socialSecurity.health(formatRate(parameters.healthRate))}</span>
                   <span className="font-semibold text-slate-800">{formatCurrency(results.health)}</span>
                 </li>
                 <li className="flex justify-between items-center text-sm lg:text-base group">
-                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">Pensión (16% IBC)</span>
+                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">{t.socialSecurity.pension(formatRate(parameters.pensionRate))}</span>
                   <span className="font-semibold text-slate-800">{formatCurrency(results.pension)}</span>
                 </li>
                 <li className="flex justify-between items-center text-sm lg:text-base group">
-                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">ARL (Riesgo {riskLevel})</span>
-                  <span className="font-semibold text-slate-800">{formatCurrency(results.arl)}</span>
+                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">
+                    {t.socialSecurity.arl(riskLevelsLabel)}
+                    {arlPayerNote && (
+                      <span className="block text-[11px] font-bold uppercase tracking-wider text-emerald-600">{arlPayerNote}</span>
+                    )}
+                  </span>
+                  <span className={isArlPaidByEntity ? 'font-semibold text-slate-400 line-through' : 'font-semibold text-slate-800'}>
+                    {formatCurrency(results.arl)}
+                  </span>
+                </li>
+                <li className="flex justify-between items-center text-sm lg:text-base group">
+                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">
+                    {t.socialSecurity.solidarityFund(results.solidarityFundRate > 0 ? formatRate(results.solidarityFundRate) : null)}
+                  </span>
+                  <span className="font-semibold text-slate-800">{formatCurrency(results.solidarityFund)}</span>
                 </li>
                 <li className="pt-4 border-t border-slate-100 flex justify-between items-center font-bold text-xl text-slate-900 transition-all group-hover:scale-[1.02]">
-                  <span>Total Aportes</span>
+                  <span>{t.socialSecurity.total}</span>
                   <span className="text-red-600">{formatCurrency(results.totalSocialSecurity)}</span>
                 </li>
               </ul>
@@ -393,29 +936,57 @@ const App: React.FC = () => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
                   </svg>
                   <p className="text-[12px] lg:text-[13px] text-slate-500 leading-relaxed italic">
-                    Estos aportes son obligatorios por ley para contratistas con IBC sobre el 40% del valor bruto. No son valores ajustables por el usuario.
+                    {t.socialSecurity.disclaimer}
                   </p>
                 </div>
+                <button
+                  type="button"
+                  onClick={exportPila}
+                  className="mt-4 w-full px-4 py-2.5 text-[11px] font-bold rounded-lg border bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50 uppercase tracking-widest transition-all"
+                >
+                  {t.pila.export}
+                </button>
+                <p className="mt-2 text-[11px] text-slate-400 leading-relaxed">{t.pila.hint(pilaPeriod)}</p>
               </div>
             </section>
 
             <section className={cardBaseClasses}>
               <div className="flex items-center justify-between mb-5">
-                <h3 className="text-xl font-bold text-slate-800">Provisiones Financieras</h3>
-                <span className="text-amber-600 bg-amber-50 text-[11px] font-bold px-3 py-1.5 rounded-full uppercase tracking-tighter border border-amber-100">Sugerido</span>
+                <h3 className="text-xl font-bold text-slate-800">{t.provisions.title}</h3>
+                <span className="text-amber-600 bg-amber-50 text-[11px] font-bold px-3 py-1.5 rounded-full uppercase tracking-tighter border border-amber-100">{t.provisions.badge}</span>
               </div>
               <ul className="space-y-4">
-                <li className="flex justify-between items-center text-sm lg:text-base group">
-                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">Vacaciones (4.17%)</span>
-                  <span className="font-semibold text-slate-800">{formatCurrency(results.vacationProvision)}</span>
-                </li>
-                <li className="flex justify-between items-center text-sm lg:text-base group">
-                  <span className="text-slate-500 group-hover:text-slate-800 transition-colors">Cesantías + Int. (9.33%)</span>
-                  <span className="font-semibold text-slate-800">{formatCurrency(results.severanceProvision)}</span>
-                </li>
+                <ProvisionBuckets
+                  buckets={effectiveProvisionBuckets}
+                  amounts={results.provisions}
+                  isCustom={provisionBuckets !== undefined}
+                  onChange={setProvisionBuckets}
+                  onReset={() => setProvisionBuckets(undefined)}
+                />
+
+                {displayCurrency && (
+                  <li className="pt-2">
+                    <label htmlFor="fx-reserve-input" className="block text-sm font-semibold text-slate-700 mb-2">{t.currency.fxReserve}</label>
+                    <input
+                      id="fx-reserve-input"
+                      type="number"
+                      min="0"
+                      max={MAX_FX_RESERVE_PERCENT}
+                      step="0.5"
+                      value={fxReservePercent}
+                      onChange={(e) => handleFxReserveChange(e.target.value)}
+                      className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium text-lg"
+                    />
+                    <p className="mt-2 text-xs text-slate-500 leading-relaxed">{t.currency.fxReserveHint}</p>
+                    <div className="mt-3 flex justify-between items-center font-semibold text-slate-700 text-sm lg:text-base">
+                      <span>{t.currency.fxReserveName}</span>
+                      <span className="text-blue-600 font-bold">{formatCurrency(fxReserveAmount)}</span>
+                    </div>
+                  </li>
+                )}
                 
                 <li className="pt-2">
-                  <label htmlFor="risk-input" className="block text-sm font-semibold text-slate-700 mb-2">Riesgo Contractual (%)</label>
+                  <label htmlFor="risk-input" className="block text-sm font-semibold text-slate-700 mb-2">{t.provisions.contractualRisk}</label>
                   <div className="flex flex-col gap-4">
                     <div className="relative group">
                       <input
@@ -433,12 +1004,12 @@ const App: React.FC = () => {
                     </div>
                     <div className="flex flex-wrap gap-2">
                       {[
-                        { label: 'Bajo', val: 5 },
-                        { label: 'Medio', val: 10 },
-                        { label: 'Alto', val: 15 }
+                        { label: t.provisions.presetLow, val: 5 },
+                        { label: t.provisions.presetMedium, val: 10 },
+                        { label: t.provisions.presetHigh, val: 15 }
                       ].map((preset) => (
                         <button
-                          key={preset.label}
+                          key={preset.val}
                           type="button"
                           onClick={() => setContractualRiskPercent(preset.val)}
                           className={`flex-1 px-3 py-2.5 text-[11px] font-bold rounded-lg border transition-all uppercase tracking-widest ${
@@ -454,13 +1025,16 @@ const App: React.FC = () => {
                   </div>
                 </li>
                 <li className="flex justify-between items-center font-semibold text-slate-700 text-sm lg:text-base pt-1 group">
-                  <span className="group-hover:text-slate-900 transition-colors">Valor del Riesgo</span>
+                  <span className="group-hover:text-slate-900 transition-colors">{t.provisions.riskValue}</span>
                   <span className="text-blue-600 font-bold">{formatCurrency(results.contractualRiskProvision)}</span>
                 </li>
                 <li className="pt-4 border-t border-slate-100 flex justify-between items-center font-bold text-xl text-slate-900 group">
-                  <span>Total Reservas</span>
+                  <span>{t.provisions.total}</span>
                   <span className="text-amber-600 transition-all group-hover:scale-110">{formatCurrency(results.totalProvisions)}</span>
                 </li>
+                {formatForeignEquivalent(results.totalProvisions) && (
+                  <li className="-mt-3 text-right text-xs font-semibold text-slate-500 tabular-nums">{formatForeignEquivalent(results.totalProvisions)}</li>
+                )}
               </ul>
             </section>
           </div>
@@ -468,37 +1042,90 @@ const App: React.FC = () => {
           <div className="flex flex-col gap-6 md:col-span-2 xl:col-span-1">
             <section className="bg-emerald-600 p-8 lg:p-10 rounded-[2.5rem] shadow-2xl shadow-emerald-200 text-white relative overflow-hidden flex flex-col items-center text-center transition-all duration-300 hover:shadow-emerald-300/40 hover:-translate-y-1.5">
               <div className="relative z-10 w-full flex flex-col items-center">
-                <h3 className="text-emerald-100 font-bold text-xs lg:text-sm uppercase tracking-[0.2em] mb-6">Ingreso Neto Real Estimado</h3>
+                <h3 className="text-emerald-100 font-bold text-xs lg:text-sm uppercase tracking-[0.2em] mb-6">{t.netIncome.title}</h3>
                 <div className="w-full overflow-visible flex justify-center mb-8">
                   <div className="text-4xl sm:text-5xl lg:text-4xl xl:text-5xl font-black tracking-tighter leading-none whitespace-nowrap tabular-nums drop-shadow-lg">
                     {formatCurrency(results.netIncome)}
                   </div>
                 </div>
+                {formatForeignEquivalent(results.netIncome) && (
+                  <p className="-mt-5 mb-6 text-emerald-50 text-base font-bold tabular-nums">{formatForeignEquivalent(results.netIncome)}</p>
+                )}
                 <div className="inline-flex items-center gap-2 px-5 py-2.5 bg-emerald-500/30 rounded-full border border-emerald-400/30 text-emerald-50 text-sm font-bold mb-4 shadow-sm transition-all hover:bg-emerald-500/50">
                   <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                   </svg>
-                  Disponible Real Mensual
+                  {t.netIncome.badge}
                 </div>
 
                 <button
-                  onClick={generateReport}
+                  onClick={() => setIsReportModalOpen(true)}
                   className="w-full py-3.5 px-4 bg-transparent border border-emerald-300/50 rounded-2xl text-emerald-50 text-sm font-bold transition-all hover:bg-emerald-500/20 flex items-center justify-center gap-3 active:scale-95 shadow-sm mb-6"
                 >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
-                  Download Report (PDF)
+                  {t.netIncome.downloadReport}
+                </button>
+
+                <button
+                  onClick={copyShareUrl}
+                  className="w-full -mt-3 py-3 px-4 bg-transparent border border-emerald-300/50 rounded-2xl text-emerald-50 text-sm font-bold transition-all hover:bg-emerald-500/20 flex items-center justify-center gap-3 active:scale-95 shadow-sm mb-6"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                  </svg>
+                  {isLinkCopied ? t.netIncome.linkCopied : t.netIncome.copyLink}
                 </button>
 
                 <p className="text-emerald-50/90 text-sm lg:text-base leading-relaxed max-w-xs mx-auto">
-                  Este es el dinero disponible mensual tras descontar seguridad social y separar ahorros para prestaciones sociales.
+                  {t.netIncome.description}
                 </p>
               </div>
               <div className="absolute -top-10 -right-10 w-48 h-48 bg-emerald-500 rounded-full opacity-30 blur-3xl"></div>
               <div className="absolute -bottom-10 -left-10 w-48 h-48 bg-emerald-400 rounded-full opacity-20 blur-3xl"></div>
             </section>
 
+            <EmploymentComparison results={portfolio.contracts[activeIndex]} profile={plannerProfile} />
+
+            <TaxRegimeComparison results={results} />
+
+            <section className={cardBaseClasses}>
+              <div className="flex items-center justify-between mb-5">
+                <h3 className="text-lg font-bold text-slate-800 tracking-tight">{t.withholding.title}</h3>
+                <span className="text-slate-600 bg-slate-100 text-[11px] font-bold px-3 py-1.5 rounded-full uppercase tracking-tighter border border-slate-200">{t.withholding.badge}</span>
+              </div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.withholding.method}</label>
+              <select
+                value={withholdingMethod}
+                onChange={(e) => setWithholdingMethod(e.target.value as WithholdingMethod)}
+                className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all cursor-pointer font-medium"
+              >
+                {Object.values(WithholdingMethod).map((method) => (
+                  <option key={method} value={method}>{t.withholdingMethods[method]}</option>
+                ))}
+              </select>
+              {withholdingMethod !== WithholdingMethod.NONE && (
+                <ul className="space-y-4 mt-6">
+                  <li className="flex justify-between items-center text-sm lg:text-base group">
+                    <span className="text-slate-500 group-hover:text-slate-800 transition-colors">{t.withholding.base}</span>
+                    <span className="font-semibold text-slate-800">{formatCurrency(results.withholdingBase)}</span>
+                  </li>
+                  <li className="flex justify-between items-center text-sm lg:text-base group">
+                    <span className="text-slate-500 group-hover:text-slate-800 transition-colors">{t.withholding.estimated}</span>
+                    <span className="font-semibold text-red-600">-{formatCurrency(results.withholding)}</span>
+                  </li>
+                  <li className="pt-4 border-t border-slate-100 flex justify-between items-center font-bold text-xl text-slate-900">
+                    <span>{t.withholding.expectedDeposit}</span>
+                    <span className="text-emerald-600">{formatCurrency(results.expectedDeposit)}</span>
+                  </li>
+                </ul>
+              )}
+              <p className="mt-6 text-[12px] text-slate-500 leading-relaxed italic">
+                {t.withholding.note(year, formatCurrency(parameters.uvt))}
+              </p>
+            </section>
+
             <section className="bg-white p-8 rounded-[2rem] shadow-lg border border-slate-200 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
               <div className="flex items-center gap-3 mb-5">
                 <div className="p-2 bg-indigo-100 text-indigo-600 rounded-lg">
@@ -506,11 +1133,11 @@ const App: React.FC = () => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                   </svg>
                 </div>
-                <h3 className="text-lg font-bold text-slate-800 tracking-tight">Simulador de Negociación</h3>
+                <h3 className="text-lg font-bold text-slate-800 tracking-tight">{t.simulator.title}</h3>
               </div>
               <div className="space-y-6">
                 <div>
-                  <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Ingreso Neto Mensual Deseado (COP)</label>
+                  <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.simulator.desiredNetIncome}</label>
                   <div className="relative group">
                     <input
                       type="text"
@@ -518,30 +1145,50 @@ const App: React.FC = () => {
                       value={formatInputDisplay(desiredNetIncome)}
                       onChange={(e) => setDesiredNetIncome(parseInputValue(e.target.value))}
                       className="w-full px-4 py-3 bg-slate-50 text-slate-900 border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all font-semibold text-lg"
-                      placeholder="Ej. 4.000.000"
+                      placeholder={t.simulator.desiredNetIncomePlaceholder}
                     />
                   </div>
                 </div>
                 <div className="p-5 bg-indigo-50 rounded-2xl border border-indigo-100">
-                  <p className="text-xs font-bold text-indigo-400 uppercase tracking-widest mb-3 text-center">Valor Sugerido de Contrato</p>
-                  <p className="text-3xl font-black text-indigo-900 text-center tracking-tighter mb-4">
-                    {formatCurrency(simulatorResults.requiredGross)}
+                  <p className="text-xs font-bold text-indigo-400 uppercase tracking-widest mb-3 text-center">
+                    {t.simulator.suggestedValue}{hasMultipleContracts ? ` (${activeContract.label})` : ''}
                   </p>
-                  <div className="flex flex-col gap-2 pt-4 border-t border-indigo-200/50">
-                    <div className="flex justify-between items-center text-sm">
-                      <span className="text-indigo-600/70">Diferencia vs Actual</span>
-                      <span className={`font-bold ${simulatorResults.difference > 0 ? 'text-emerald-600' : simulatorResults.difference < 0 ? 'text-red-600' : 'text-slate-600'}`}>
-                        {simulatorResults.difference > 0 ? '+' : ''}{formatCurrency(simulatorResults.difference)}
-                      </span>
-                    </div>
-                  </div>
+                  {simulatorResults.isReachable ? (
+                    <>
+                      <p className="text-3xl font-black text-indigo-900 text-center tracking-tighter mb-4">
+                        {formatCurrency(simulatorResults.requiredGross)}
+                      </p>
+                      {isForeignCurrency(currency) && exchangeRates[currency] && (
+                        <p className="-mt-3 mb-4 text-sm font-bold text-indigo-500 text-center tabular-nums">
+                          {t.currency.equivalent(formatCurrency(simulatorResults.requiredGross / exchangeRates[currency]!, currency), formatInputDisplay(exchangeRates[currency]))}
+                        </p>
+                      )}
+                      <div className="flex flex-col gap-2 pt-4 border-t border-indigo-200/50">
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-indigo-600/70">{t.simulator.difference}</span>
+                          <span className={`font-bold ${simulatorResults.difference > 0 ? 'text-emerald-600' : simulatorResults.difference < 0 ? 'text-red-600' : 'text-slate-600'}`}>
+                            {simulatorResults.difference > 0 ? '+' : ''}{formatCurrency(simulatorResults.difference)}
+                          </span>
+                        </div>
+                        {simulatorResults.results?.ibcBound === IBCBound.FLOOR && (
+                          <p className="text-[12px] text-indigo-600/80 leading-relaxed">
+                            {t.simulator.floorNotice}
+                          </p>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-lg font-bold text-red-600 text-center leading-snug">
+                      {t.simulator.unreachable}
+                    </p>
+                  )}
                 </div>
                 <div className="flex gap-3 items-start opacity-70">
                   <svg className="w-5 h-5 text-slate-400 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                   <p className="text-[12px] text-slate-600 leading-relaxed italic">
-                    Este valor bruto garantiza que, tras cubrir seguridad social y tus ahorros prestacionales ({(results.nonDisposablePercent).toFixed(1)}% de costos), logres tu ingreso neto objetivo.
+                    {t.simulator.explanation((simulatorResults.results?.nonDisposablePercent ?? 0).toFixed(1))}
                   </p>
                 </div>
               </div>
@@ -549,14 +1196,88 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {hasMultipleContracts && (
+          <section className="bg-white p-8 lg:p-10 rounded-3xl shadow-sm border border-slate-200 mb-16 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+            <div className="mb-8">
+              <h2 className="text-2xl font-bold text-slate-800 mb-2">{t.portfolio.title}</h2>
+              <p className="text-slate-500">{t.portfolio.description}</p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm lg:text-base">
+                <thead>
+                  <tr className="text-left text-xs font-bold uppercase tracking-widest text-slate-400 border-b border-slate-100">
+                    <th className="py-3 pr-4">{t.portfolio.contract}</th>
+                    <th className="py-3 pr-4">{t.portfolio.risk}</th>
+                    <th className="py-3 pr-4 text-right">{t.portfolio.value}</th>
+                    <th className="py-3 pr-4 text-right">{t.portfolio.allocatedIbc}</th>
+                    <th className="py-3 pr-4 text-right">{t.portfolio.contributions}</th>
+                    <th className="py-3 text-right">{t.portfolio.net}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {contracts.map((contract, i) => (
+                    <tr
+                      key={contract.id}
+                      onClick={() => setActiveContractId(contract.id)}
+                      className={`border-b border-slate-50 cursor-pointer transition-colors hover:bg-slate-50 ${contract.id === activeContract.id ? 'bg-blue-50/40' : ''}`}
+                    >
+                      <td className="py-3 pr-4 font-semibold text-slate-800">{contract.label}</td>
+                      <td className="py-3 pr-4 text-slate-500">{formatArlClass(contract)}</td>
+                      <td className="py-3 pr-4 text-right text-slate-800">{formatCurrency(portfolio.contracts[i].contractValue)}</td>
+                      <td className="py-3 pr-4 text-right text-slate-500">{formatCurrency(portfolio.contracts[i].ibc)}</td>
+                      <td className="py-3 pr-4 text-right text-red-600">{formatCurrency(portfolio.contracts[i].totalSocialSecurity)}</td>
+                      <td className="py-3 text-right font-bold text-emerald-600">{formatCurrency(portfolio.contracts[i].netIncome)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-bold text-slate-900">
+                    <td className="pt-4 pr-4">{t.portfolio.consolidated}</td>
+                    <td className="pt-4 pr-4"></td>
+                    <td className="pt-4 pr-4 text-right">{formatCurrency(results.contractValue)}</td>
+                    <td className="pt-4 pr-4 text-right">{formatCurrency(results.ibc)}</td>
+                    <td className="pt-4 pr-4 text-right text-red-600">{formatCurrency(results.totalSocialSecurity)}</td>
+                    <td className="pt-4 text-right text-emerald-600">{formatCurrency(results.netIncome)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        <SensitivityCharts
+          analysis={sensitivityAnalysis}
+          charts={sensitivityCharts}
+          maxSmmlv={sensitivityMaxSmmlv}
+          onMaxSmmlvChange={setSensitivityMaxSmmlv}
+        />
+
+        <ScenarioManager currentState={calculatorState} onLoad={applyCalculatorState} />
+
+        <AnnualPlanner
+          monthlyBilling={monthlyBilling}
+          onBillingChange={setMonthlyBilling}
+          profile={plannerProfile}
+          currentContractValue={contractValue}
+        />
+
+        <PaymentCalendar
+          idNumber={contractorDetails.idNumber}
+          onIdNumberChange={(idNumber) => updateContractorDetails({ idNumber })}
+          year={year}
+          monthlyContribution={results.totalSocialSecurity}
+        />
+
+        <BatchCalculator year={year} withholdingMethod={withholdingMethod} />
+
         <section className="bg-white p-8 lg:p-10 rounded-3xl shadow-sm border border-slate-200 mb-16 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
           <div className="mb-10">
-            <h2 className="text-2xl font-bold text-slate-800 mb-2">Guía de Niveles de Riesgo ARL</h2>
-            <p className="text-slate-500">
-              Cada actividad económica está clasificada por la ley colombiana según su nivel de peligro. 
-              Selecciona el nivel que corresponda a las funciones principales de tu contrato.
-            </p>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2">{t.riskGuide.title}</h2>
+            <p className="text-slate-500">{t.riskGuide.description}</p>
           </div>
+          <ArlActivityPicker
+            selectedCiiu={arlActivity}
+            onSelect={setArlActivity}
+            onClear={() => updateActiveContract({ arlActivity: undefined })}
+          />
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6">
             {riskInfo.map((info) => (
               <div 
@@ -576,14 +1297,14 @@ const App: React.FC = () => {
                   {info.desc}
                 </p>
                 <button
-                  onClick={() => setRiskLevel(info.level as RiskLevel)}
+                  onClick={() => setRiskLevel(info.level)}
                   className={`mt-auto w-full py-2 px-4 rounded-xl text-[11px] font-bold uppercase tracking-widest transition-all ${
                     riskLevel === info.level
                     ? 'bg-blue-600 text-white shadow-lg shadow-blue-200'
                     : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-100 hover:border-slate-300'
                   }`}
                 >
-                  {riskLevel === info.level ? 'Seleccionado' : 'Seleccionar'}
+                  {riskLevel === info.level ? t.riskGuide.selected : t.riskGuide.select}
                 </button>
               </div>
             ))}
@@ -593,15 +1314,15 @@ const App: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <span>
-              <strong>Dato clave:</strong> Para contratos de prestación de servicios, el contratista es el responsable de realizar el pago de la ARL, a menos que el riesgo sea IV o V, en cuyo caso la empresa contratante debe realizar el aporte directamente.
+              <strong>{t.riskGuide.keyFactLabel}</strong> {t.riskGuide.keyFact}
             </span>
           </div>
         </section>
 
         <footer className="mt-20 py-12 border-t border-slate-200 text-slate-400 text-sm lg:text-base text-center">
-          <p className="font-medium">© 2026 - NetoReal - Herramienta de Planificación Financiera para Contratistas en Colombia</p>
+          <p className="font-medium">{t.footer.copyright}</p>
           <p className="mt-4 px-6 italic max-w-4xl mx-auto opacity-80 leading-relaxed whitespace-pre-wrap">
-            Esta calculadora es una herramienta de referencia. Los valores pueden variar según normativas locales o cambios en la ley tributaria.
+            {t.footer.disclaimer}
           </p>
           <div className="mt-8 flex justify-center">
             <a
@@ -613,12 +1334,158 @@ const App: React.FC = () => {
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 00-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
               </svg>
-              Sugerencias o comentarios
+              {t.footer.feedback}
             </a>
           </div>
         </footer>
       </div>
 
+      {isReportModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" onClick={() => setIsReportModalOpen(false)}></div>
+          <div className="relative bg-white rounded-3xl shadow-2xl max-w-xl w-full max-h-[90vh] overflow-y-auto transform transition-all p-8 lg:p-10 animate-in fade-in zoom-in duration-300">
+            <h2 className="text-2xl font-black text-slate-800 tracking-tight mb-2">{t.reportModal.title}</h2>
+            <p className="text-sm text-slate-500 mb-6">
+              {isInvoice ? t.reportModal.invoiceDescription : t.reportModal.description}
+            </p>
+
+            <div className="grid grid-cols-2 gap-2 mb-8">
+              {Object.values(ReportDocumentType).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setReportDocumentType(type)}
+                  className={`px-3 py-2.5 text-[11px] font-bold rounded-lg border uppercase tracking-widest transition-all ${
+                    reportDocumentType === type
+                      ? 'bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200'
+                      : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50'
+                  }`}
+                >
+                  {t.reportModal.documentTypes[type]}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-4 mb-8">
+              {([
+                ['name', t.reportModal.name, t.reportModal.namePlaceholder],
+                ['idNumber', t.reportModal.idNumber, t.reportModal.idNumberPlaceholder],
+                ['contractNumber', t.reportModal.contractNumber, t.reportModal.contractNumberPlaceholder]
+              ] as [keyof ContractorDetails, string, string][]).map(([field, label, placeholder]) => (
+                <div key={field}>
+                  <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{label}</label>
+                  <input
+                    type="text"
+                    value={contractorDetails[field]}
+                    onChange={(e) => updateContractorDetails({ [field]: e.target.value })}
+                    className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+                    placeholder={placeholder}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {isInvoice ? (
+              <div className="space-y-4 mb-10">
+                {([
+                  [t.reportModal.clientName, t.reportModal.clientNamePlaceholder, invoiceDetails.client.name,
+                    (name: string) => setInvoiceDetails((prev) => ({ ...prev, client: { ...prev.client, name } }))],
+                  [t.reportModal.clientNit, t.reportModal.clientNitPlaceholder, invoiceDetails.client.nit,
+                    (nit: string) => setInvoiceDetails((prev) => ({ ...prev, client: { ...prev.client, nit } }))],
+                  [t.reportModal.city, t.reportModal.cityPlaceholder, invoiceDetails.city,
+                    (city: string) => setInvoiceDetails((prev) => ({ ...prev, city }))],
+                  [t.reportModal.concept, t.reportModal.conceptPlaceholder, invoiceDetails.concept,
+                    (concept: string) => setInvoiceDetails((prev) => ({ ...prev, concept }))],
+                  [t.reportModal.bankAccount, t.reportModal.bankAccountPlaceholder, invoiceDetails.bankAccount,
+                    (bankAccount: string) => setInvoiceDetails((prev) => ({ ...prev, bankAccount }))]
+                ] as [string, string, string, (val: string) => void][]).map(([label, placeholder, val, onChange]) => (
+                  <div key={label}>
+                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{label}</label>
+                    <input
+                      type="text"
+                      value={val}
+                      onChange={(e) => onChange(e.target.value)}
+                      className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+                      placeholder={placeholder}
+                    />
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{t.reportModal.invoiceNumber}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={invoiceNumber}
+                      onChange={(e) => setInvoiceNumber(Math.max(Math.round(Number(e.target.value)), 0))}
+                      className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{t.reportModal.period}</label>
+                    <input
+                      type="month"
+                      min={`${year}-01`}
+                      max={`${year}-12`}
+                      value={invoicePeriod}
+                      onChange={(e) => setInvoicePeriod(e.target.value)}
+                      className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{t.reportModal.pilaNumber}</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={pilaNumber}
+                    onChange={(e) => setPilaNumber(e.target.value)}
+                    className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+                    placeholder={t.reportModal.pilaNumberPlaceholder}
+                  />
+                </div>
+                {hasMultipleContracts && (
+                  <p className="text-xs text-slate-500">{t.reportModal.invoiceContract(activeContract.label)}</p>
+                )}
+              </div>
+            ) : (
+              <>
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">{t.reportModal.sections}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-10">
+                  {Object.values(ReportSection).map((section) => {
+                    const isUnavailable = section === ReportSection.CONTRACTS && !hasMultipleContracts;
+                    return (
+                      <label key={section} className={`flex items-center gap-3 p-3 rounded-xl border border-slate-100 bg-slate-50/50 ${isUnavailable ? 'opacity-40' : 'cursor-pointer'}`}>
+                        <input
+                          type="checkbox"
+                          checked={!isUnavailable && selectedReportSections.includes(section)}
+                          onChange={() => toggleReportSection(section)}
+                          disabled={isUnavailable}
+                          className="w-4 h-4 accent-blue-600"
+                        />
+                        <span className="text-sm font-semibold text-slate-700">{t.reportSections[section]}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+
+            <div className="flex gap-3">
+              <button onClick={() => setIsReportModalOpen(false)} className="flex-1 py-4 bg-white text-slate-600 border border-slate-200 rounded-2xl font-bold hover:bg-slate-50 transition-all">{t.reportModal.cancel}</button>
+              <button
+                onClick={isInvoice ? generateInvoice : generateReport}
+                disabled={isInvoice ? !invoicePeriod || invoiceNumber < 1 : selectedReportSections.length === 0}
+                className="flex-1 py-4 bg-slate-900 text-white rounded-2xl font-bold hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {t.reportModal.download}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {isIBCModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" onClick={() => setIsIBCModalOpen(false)}></div>
@@ -634,37 +1501,37 @@ const App: React.FC = () => {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
                 </svg>
               </div>
-              <h2 className="text-3xl font-black text-slate-800 tracking-tight mb-4">¿Qué es el IBC?</h2>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight mb-4">{t.ibcModal.title}</h2>
               <div className="h-1.5 w-12 bg-blue-600 rounded-full"></div>
             </div>
             <div className="space-y-8 text-slate-600 leading-relaxed">
               <section>
-                <h3 className="font-bold text-slate-800 text-lg mb-3 flex items-center gap-2"><span className="w-2 h-2 bg-blue-600 rounded-full"></span>Concepto Básico</h3>
-                <p>El <strong>Ingreso Base de Cotización (IBC)</strong> es el monto de tus ingresos sobre el cual se calculan los porcentajes de aportes a Salud (12.5%), Pentión (16%) y ARL (según riesgo).</p>
+                <h3 className="font-bold text-slate-800 text-lg mb-3 flex items-center gap-2"><span className="w-2 h-2 bg-blue-600 rounded-full"></span>{t.ibcModal.basicsTitle}</h3>
+                <p>{t.ibcModal.basicsBefore}<strong>{t.ibcModal.basicsTerm}</strong>{t.ibcModal.basicsAfter(formatRate(parameters.healthRate), formatRate(parameters.pensionRate))}</p>
               </section>
               <section className="bg-blue-50 p-6 rounded-2xl border border-blue-100 shadow-sm transition-transform hover:scale-[1.01]">
-                <h3 className="font-bold text-blue-800 text-lg mb-3">La Regla del 40%</h3>
-                <p className="text-blue-700">Para los trabajadores independientes (prestadores de servicios), la ley permite calcular sus aportes sobre el <strong>40% del valor bruto facturado mensualmente</strong> (antes de IVA si aplica).</p>
+                <h3 className="font-bold text-blue-800 text-lg mb-3">{t.ibcModal.ruleTitle}</h3>
+                <p className="text-blue-700">{t.ibcModal.ruleBefore}<strong>{t.ibcModal.ruleTerm}</strong>{t.ibcModal.ruleAfter}</p>
                 <div className="mt-4 pt-4 border-t border-blue-200">
-                  <p className="text-xs font-bold uppercase tracking-widest text-blue-500 mb-2">Ejemplo:</p>
-                  <p className="text-lg font-black text-blue-900">$5,000,000 x 40% = $2,000,000 (Tu IBC)</p>
+                  <p className="text-xs font-bold uppercase tracking-widest text-blue-500 mb-2">{t.ibcModal.exampleLabel}</p>
+                  <p className="text-lg font-black text-blue-900">{t.ibcModal.example(formatCurrency(5000000), formatCurrency(2000000))}</p>
                 </div>
               </section>
               <section className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                 <div className="p-5 bg-slate-50 rounded-2xl border border-slate-200 transition-colors hover:bg-white hover:border-blue-200 group">
-                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 group-hover:text-blue-400">Mínimo Legal</p>
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 group-hover:text-blue-400">{t.ibcModal.minimumTitle}</p>
                   <p className="font-bold text-slate-800">1 SMMLV</p>
-                  <p className="text-[12px] text-slate-500 mt-1">Si el 40% es menor a 1 salario mínimo, debes cotizar sobre el mínimo ($1,750,905).</p>
+                  <p className="text-[12px] text-slate-500 mt-1">{t.ibcModal.minimumText(year, formatCurrency(parameters.smmlv))}</p>
                 </div>
                 <div className="p-5 bg-slate-50 rounded-2xl border border-slate-200 transition-colors hover:bg-white hover:border-blue-200 group">
-                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 group-hover:text-blue-400">Máximo Legal</p>
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 group-hover:text-blue-400">{t.ibcModal.maximumTitle}</p>
                   <p className="font-bold text-slate-800">25 SMMLV</p>
-                  <p className="text-[12px] text-slate-500 mt-1">Incluso si ganas mucho más, el tope de base de cotización está limitado por ley.</p>
+                  <p className="text-[12px] text-slate-500 mt-1">{t.ibcModal.maximumText}</p>
                 </div>
               </section>
-              <p className="text-sm italic text-slate-400 text-center pt-4 border-t border-slate-100">Base Legal: Artículo 18 de la Ley 100 de 1993, modificado por la Ley 797 de 2003 y Ley 1122 de 2007.</p>
+              <p className="text-sm italic text-slate-400 text-center pt-4 border-t border-slate-100">{t.ibcModal.legalBasis}</p>
             </div>
-            <button onClick={() => setIsIBCModalOpen(false)} className="mt-10 w-full py-4 bg-slate-900 text-white rounded-2xl font-bold hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 hover:shadow-slate-300 active:scale-95">Entendido</button>
+            <button onClick={() => setIsIBCModalOpen(false)} className="mt-10 w-full py-4 bg-slate-900 text-white rounded-2xl font-bold hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 hover:shadow-slate-300 active:scale-95">{t.ibcModal.close}</button>
           </div>
         </div>
       )}
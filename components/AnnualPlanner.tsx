@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { CalculationInput } from '../types';
+import { projectYear, parseBillingSeries, MONTHS_IN_YEAR } from '../services/projection';
+import { parseInputValue } from '../utils/format';
+import { useI18n } from '../i18n';
+
+const CHART_HEIGHT = 160;
+const BAR_WIDTH = 28;
+const BAR_GAP = 14;
+
+interface AnnualPlannerProps {
+  monthlyBilling: number[];
+  onBillingChange: (monthlyBilling: number[]) => void;
+  profile: Omit<CalculationInput, 'contractValue'>;
+  currentContractValue: number;
+}
+
+const AnnualPlanner: React.FC<AnnualPlannerProps> = ({ monthlyBilling, onBillingChange, profile, currentContractValue }) => {
+  const { t, formatCurrency, formatInputDisplay } = useI18n();
+  const [pasteText, setPasteText] = useState('');
+
+  const projection = useMemo(() => projectYear(monthlyBilling, profile), [monthlyBilling, profile]);
+  const maxBilling = Math.max(...monthlyBilling, 1);
+
+  const setMonth = (month: number, val: number) => {
+    onBillingChange(monthlyBilling.map((current, i) => (i === month ? val : current)));
+  };
+
+  const applyPaste = () => {
+    if (!pasteText.trim()) return;
+    onBillingChange(parseBillingSeries(pasteText));
+    setPasteText('');
+  };
+
+  const lastMonth = projection.months[MONTHS_IN_YEAR - 1];
+
+  return (
+    <section className="bg-white p-8 lg:p-10 rounded-3xl shadow-sm border border-slate-200 mb-16 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{t.planner.title}</h2>
+        <p className="text-slate-500">{t.planner.description}</p>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3 mb-6">
+        {monthlyBilling.map((val, month) => (
+          <div key={t.planner.months[month]}>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{t.planner.months[month]}</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={formatInputDisplay(val)}
+              onChange={(e) => setMonth(month, parseInputValue(e.target.value))}
+              className="w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm font-medium"
+              placeholder="0"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-3 mb-10">
+        <textarea
+          value={pasteText}
+          onChange={(e) => setPasteText(e.target.value)}
+          rows={2}
+          className="flex-1 px-4 py-3 bg-slate-50 text-slate-900 border border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm"
+          placeholder={t.planner.pastePlaceholder}
+        />
+        <div className="flex lg:flex-col gap-2">
+          <button
+            type="button"
+            onClick={applyPaste}
+            className="flex-1 px-4 py-2.5 text-[11px] font-bold rounded-lg border bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200 uppercase tracking-widest transition-all hover:bg-blue-700"
+          >
+            {t.planner.applyPaste}
+          </button>
+          <button
+            type="button"
+            onClick={() => onBillingChange(Array(MONTHS_IN_YEAR).fill(currentContractValue))}
+            className="flex-1 px-4 py-2.5 text-[11px] font-bold rounded-lg border bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50 uppercase tracking-widest transition-all"
+          >
+            {t.planner.fillCurrent}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-10">
+        <svg
+          width={MONTHS_IN_YEAR * (BAR_WIDTH + BAR_GAP)}
+          height={CHART_HEIGHT + 24}
+          role="img"
+          aria-label={t.planner.chartLabel}
+        >
+          {projection.months.map(({ month, results }) => {
+            const scale = (val: number) => (Math.max(val, 0) / maxBilling) * CHART_HEIGHT;
+            const socialSecurity = Math.min(scale(results.totalSocialSecurity + results.deductibleCosts), CHART_HEIGHT);
+            const provisions = Math.min(scale(results.totalProvisions), CHART_HEIGHT - socialSecurity);
+            const net = Math.min(scale(results.netIncome), CHART_HEIGHT - socialSecurity - provisions);
+            const x = month * (BAR_WIDTH + BAR_GAP);
+            return (
+              <g key={month}>
+                <rect x={x} y={CHART_HEIGHT - net} width={BAR_WIDTH} height={net} rx={3} className="fill-emerald-500" />
+                <rect x={x} y={CHART_HEIGHT - net - provisions} width={BAR_WIDTH} height={provisions} className="fill-amber-400" />
+                <rect x={x} y={CHART_HEIGHT - net - provisions - socialSecurity} width={BAR_WIDTH} height={socialSecurity} className="fill-red-400" />
+                <text x={x + BAR_WIDTH / 2} y={CHART_HEIGHT + 16} textAnchor="middle" className="fill-slate-400 text-[10px] font-bold">
+                  {t.planner.months[month]}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+        <div className="flex flex-wrap gap-4 mt-3 text-xs font-bold text-slate-500">
+          <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm bg-red-400"></span>{t.planner.legendContributions}</span>
+          <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm bg-amber-400"></span>{t.planner.legendProvisions}</span>
+          <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm bg-emerald-500"></span>{t.planner.legendNet}</span>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-bold uppercase tracking-widest text-slate-400 border-b border-slate-100">
+              <th className="py-3 pr-4">{t.planner.month}</th>
+              <th className="py-3 pr-4 text-right">{t.planner.billed}</th>
+              <th className="py-3 pr-4 text-right">{t.planner.contributions}</th>
+              <th className="py-3 pr-4 text-right">{t.planner.provisions}</th>
+              <th className="py-3 pr-4 text-right">{t.planner.net}</th>
+              {lastMonth.provisionBalances.map((balance) => (
+                <th key={balance.id} className="py-3 pr-4 text-right">{t.planner.provisionBalance(balance.name)}</th>
+              ))}
+              <th className="py-3 text-right">{t.planner.riskBalance}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {projection.months.map(({ month, results, provisionBalances, contractualRiskBalance }) => (
+              <tr key={month} className="border-b border-slate-50 hover:bg-slate-50 transition-colors">
+                <td className="py-2.5 pr-4 font-semibold text-slate-800">{t.planner.months[month]}</td>
+                <td className="py-2.5 pr-4 text-right text-slate-800">{formatCurrency(results.contractValue)}</td>
+                <td className="py-2.5 pr-4 text-right text-red-600">{formatCurrency(results.totalSocialSecurity)}</td>
+                <td className="py-2.5 pr-4 text-right text-amber-600">{formatCurrency(results.totalProvisions)}</td>
+                <td className="py-2.5 pr-4 text-right font-bold text-emerald-600">{formatCurrency(results.netIncome)}</td>
+                {provisionBalances.map((balance) => (
+                  <td key={balance.id} className="py-2.5 pr-4 text-right text-slate-500">{formatCurrency(balance.amount)}</td>
+                ))}
+                <td className="py-2.5 text-right text-slate-500">{formatCurrency(contractualRiskBalance)}</td>
+              </tr>
+            ))}
+            <tr className="font-bold text-slate-900">
+              <td className="pt-4 pr-4">{t.planner.total}</td>
+              <td className="pt-4 pr-4 text-right">{formatCurrency(projection.totals.contractValue)}</td>
+              <td className="pt-4 pr-4 text-right text-red-600">{formatCurrency(projection.totals.totalSocialSecurity)}</td>
+              <td className="pt-4 pr-4 text-right text-amber-600">{formatCurrency(projection.totals.totalProvisions)}</td>
+              <td className="pt-4 pr-4 text-right text-emerald-600">{formatCurrency(projection.totals.netIncome)}</td>
+              {lastMonth.provisionBalances.map((balance) => (
+                <td key={balance.id} className="pt-4 pr-4 text-right">{formatCurrency(balance.amount)}</td>
+              ))}
+              <td className="pt-4 text-right">{formatCurrency(lastMonth.contractualRiskBalance)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default AnnualPlanner;
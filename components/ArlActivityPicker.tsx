@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ArlActivity } from '../types';
+import { findArlActivity, searchArlActivities } from '../services/arlActivities';
+import { useI18n } from '../i18n';
+
+interface ArlActivityPickerProps {
+  selectedCiiu?: string;
+  onSelect: (activity: ArlActivity) => void;
+  onClear: () => void;
+}
+
+const ArlActivityPicker: React.FC<ArlActivityPickerProps> = ({ selectedCiiu, onSelect, onClear }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+
+  const matches = searchArlActivities(query);
+  const selected = findArlActivity(selectedCiiu);
+
+  const pick = (activity: ArlActivity) => {
+    onSelect(activity);
+    setQuery('');
+  };
+
+  return (
+    <div className="mb-8">
+      <label className="block text-sm font-semibold text-slate-700 mb-2">{t.riskGuide.searchLabel}</label>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+        placeholder={t.riskGuide.searchPlaceholder}
+      />
+      <p className="mt-2 text-xs text-slate-500">{t.riskGuide.searchHint}</p>
+
+      {query.trim() && (
+        matches.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-400 italic">{t.riskGuide.noResults}</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-slate-100 border border-slate-100 rounded-2xl overflow-hidden">
+            {matches.map((activity) => (
+              <li key={activity.ciiu}>
+                <button
+                  type="button"
+                  onClick={() => pick(activity)}
+                  className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left hover:bg-blue-50 transition-colors"
+                >
+                  <span className="text-sm text-slate-700">
+                    <span className="font-bold text-slate-900">{activity.ciiu}</span> {activity.description}
+                  </span>
+                  <span className="shrink-0 text-[11px] font-bold uppercase tracking-widest text-slate-500">
+                    {t.contract.riskClass(activity.riskLevel)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {selected && (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3 p-4 rounded-2xl border border-blue-200 bg-blue-50/50">
+          <span className="text-sm font-semibold text-slate-700">
+            {t.riskGuide.activity(selected.ciiu, selected.description)} · {t.contract.riskClass(selected.riskLevel)}
+          </span>
+          <button
+            type="button"
+            onClick={onClear}
+            className="px-3 py-2 text-[11px] font-bold rounded-lg border border-red-200 text-red-600 hover:bg-red-50 uppercase tracking-widest transition-all"
+          >
+            {t.riskGuide.clearActivity}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArlActivityPicker;
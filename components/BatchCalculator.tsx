@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { WithholdingMethod } from '../types';
+import { runBatch, batchToCsv, detectDelimiter, BatchRow, BATCH_TEMPLATE } from '../services/batch';
+import { downloadTextFile } from '../utils/download';
+import { CSV_MIME_TYPE } from '../utils/csv';
+import { useI18n } from '../i18n';
+
+interface BatchCalculatorProps {
+  year: number;
+  withholdingMethod: WithholdingMethod;
+}
+
+const BatchCalculator: React.FC<BatchCalculatorProps> = ({ year, withholdingMethod }) => {
+  const { t, formatCurrency } = useI18n();
+  const [fileName, setFileName] = useState('');
+  const [delimiter, setDelimiter] = useState(';');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setDelimiter(detectDelimiter(text));
+    setRows(runBatch(text, { year, withholdingMethod }));
+  };
+
+  const downloadResults = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, '') || t.batch.fallbackFileName;
+    const csv = batchToCsv(rows, delimiter, {
+      line: t.batch.row,
+      errors: t.batch.errors,
+      resultFields: t.resultFields,
+      formatError: t.batch.describeError
+    });
+    downloadTextFile(`${baseName}${t.batch.resultsSuffix}.csv`, csv, CSV_MIME_TYPE);
+  };
+
+  const validRows = rows.filter((row) => row.results !== null);
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+
+  return (
+    <section className="bg-white p-8 lg:p-10 rounded-3xl shadow-sm border border-slate-200 mb-16 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{t.batch.title}</h2>
+        <p className="text-slate-500">
+          {t.batch.descriptionBefore}
+          {t.batch.columns.map((column, i) => (
+            <React.Fragment key={column}>
+              {i > 0 && (i === t.batch.columns.length - 1 ? t.batch.and : ', ')}
+              <strong>{column}</strong>
+            </React.Fragment>
+          ))}
+          {t.batch.descriptionAfter(year)}
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-8">
+        <label className="flex-1 flex items-center gap-3 px-4 py-3 bg-slate-50 border border-dashed border-slate-300 rounded-xl cursor-pointer hover:border-blue-400 transition-all">
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+            className="hidden"
+          />
+          <span className="text-sm font-medium text-slate-600">{fileName || t.batch.selectFile}</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => downloadTextFile('plantilla_lote.csv', BATCH_TEMPLATE, CSV_MIME_TYPE)}
+          className="px-6 py-3 text-[11px] font-bold rounded-xl border bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50 uppercase tracking-widest transition-all"
+        >
+          {t.batch.downloadTemplate}
+        </button>
+        <button
+          type="button"
+          onClick={downloadResults}
+          disabled={validRows.length === 0}
+          className="px-6 py-3 text-[11px] font-bold rounded-xl border bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200 uppercase tracking-widest transition-all hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t.batch.downloadResults}
+        </button>
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <p className="text-sm font-bold text-slate-600 mb-4">
+            {t.batch.summary(validRows.length, invalidRows.length)}
+          </p>
+
+          {invalidRows.length > 0 && (
+            <ul className="mb-8 p-4 bg-red-50 border border-red-100 rounded-2xl text-sm text-red-700 space-y-1">
+              {invalidRows.map((row) => (
+                <li key={row.line}><strong>{t.batch.rowLabel(row.line)}</strong> {row.errors.map(t.batch.describeError).join(' ')}</li>
+              ))}
+            </ul>
+          )}
+
+          {validRows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-bold uppercase tracking-widest text-slate-400 border-b border-slate-100">
+                    <th className="py-3 pr-4">{t.batch.row}</th>
+                    <th className="py-3 pr-4 text-right">{t.batch.value}</th>
+                    <th className="py-3 pr-4 text-right">{t.batch.contributions}</th>
+                    <th className="py-3 pr-4 text-right">{t.batch.provisions}</th>
+                    <th className="py-3 text-right">{t.batch.net}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validRows.map(({ line, results }) => results && (
+                    <tr key={line} className="border-b border-slate-50 hover:bg-slate-50 transition-colors">
+                      <td className="py-2.5 pr-4 font-semibold text-slate-800">{line}</td>
+                      <td className="py-2.5 pr-4 text-right text-slate-800">{formatCurrency(results.contractValue)}</td>
+                      <td className="py-2.5 pr-4 text-right text-red-600">{formatCurrency(results.totalSocialSecurity)}</td>
+                      <td className="py-2.5 pr-4 text-right text-amber-600">{formatCurrency(results.totalProvisions)}</td>
+                      <td className="py-2.5 text-right font-bold text-emerald-600">{formatCurrency(results.netIncome)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default BatchCalculator;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { FULL_MONTH_DAYS, IBC_MIN_SMMLV } from '../constants';
+import { clampDaysWorked } from '../services/calculator';
+import { getDaysWorked } from '../services/daysWorked';
+import { useI18n } from '../i18n';
+
+interface DaysWorkedInputProps {
+  daysWorked: number;
+  smmlv: number;
+  onChange: (days: number) => void;
+}
+
+const DaysWorkedInput: React.FC<DaysWorkedInputProps> = ({ daysWorked, smmlv, onChange }) => {
+  const { t, formatCurrency } = useI18n();
+  const [isUsingDates, setIsUsingDates] = useState(false);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Days are only taken from the dates once both make a valid range.
+  const updateDates = (start: string, end: string) => {
+    setStartDate(start);
+    setEndDate(end);
+    const days = getDaysWorked(start, end);
+    if (days !== null) onChange(days);
+  };
+
+  const hasInvalidDates = isUsingDates && startDate !== '' && endDate !== '' && getDaysWorked(startDate, endDate) === null;
+  const dateInputClasses = "w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <label className="block text-sm font-semibold text-slate-700">{t.daysWorked.label}</label>
+        <button
+          type="button"
+          onClick={() => setIsUsingDates(!isUsingDates)}
+          className="text-[11px] font-bold text-blue-600 hover:text-blue-800 uppercase tracking-widest transition-colors"
+        >
+          {isUsingDates ? t.daysWorked.useDays : t.daysWorked.useDates}
+        </button>
+      </div>
+
+      {isUsingDates ? (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs font-semibold text-slate-500">
+            {t.daysWorked.startDate}
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => updateDates(e.target.value, endDate)}
+              className={`mt-1 ${dateInputClasses}`}
+            />
+          </label>
+          <label className="text-xs font-semibold text-slate-500">
+            {t.daysWorked.endDate}
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => updateDates(startDate, e.target.value)}
+              className={`mt-1 ${dateInputClasses}`}
+            />
+          </label>
+        </div>
+      ) : (
+        <input
+          type="number"
+          min={1}
+          max={FULL_MONTH_DAYS}
+          step={1}
+          value={daysWorked}
+          onChange={(e) => onChange(clampDaysWorked(parseFloat(e.target.value)))}
+          className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-lg font-medium"
+        />
+      )}
+
+      {hasInvalidDates ? (
+        <p className="mt-2 text-xs font-semibold text-red-600">{t.daysWorked.invalidDates}</p>
+      ) : (
+        <p className="mt-2 text-xs text-slate-500">
+          {daysWorked < FULL_MONTH_DAYS
+            ? t.daysWorked.partialHint(daysWorked, formatCurrency((smmlv * IBC_MIN_SMMLV * daysWorked) / FULL_MONTH_DAYS))
+            : t.daysWorked.fullMonthHint}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DaysWorkedInput;
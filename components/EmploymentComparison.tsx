@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { CalculationInput, CalculationResults, EmployeeCompensation, EquivalenceDirection, SolverStatus } from '../types';
+import {
+  calculateEmployeeCompensation,
+  findEquivalentContractValue,
+  findEquivalentSalary,
+  getServiceNetValue
+} from '../services/employment';
+import { getFiscalParameters } from '../services/calculator';
+import { parseInputValue } from '../utils/format';
+import { useI18n } from '../i18n';
+
+// Both directions describe the contract being edited: its own results and its profile.
+interface EmploymentComparisonProps {
+  results: CalculationResults;
+  // Used to turn a salary offer into a contract value.
+  profile: Omit<CalculationInput, 'contractValue'>;
+}
+
+const EmploymentComparison: React.FC<EmploymentComparisonProps> = ({ results, profile }) => {
+  const { t, formatCurrency, formatInputDisplay } = useI18n();
+  const [direction, setDirection] = useState<EquivalenceDirection>(EquivalenceDirection.CONTRACT_TO_SALARY);
+  const [salaryOffer, setSalaryOffer] = useState<number>(0);
+
+  const parameters = getFiscalParameters(profile.year);
+  const serviceNetValue = getServiceNetValue(results);
+
+  const equivalentSalary = useMemo(
+    () => findEquivalentSalary(serviceNetValue, parameters),
+    [serviceNetValue, parameters]
+  );
+  const offer = useMemo(
+    () => (salaryOffer > 0 ? calculateEmployeeCompensation(salaryOffer, parameters) : null),
+    [salaryOffer, parameters]
+  );
+  const equivalentContract = useMemo(
+    () => (salaryOffer > 0 ? findEquivalentContractValue(salaryOffer, profile) : null),
+    [salaryOffer, profile]
+  );
+
+  const contractDifference = equivalentContract ? equivalentContract.requiredGross - results.contractValue : 0;
+
+  // Deductions are negative so the rows add up to the net value.
+  const breakdownRows = (c: EmployeeCompensation): { label: string; amount: number }[] => [
+    { label: t.employment.salary, amount: c.salary },
+    ...(c.transportAllowance > 0 ? [{ label: t.employment.transportAllowance, amount: c.transportAllowance }] : []),
+    { label: t.employment.health, amount: -c.health },
+    { label: t.employment.pension, amount: -c.pension },
+    ...(c.solidarityFund > 0 ? [{ label: t.employment.solidarityFund, amount: -c.solidarityFund }] : []),
+    { label: t.employment.prima, amount: c.prima },
+    { label: t.employment.severance, amount: c.severance },
+    { label: t.employment.severanceInterest, amount: c.severanceInterest },
+    { label: t.employment.vacation, amount: c.vacation }
+  ];
+
+  const renderBreakdown = (compensation: EmployeeCompensation) => (
+    <ul className="space-y-3 mt-6">
+      {breakdownRows(compensation).map(({ label, amount }) => (
+        <li key={label} className="flex justify-between items-center text-sm group">
+          <span className="text-slate-500 group-hover:text-slate-800 transition-colors">{label}</span>
+          <span className={`font-semibold ${amount < 0 ? 'text-red-600' : 'text-slate-800'}`}>
+            {amount < 0 ? `-${formatCurrency(-amount)}` : formatCurrency(amount)}
+          </span>
+        </li>
+      ))}
+      <li className="pt-3 border-t border-slate-100 flex justify-between items-center font-bold text-slate-900">
+        <span>{t.employment.netValue}</span>
+        <span className="text-emerald-600">{formatCurrency(compensation.netValue)}</span>
+      </li>
+    </ul>
+  );
+
+  return (
+    <section className="bg-white p-6 lg:p-8 rounded-2xl shadow-sm border border-slate-200 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+      <h3 className="text-lg font-bold text-slate-800 tracking-tight mb-2">{t.employment.title}</h3>
+      <p className="text-sm text-slate-500 mb-5">{t.employment.description}</p>
+
+      <div className="grid grid-cols-2 gap-2 mb-6">
+        {Object.values(EquivalenceDirection).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setDirection(option)}
+            className={`px-3 py-2.5 text-[11px] font-bold rounded-lg border uppercase tracking-widest transition-all ${
+              direction === option
+                ? 'bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200'
+                : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50'
+            }`}
+          >
+            {t.employment.directions[option]}
+          </button>
+        ))}
+      </div>
+
+      {direction === EquivalenceDirection.CONTRACT_TO_SALARY ? (
+        <>
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-500">{t.employment.serviceNetValue}</span>
+            <span className="font-semibold text-slate-800">{formatCurrency(serviceNetValue)}</span>
+          </div>
+          <div className="mt-5 p-5 bg-blue-50 rounded-2xl border border-blue-100 text-center">
+            <p className="text-xs font-bold text-blue-400 uppercase tracking-widest mb-2">{t.employment.equivalentSalary}</p>
+            {equivalentSalary ? (
+              <p className="text-3xl font-black text-blue-900 tracking-tighter">{formatCurrency(equivalentSalary.salary)}</p>
+            ) : (
+              <p className="text-sm font-bold text-red-600">{t.employment.unreachable}</p>
+            )}
+            {equivalentSalary && equivalentSalary.netValue > serviceNetValue && equivalentSalary.salary === parameters.smmlv && (
+              <p className="mt-2 text-xs text-blue-700">{t.employment.minimumWage}</p>
+            )}
+          </div>
+          {equivalentSalary && renderBreakdown(equivalentSalary)}
+        </>
+      ) : (
+        <>
+          <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.employment.salaryOffer}</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={formatInputDisplay(salaryOffer)}
+            onChange={(e) => setSalaryOffer(parseInputValue(e.target.value))}
+            className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-semibold text-lg"
+            placeholder={t.employment.salaryOfferPlaceholder}
+          />
+          {salaryOffer > 0 && salaryOffer < parameters.smmlv && (
+            <p className="mt-2 text-xs font-semibold text-red-600">{t.employment.belowMinimumWage(formatCurrency(parameters.smmlv))}</p>
+          )}
+          {equivalentContract && (
+            <div className="mt-5 p-5 bg-blue-50 rounded-2xl border border-blue-100 text-center">
+              <p className="text-xs font-bold text-blue-400 uppercase tracking-widest mb-2">{t.employment.equivalentContract}</p>
+              {equivalentContract.status === SolverStatus.SOLVED ? (
+                <>
+                  <p className="text-3xl font-black text-blue-900 tracking-tighter">{formatCurrency(equivalentContract.requiredGross)}</p>
+                  <p className="mt-2 text-xs text-blue-700">
+                    {t.employment.versusCurrent(`${contractDifference > 0 ? '+' : ''}${formatCurrency(contractDifference)}`)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm font-bold text-red-600">{t.employment.unreachable}</p>
+              )}
+            </div>
+          )}
+          {offer && renderBreakdown(offer)}
+        </>
+      )}
+
+      <p className="mt-6 text-[12px] text-slate-500 leading-relaxed italic">{t.employment.note}</p>
+    </section>
+  );
+};
+
+export default EmploymentComparison;
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import {
+  buildPaymentSchedule,
+  getDeadlineBusinessDay,
+  getMonthEndDates,
+  paymentScheduleToIcs
+} from '../services/paymentCalendar';
+import { downloadTextFile } from '../utils/download';
+import { ICS_MIME_TYPE } from '../utils/ics';
+import { useI18n } from '../i18n';
+
+interface PaymentCalendarProps {
+  idNumber: string;
+  onIdNumberChange: (idNumber: string) => void;
+  year: number;
+  monthlyContribution: number;
+}
+
+const pad = (val: number) => String(val).padStart(2, '0');
+
+const PaymentCalendar: React.FC<PaymentCalendarProps> = ({ idNumber, onIdNumberChange, year, monthlyContribution }) => {
+  const { t, formatCurrency } = useI18n();
+  // Only the user's edits are kept, tied to their year; any other year shows its month ends.
+  const [editedDates, setEditedDates] = useState<{ year: number; dates: string[] } | null>(null);
+  const billingDates = useMemo(
+    () => (editedDates?.year === year ? editedDates.dates : getMonthEndDates(year)),
+    [editedDates, year]
+  );
+  const setBillingDates = (dates: string[]) => setEditedDates({ year, dates });
+
+  const businessDay = getDeadlineBusinessDay(idNumber);
+  const schedule = useMemo(() => buildPaymentSchedule(billingDates, idNumber), [billingDates, idNumber]);
+
+  // Dates are ISO calendar days, so they are formatted in UTC to avoid shifting a day.
+  const formatDate = (isoDate: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(isoDate).toLocaleDateString(t.locale, { ...options, timeZone: 'UTC' });
+  const formatPeriod = (period: string) => formatDate(`${period}-01`, { month: 'long', year: 'numeric' });
+  const formatBillingDates = (dates: string[]) =>
+    dates.map((date) => formatDate(date, { day: 'numeric', month: 'short' })).join(', ');
+
+  const now = new Date();
+  const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const nextDueDate = schedule?.find((deadline) => deadline.dueDate >= today)?.dueDate;
+
+  const setDate = (index: number, date: string) => {
+    setBillingDates(billingDates.map((current, i) => (i === index ? date : current)));
+  };
+
+  const downloadIcs = () => {
+    if (!schedule) return;
+    const ics = paymentScheduleToIcs(schedule, {
+      summary: (deadline) => t.paymentCalendar.eventSummary(formatPeriod(deadline.period)),
+      description: (deadline) => t.paymentCalendar.eventDescription(
+        formatPeriod(deadline.period),
+        formatBillingDates(deadline.billingDates),
+        formatCurrency(monthlyContribution)
+      )
+    }, new Date());
+    downloadTextFile(t.paymentCalendar.fileName, ics, ICS_MIME_TYPE);
+  };
+
+  return (
+    <section className="bg-white p-8 lg:p-10 rounded-3xl shadow-sm border border-slate-200 mb-16 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{t.paymentCalendar.title}</h2>
+        <p className="text-slate-500">{t.paymentCalendar.description}</p>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8 mb-10">
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.paymentCalendar.idNumber}</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={idNumber}
+            onChange={(e) => onIdNumberChange(e.target.value)}
+            className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+            placeholder={t.paymentCalendar.idNumberPlaceholder}
+          />
+          <p className="mt-3 text-sm text-slate-500">
+            {businessDay !== null ? t.paymentCalendar.businessDay(businessDay) : t.paymentCalendar.missingId}
+          </p>
+        </div>
+
+        <div className="lg:col-span-2">
+          <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.paymentCalendar.billingDates}</label>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 mb-3">
+            {billingDates.map((date, i) => (
+              <div key={i} className="flex items-center gap-1">
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(i, e.target.value)}
+                  className="w-full px-2 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => setBillingDates(billingDates.filter((_, index) => index !== i))}
+                  aria-label={t.paymentCalendar.remove}
+                  className="px-2 py-2 text-xs font-bold text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setBillingDates([...billingDates, ''])}
+              className="px-4 py-2.5 text-[11px] font-bold rounded-lg border bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50 uppercase tracking-widest transition-all"
+            >
+              {t.paymentCalendar.addDate}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditedDates(null)}
+              className="px-4 py-2.5 text-[11px] font-bold rounded-lg border bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50 uppercase tracking-widest transition-all"
+            >
+              {t.paymentCalendar.fillYear(year)}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {schedule && schedule.length === 0 && (
+        <p className="text-sm text-slate-400 italic">{t.paymentCalendar.empty}</p>
+      )}
+
+      {schedule && schedule.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 mb-8">
+            {schedule.map((deadline) => {
+              const isNext = deadline.dueDate === nextDueDate;
+              return (
+                <div
+                  key={deadline.period}
+                  className={`p-4 rounded-2xl border transition-colors ${isNext ? 'border-blue-300 bg-blue-50' : 'border-slate-100 bg-slate-50/50'}`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-bold uppercase tracking-widest text-slate-400">
+                      {formatDate(deadline.dueDate, { month: 'long', year: 'numeric' })}
+                    </span>
+                    {isNext && (
+                      <span className="px-2 py-0.5 text-[10px] font-bold uppercase tracking-widest rounded-full bg-blue-600 text-white">
+                        {t.paymentCalendar.next}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-3xl font-black text-slate-800">{formatDate(deadline.dueDate, { day: 'numeric' })}</p>
+                  <p className="text-xs font-bold text-slate-500 mb-3">{formatDate(deadline.dueDate, { weekday: 'long' })}</p>
+                  <p className="text-sm font-semibold text-slate-700">{t.paymentCalendar.covers(formatPeriod(deadline.period))}</p>
+                  <p className="text-xs text-slate-400">{t.paymentCalendar.billed(formatBillingDates(deadline.billingDates))}</p>
+                  <p className="text-xs font-bold text-red-600 mt-2">{t.paymentCalendar.estimatedContribution(formatCurrency(monthlyContribution))}</p>
+                </div>
+              );
+            })}
+          </div>
+          <button
+            type="button"
+            onClick={downloadIcs}
+            className="px-6 py-3 text-[11px] font-bold rounded-xl border bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200 uppercase tracking-widest transition-all hover:bg-blue-700"
+          >
+            {t.paymentCalendar.downloadIcs}
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PaymentCalendar;
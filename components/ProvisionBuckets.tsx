@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { ProvisionAmount, ProvisionBucket, ProvisionMode, ProvisionProfile } from '../types';
+import {
+  createProvisionBucket,
+  loadProvisionProfiles,
+  saveProvisionProfiles
+} from '../services/provisions';
+import { MAX_PROVISION_PERCENT } from '../constants';
+import { formatRate, parseInputValue } from '../utils/format';
+import { useI18n } from '../i18n';
+
+interface ProvisionBucketsProps {
+  buckets: ProvisionBucket[];
+  amounts: ProvisionAmount[];
+  isCustom: boolean;
+  onChange: (buckets: ProvisionBucket[]) => void;
+  onReset: () => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 bg-white text-slate-900 border border-slate-300 rounded-lg focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all text-sm font-medium';
+const secondaryButtonClasses = 'px-3 py-2 text-[11px] font-bold rounded-lg border bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50 uppercase tracking-widest transition-all';
+
+const ProvisionBuckets: React.FC<ProvisionBucketsProps> = ({ buckets, amounts, isCustom, onChange, onReset }) => {
+  const { t, formatCurrency, formatInputDisplay } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const [profiles, setProfiles] = useState<ProvisionProfile[]>(() => loadProvisionProfiles(window.localStorage));
+  const [profileName, setProfileName] = useState('');
+
+  const updateProfiles = (next: ProvisionProfile[]) => {
+    setProfiles(next);
+    saveProvisionProfiles(window.localStorage, next);
+  };
+
+  const updateBucket = (id: string, changes: Partial<ProvisionBucket>) => {
+    onChange(buckets.map((bucket) => (bucket.id === id ? { ...bucket, ...changes } : bucket)));
+  };
+
+  const saveProfile = () => {
+    const trimmed = profileName.trim();
+    if (!trimmed) return;
+    const existing = profiles.find((p) => p.name === trimmed);
+    const profile: ProvisionProfile = {
+      id: existing?.id ?? Math.random().toString(36).slice(2, 10),
+      name: trimmed,
+      buckets
+    };
+    updateProfiles(existing
+      ? profiles.map((p) => (p.id === existing.id ? profile : p))
+      : [...profiles, profile]);
+    setProfileName('');
+  };
+
+  const bucketLabel = (bucket: ProvisionBucket) =>
+    bucket.mode === ProvisionMode.PERCENT
+      ? t.provisions.bucketRate(bucket.name, formatRate(bucket.value / 100, 2))
+      : t.provisions.bucketFixed(bucket.name);
+
+  return (
+    <>
+      {buckets.length === 0 && <li className="text-sm text-slate-400 italic">{t.provisions.noBuckets}</li>}
+      {buckets.map((bucket) => (
+        <li key={bucket.id} className="flex justify-between items-center gap-3 text-sm lg:text-base group">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bucket.enabled}
+              onChange={(e) => updateBucket(bucket.id, { enabled: e.target.checked })}
+              aria-label={t.provisions.enabled}
+              className="w-4 h-4 accent-amber-600"
+            />
+            <span className={`transition-colors ${bucket.enabled ? 'text-slate-500 group-hover:text-slate-800' : 'text-slate-300 line-through'}`}>
+              {bucketLabel(bucket)}
+            </span>
+          </label>
+          <span className="font-semibold text-slate-800">
+            {bucket.enabled ? formatCurrency(amounts.find((a) => a.id === bucket.id)?.amount ?? 0) : '—'}
+          </span>
+        </li>
+      ))}
+
+      <li>
+        <button type="button" onClick={() => setIsEditing(!isEditing)} className={`w-full ${secondaryButtonClasses}`}>
+          {isEditing ? t.provisions.done : t.provisions.customize}
+        </button>
+      </li>
+
+      {isEditing && (
+        <li className="p-4 rounded-2xl border border-slate-100 bg-slate-50/50 space-y-4">
+          {buckets.map((bucket) => (
+            <div key={bucket.id} className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={bucket.name}
+                onChange={(e) => updateBucket(bucket.id, { name: e.target.value })}
+                aria-label={t.provisions.bucketName}
+                className={`col-span-2 ${inputClasses}`}
+              />
+              <select
+                value={bucket.mode}
+                onChange={(e) => updateBucket(bucket.id, { mode: e.target.value as ProvisionMode, value: 0 })}
+                className={`${inputClasses} cursor-pointer`}
+              >
+                {Object.values(ProvisionMode).map((mode) => (
+                  <option key={mode} value={mode}>{t.provisions.modes[mode]}</option>
+                ))}
+              </select>
+              {bucket.mode === ProvisionMode.PERCENT ? (
+                <input
+                  type="number"
+                  min="0"
+                  max={MAX_PROVISION_PERCENT}
+                  step="0.01"
+                  value={bucket.value}
+                  onChange={(e) => updateBucket(bucket.id, { value: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), MAX_PROVISION_PERCENT) })}
+                  className={inputClasses}
+                />
+              ) : (
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formatInputDisplay(bucket.value)}
+                  onChange={(e) => updateBucket(bucket.id, { value: parseInputValue(e.target.value) })}
+                  className={inputClasses}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(buckets.filter((b) => b.id !== bucket.id))}
+                className="col-span-2 justify-self-end text-[11px] font-bold text-red-600 hover:underline uppercase tracking-widest"
+              >
+                {t.provisions.removeBucket}
+              </button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => onChange([...buckets, createProvisionBucket(t.provisions.newBucketName(buckets.length + 1))])}
+              className={secondaryButtonClasses}
+            >
+              {t.provisions.addBucket}
+            </button>
+            {isCustom && (
+              <button type="button" onClick={onReset} className={secondaryButtonClasses}>
+                {t.provisions.resetDefault}
+              </button>
+            )}
+          </div>
+
+          <div className="pt-4 border-t border-slate-200">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.provisions.profiles}</p>
+            <div className="flex gap-2 mb-3">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') saveProfile(); }}
+                placeholder={t.provisions.profileNamePlaceholder}
+                className={inputClasses}
+              />
+              <button
+                type="button"
+                onClick={saveProfile}
+                disabled={!profileName.trim()}
+                className="shrink-0 px-3 py-2 text-[11px] font-bold rounded-lg border bg-blue-600 text-white border-blue-600 uppercase tracking-widest transition-all hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {t.provisions.saveProfile}
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {profiles.map((profile) => (
+                <li key={profile.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 font-semibold text-slate-700">{profile.name}</span>
+                  <button type="button" onClick={() => onChange(profile.buckets)} className={secondaryButtonClasses}>
+                    {t.provisions.applyProfile}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateProfiles(profiles.filter((p) => p.id !== profile.id))}
+                    className="px-3 py-2 text-[11px] font-bold rounded-lg border border-red-200 text-red-600 hover:bg-red-50 uppercase tracking-widest transition-all"
+                  >
+                    {t.provisions.deleteProfile}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </li>
+      )}
+    </>
+  );
+};
+
+export default ProvisionBuckets;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { CalculatorState, NumericResultField, SavedScenario } from '../types';
+import {
+  loadScenarios,
+  saveScenarios,
+  calculateScenario,
+  compareScenarios,
+  MAX_COMPARED_SCENARIOS
+} from '../services/scenarios';
+import { formatRate } from '../utils/format';
+import { useI18n } from '../i18n';
+
+interface ScenarioManagerProps {
+  currentState: CalculatorState;
+  onLoad: (state: CalculatorState) => void;
+}
+
+const isNegligible = (field: NumericResultField | null, delta: number) =>
+  field === 'solidarityFundRate' || field === 'nonDisposablePercent'
+    ? Math.abs(delta) < 1e-6
+    : Math.abs(delta) < 0.5;
+
+const ScenarioManager: React.FC<ScenarioManagerProps> = ({ currentState, onLoad }) => {
+  const { t, formatCurrency } = useI18n();
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(() => loadScenarios(window.localStorage));
+  const [name, setName] = useState('');
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+  const updateScenarios = (next: SavedScenario[]) => {
+    setScenarios(next);
+    saveScenarios(window.localStorage, next);
+  };
+
+  const saveCurrent = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = scenarios.find((s) => s.name === trimmed);
+    const scenario: SavedScenario = {
+      id: existing?.id ?? Math.random().toString(36).slice(2, 10),
+      name: trimmed,
+      savedAt: new Date().toISOString(),
+      state: currentState
+    };
+    updateScenarios(existing
+      ? scenarios.map((s) => (s.id === existing.id ? scenario : s))
+      : [...scenarios, scenario]);
+    setName('');
+  };
+
+  const deleteScenario = (id: string) => {
+    updateScenarios(scenarios.filter((s) => s.id !== id));
+    setComparedIds((prev) => prev.filter((compared) => compared !== id));
+  };
+
+  const toggleCompared = (id: string) => {
+    setComparedIds((prev) => {
+      if (prev.includes(id)) return prev.filter((compared) => compared !== id);
+      if (prev.length >= MAX_COMPARED_SCENARIOS) return prev;
+      return [...prev, id];
+    });
+  };
+
+  const compared = comparedIds
+    .map((id) => scenarios.find((s) => s.id === id))
+    .filter((s): s is SavedScenario => s !== undefined);
+
+  const formatField = (field: NumericResultField | null, val: number) => {
+    if (field === 'year' || field === 'daysWorked') return String(val);
+    if (field === 'solidarityFundRate') return formatRate(val);
+    if (field === 'nonDisposablePercent') return `${val.toFixed(1)}%`;
+    return formatCurrency(val);
+  };
+
+  const formatDelta = (field: NumericResultField | null, delta: number) =>
+    isNegligible(field, delta) ? '—' : `${delta > 0 ? '+' : ''}${formatField(field, delta)}`;
+
+  const comparison = compareScenarios(compared.map((s) => calculateScenario(s.state)));
+
+  return (
+    <section className="bg-white p-8 lg:p-10 rounded-3xl shadow-sm border border-slate-200 mb-16 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{t.scenarios.title}</h2>
+        <p className="text-slate-500">{t.scenarios.description(MAX_COMPARED_SCENARIOS)}</p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-8">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') saveCurrent(); }}
+          className="flex-1 px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all font-medium"
+          placeholder={t.scenarios.namePlaceholder}
+        />
+        <button
+          type="button"
+          onClick={saveCurrent}
+          disabled={!name.trim()}
+          className="px-6 py-3 text-[11px] font-bold rounded-xl border bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200 uppercase tracking-widest transition-all hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t.scenarios.save}
+        </button>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{t.scenarios.empty}</p>
+      ) : (
+        <ul className="space-y-3 mb-10">
+          {scenarios.map((scenario) => (
+            <li key={scenario.id} className="flex flex-wrap items-center gap-3 p-4 rounded-2xl border border-slate-100 bg-slate-50/50">
+              <label className="flex items-center gap-3 flex-1 min-w-[12rem] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={comparedIds.includes(scenario.id)}
+                  onChange={() => toggleCompared(scenario.id)}
+                  disabled={!comparedIds.includes(scenario.id) && comparedIds.length >= MAX_COMPARED_SCENARIOS}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                <span>
+                  <span className="block font-bold text-slate-800">{scenario.name}</span>
+                  <span className="block text-xs text-slate-400">
+                    {t.scenarios.details(new Date(scenario.savedAt).toLocaleDateString(t.locale), scenario.state.contracts.length, scenario.state.year)}
+                  </span>
+                </span>
+              </label>
+              <button
+                type="button"
+                onClick={() => onLoad(scenario.state)}
+                className="px-3 py-2 text-[11px] font-bold rounded-lg border bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:bg-blue-50 uppercase tracking-widest transition-all"
+              >
+                {t.scenarios.load}
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteScenario(scenario.id)}
+                className="px-3 py-2 text-[11px] font-bold rounded-lg border border-red-200 text-red-600 hover:bg-red-50 uppercase tracking-widest transition-all"
+              >
+                {t.scenarios.remove}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {compared.length >= 2 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-bold uppercase tracking-widest text-slate-400 border-b border-slate-100">
+                <th className="py-3 pr-4">{t.scenarios.concept}</th>
+                {compared.map((scenario, i) => (
+                  <th key={scenario.id} className="py-3 pr-4 text-right">
+                    {scenario.name}{i === 0 ? t.scenarios.baseline : ''}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map((row) => (
+                <tr key={row.key} className="border-b border-slate-50 hover:bg-slate-50 transition-colors">
+                  <td className="py-2.5 pr-4 font-semibold text-slate-700">{row.field ? t.resultFields[row.field] : row.label}</td>
+                  {row.values.map((val, i) => (
+                    <td key={compared[i].id} className="py-2.5 pr-4 text-right text-slate-800">
+                      {formatField(row.field, val)}
+                      {i > 0 && (
+                        <span className="block text-xs font-bold text-slate-400">
+                          {formatDelta(row.field, row.deltas[i])}
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ScenarioManager;
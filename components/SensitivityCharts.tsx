@@ -0,0 +1,131 @@
+import React from 'react';
+import { LineChart, SensitivityAnalysis } from '../types';
+import { SENSITIVITY_MAX_SMMLV_OPTIONS, SENSITIVITY_MIN_SMMLV } from '../services/sensitivity';
+import { createChartProjection, getChartBounds, getYTicks, isWithinBounds } from '../utils/chart';
+import { useI18n } from '../i18n';
+
+const CHART_WIDTH = 640;
+const PLOT_HEIGHT = 200;
+const AXIS_WIDTH = 96;
+const AXIS_HEIGHT = 24;
+const MARKER_LABEL_ROWS = 4;
+
+const rgb = ([r, g, b]: [number, number, number]) => `rgb(${r}, ${g}, ${b})`;
+const MARKER_COLOR: [number, number, number] = [100, 116, 139];
+
+const ChartSvg: React.FC<{ chart: LineChart }> = ({ chart }) => {
+  const bounds = getChartBounds(chart);
+  const plotWidth = CHART_WIDTH - AXIS_WIDTH;
+  const projection = createChartProjection(bounds, plotWidth, PLOT_HEIGHT);
+  const x = (val: number) => AXIS_WIDTH + projection.x(val);
+  const y = projection.y;
+
+  return (
+    <figure>
+      <figcaption className="text-sm font-bold text-slate-700 mb-3">{chart.title}</figcaption>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${PLOT_HEIGHT + AXIS_HEIGHT}`} className="w-full h-auto" role="img" aria-label={chart.title}>
+        {getYTicks(bounds).map((tick) => (
+          <g key={tick}>
+            <line x1={AXIS_WIDTH} x2={CHART_WIDTH} y1={y(tick)} y2={y(tick)} className="stroke-slate-200" />
+            <text x={AXIS_WIDTH - 6} y={y(tick) + 3} textAnchor="end" className="fill-slate-400 text-[10px] font-bold">
+              {chart.formatY(tick)}
+            </text>
+          </g>
+        ))}
+        {chart.xTicks.filter((tick) => isWithinBounds({ axis: 'x', value: tick }, bounds)).map((tick) => (
+          <text key={tick} x={x(tick)} y={PLOT_HEIGHT + 16} textAnchor="middle" className="fill-slate-400 text-[10px] font-bold">
+            {chart.formatX(tick)}
+          </text>
+        ))}
+        {chart.markers.filter((marker) => isWithinBounds(marker, bounds)).map((marker, i) => {
+          const color = rgb(marker.color ?? MARKER_COLOR);
+          return marker.axis === 'x' ? (
+            <g key={`${marker.label}-${i}`}>
+              <line x1={x(marker.value)} x2={x(marker.value)} y1={0} y2={PLOT_HEIGHT} stroke={color} strokeDasharray="4 3" />
+              <text x={x(marker.value) + 3} y={10 + (i % MARKER_LABEL_ROWS) * 11} fill={color} className="text-[9px] font-bold">
+                {marker.label}
+              </text>
+            </g>
+          ) : (
+            <g key={`${marker.label}-${i}`}>
+              <line x1={AXIS_WIDTH} x2={CHART_WIDTH} y1={y(marker.value)} y2={y(marker.value)} stroke={color} strokeDasharray="4 3" />
+              <text x={CHART_WIDTH - 2} y={y(marker.value) - 4} textAnchor="end" fill={color} className="text-[9px] font-bold">
+                {marker.label}
+              </text>
+            </g>
+          );
+        })}
+        {chart.series.map((series) => (
+          <polyline
+            key={series.label}
+            points={series.points.map(([val, result]) => `${x(val)},${y(result)}`).join(' ')}
+            fill="none"
+            stroke={rgb(series.color)}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-3 text-xs font-bold text-slate-500">
+        {chart.series.map((series) => (
+          <span key={series.label} className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: rgb(series.color) }}></span>
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </figure>
+  );
+};
+
+interface SensitivityChartsProps {
+  analysis: SensitivityAnalysis;
+  charts: LineChart[];
+  maxSmmlv: number;
+  onMaxSmmlvChange: (maxSmmlv: number) => void;
+}
+
+const SensitivityCharts: React.FC<SensitivityChartsProps> = ({ analysis, charts, maxSmmlv, onMaxSmmlvChange }) => {
+  const { t, formatCurrency } = useI18n();
+
+  return (
+    <section className="bg-white p-8 lg:p-10 rounded-3xl shadow-sm border border-slate-200 mb-16 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-6 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 mb-2">{t.sensitivity.title}</h2>
+          <p className="text-slate-500">{t.sensitivity.description}</p>
+        </div>
+        <div className="shrink-0">
+          <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.sensitivity.range}</label>
+          <select
+            value={maxSmmlv}
+            onChange={(e) => onMaxSmmlvChange(Number(e.target.value))}
+            className="px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl shadow-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all cursor-pointer font-medium"
+          >
+            {SENSITIVITY_MAX_SMMLV_OPTIONS.map((option) => (
+              <option key={option} value={option}>{t.sensitivity.rangeOption(SENSITIVITY_MIN_SMMLV, option)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid xl:grid-cols-2 gap-10 mb-8">
+        {charts.map((chart) => <ChartSvg key={chart.title} chart={chart} />)}
+      </div>
+
+      <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400 mb-3">{t.sensitivity.breakevenTitle}</h3>
+      <ul className="flex flex-wrap gap-3 mb-6">
+        {analysis.curves.map((curve) => (
+          <li key={curve.riskLevel} className="px-3 py-2 rounded-xl border border-slate-100 bg-slate-50/50 text-sm font-semibold text-slate-700">
+            {t.sensitivity.breakevenValue(
+              curve.riskLevel,
+              curve.breakeven !== null ? formatCurrency(curve.breakeven) : t.sensitivity.unreachable
+            )}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-slate-500">{t.sensitivity.kinksNote}</p>
+    </section>
+  );
+};
+
+export default SensitivityCharts;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { CalculationResults, TaxRegime, TaxRegimeEstimate } from '../types';
+import { compareTaxRegimes } from '../services/taxRegime';
+import { getFiscalParameters } from '../services/calculator';
+import { formatRate } from '../utils/format';
+import { useI18n } from '../i18n';
+
+interface TaxRegimeComparisonProps {
+  results: CalculationResults;
+}
+
+const TaxRegimeComparison: React.FC<TaxRegimeComparisonProps> = ({ results }) => {
+  const { t, formatCurrency, formatInputDisplay } = useI18n();
+
+  const parameters = getFiscalParameters(results.year);
+  const comparison = useMemo(() => compareTaxRegimes(results, parameters), [results, parameters]);
+  const difference = comparison.simple ? comparison.simple.netIncome - comparison.ordinary.netIncome : 0;
+
+  const renderRegime = (regime: TaxRegime, estimate: TaxRegimeEstimate, rateLabel: string) => {
+    const isRecommended = comparison.recommended === regime && comparison.simple !== null;
+    return (
+      <div className={`p-5 rounded-2xl border ${isRecommended ? 'bg-emerald-50 border-emerald-200' : 'bg-slate-50 border-slate-200'}`}>
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t.taxRegime.regimes[regime]}</p>
+          {isRecommended && (
+            <span className="text-emerald-700 bg-emerald-100 text-[10px] font-bold px-2 py-1 rounded-full uppercase tracking-tighter">{t.taxRegime.recommended}</span>
+          )}
+        </div>
+        <ul className="space-y-2 text-sm">
+          <li className="flex justify-between items-center">
+            <span className="text-slate-500">{t.taxRegime.taxableBase}</span>
+            <span className="font-semibold text-slate-800">{formatCurrency(estimate.taxableBase)}</span>
+          </li>
+          <li className="flex justify-between items-center">
+            <span className="text-slate-500">{rateLabel}</span>
+            <span className="font-semibold text-red-600">-{formatCurrency(estimate.tax)}</span>
+          </li>
+          <li className="pt-2 border-t border-slate-200 flex justify-between items-center font-bold text-slate-900">
+            <span>{t.taxRegime.annualNetIncome}</span>
+            <span className={isRecommended ? 'text-emerald-600' : 'text-slate-800'}>{formatCurrency(estimate.netIncome)}</span>
+          </li>
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <section className="bg-white p-6 lg:p-8 rounded-2xl shadow-sm border border-slate-200 transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
+      <h3 className="text-lg font-bold text-slate-800 tracking-tight mb-2">{t.taxRegime.title}</h3>
+      <p className="text-sm text-slate-500 mb-5">{t.taxRegime.description}</p>
+
+      <ul className="space-y-2 text-sm mb-5">
+        <li className="flex justify-between items-center">
+          <span className="text-slate-500">{t.taxRegime.annualIncome}</span>
+          <span className="font-semibold text-slate-800">{formatCurrency(comparison.annualIncome)}</span>
+        </li>
+        <li className="flex justify-between items-center">
+          <span className="text-slate-500">{t.taxRegime.annualSocialSecurity}</span>
+          <span className="font-semibold text-red-600">-{formatCurrency(comparison.annualSocialSecurity)}</span>
+        </li>
+        {comparison.annualCosts > 0 && (
+          <li className="flex justify-between items-center">
+            <span className="text-slate-500">{t.taxRegime.annualCosts}</span>
+            <span className="font-semibold text-red-600">-{formatCurrency(comparison.annualCosts)}</span>
+          </li>
+        )}
+      </ul>
+
+      <div className="flex flex-col gap-3">
+        {renderRegime(
+          TaxRegime.ORDINARY,
+          comparison.ordinary,
+          t.taxRegime.ordinaryTax(formatRate(comparison.ordinary.effectiveRate, 1))
+        )}
+        {comparison.simple && comparison.simpleRate !== null ? (
+          renderRegime(TaxRegime.SIMPLE, comparison.simple, t.taxRegime.simpleTax(formatRate(comparison.simpleRate, 1)))
+        ) : (
+          <p className="p-5 bg-slate-50 rounded-2xl border border-slate-200 text-sm text-slate-600">
+            {t.taxRegime.simpleUnavailable(formatInputDisplay(comparison.annualIncome / parameters.uvt))}
+          </p>
+        )}
+      </div>
+
+      {comparison.simple && difference !== 0 && (
+        <p className="mt-4 text-sm font-semibold text-slate-700 text-center">
+          {difference > 0
+            ? t.taxRegime.simpleLeavesMore(formatCurrency(difference))
+            : t.taxRegime.ordinaryLeavesMore(formatCurrency(-difference))}
+        </p>
+      )}
+
+      <p className="mt-6 text-[12px] text-slate-500 leading-relaxed italic">
+        {t.taxRegime.note(results.year, formatInputDisplay(parameters.uvt))}
+      </p>
+    </section>
+  );
+};
+
+export default TaxRegimeComparison;
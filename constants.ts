@@ -1,11 +1,32 @@
-
-import { RiskLevel } from './types';
+import {
+  RiskLevel,
+  FiscalParameters,
+  SimpleRegimeBand,
+  SolidarityFundBand,
+  WithholdingBracket,
+  WithholdingMethod,
+  PresumptiveCostActivity,
+  ArlActivity
+} from './types';
 
 export const IBC_PERCENTAGE = 0.40;
-export const HEALTH_RATE = 0.125;
-export const PENSION_RATE = 0.16;
+export const IBC_MIN_SMMLV = 1;
+export const IBC_MAX_SMMLV = 25;
+
+// PILA counts every month as 30 days, February and 31-day months included.
+export const FULL_MONTH_DAYS = 30;
+
+export const MIN_CONTRACTUAL_RISK_PERCENT = 0;
+export const MAX_CONTRACTUAL_RISK_PERCENT = 20;
+
+export const MAX_FX_RESERVE_PERCENT = 20;
+
+export const MAX_PROVISION_PERCENT = 100;
 
-export const ARL_RATES: Record<RiskLevel, number> = {
+// Upper end of the contract value search; no realistic contract goes beyond this.
+export const MAX_CONTRACT_SMMLV = 1000;
+
+const ARL_RATES: Record<RiskLevel, number> = {
   [RiskLevel.I]: 0.00522,
   [RiskLevel.II]: 0.01044,
   [RiskLevel.III]: 0.02436,
@@ -13,5 +34,141 @@ export const ARL_RATES: Record<RiskLevel, number> = {
   [RiskLevel.V]: 0.06960,
 };
 
-export const VACATION_PROVISION_RATE = 0.0417;
-export const SEVERANCE_PROVISION_RATE = 0.0933; // Combined Cesantías + Intereses
+// Decreto 723 de 2013: the contracting entity pays the ARL for risk classes IV and V.
+export const EMPLOYER_PAID_ARL_LEVELS: RiskLevel[] = [RiskLevel.IV, RiskLevel.V];
+
+// Fondo de Solidaridad Pensional (Ley 797 de 2003, art. 8): 1% from 4 SMMLV,
+// plus 0.2 points per SMMLV band from 16 SMMLV, up to 2% above 20 SMMLV.
+const SOLIDARITY_FUND_BANDS: SolidarityFundBand[] = [
+  { minSmmlv: 4, rate: 0.010 },
+  { minSmmlv: 16, rate: 0.012 },
+  { minSmmlv: 17, rate: 0.014 },
+  { minSmmlv: 18, rate: 0.016 },
+  { minSmmlv: 19, rate: 0.018 },
+  { minSmmlv: 20, rate: 0.020 },
+];
+
+// Parameter sets by fiscal year. Never edit a published set in place:
+// bump its version so older reports stay reproducible.
+export const FISCAL_PARAMETERS: Record<number, FiscalParameters> = {
+  2025: {
+    year: 2025,
+    version: '2025.1.0',
+    smmlv: 1423500,
+    uvt: 49799,
+    healthRate: 0.125,
+    pensionRate: 0.16,
+    arlRates: ARL_RATES,
+    solidarityFundBands: SOLIDARITY_FUND_BANDS,
+    vacationProvisionRate: 0.0417,
+    severanceProvisionRate: 0.0933, // Combined Cesantías + Intereses
+    transportAllowance: 200000,
+  },
+  2026: {
+    year: 2026,
+    version: '2026.1.0',
+    smmlv: 1750905,
+    uvt: 52374,
+    healthRate: 0.125,
+    pensionRate: 0.16,
+    arlRates: ARL_RATES,
+    solidarityFundBands: SOLIDARITY_FUND_BANDS,
+    vacationProvisionRate: 0.0417,
+    severanceProvisionRate: 0.0933, // Combined Cesantías + Intereses
+    transportAllowance: 249095,
+  },
+};
+
+// Extract of the UGPP presumptive-cost table (Res. 209 de 2020, anexo) by CIIU
+// activity. Rates are the share of gross income presumed to be costs.
+export const PRESUMPTIVE_COST_ACTIVITIES: PresumptiveCostActivity[] = [
+  { ciiu: '4111', description: 'Construcción de edificios residenciales', rate: 0.61 },
+  { ciiu: '4321', description: 'Instalaciones eléctricas', rate: 0.55 },
+  { ciiu: '4921', description: 'Transporte de pasajeros', rate: 0.62 },
+  { ciiu: '4923', description: 'Transporte de carga por carretera', rate: 0.69 },
+  { ciiu: '5619', description: 'Otros tipos de expendio de comidas preparadas', rate: 0.75 },
+  { ciiu: '6201', description: 'Desarrollo de sistemas informáticos', rate: 0.28 },
+  { ciiu: '7020', description: 'Actividades de consultoría de gestión', rate: 0.28 },
+  { ciiu: '7110', description: 'Actividades de arquitectura e ingeniería', rate: 0.33 },
+  { ciiu: '7410', description: 'Actividades especializadas de diseño', rate: 0.27 },
+  { ciiu: '8621', description: 'Actividades de la práctica médica', rate: 0.32 },
+];
+
+// Extract of the ARL classification table (Decreto 768 de 2022) by CIIU class. The decree
+// refines each class with activity-level codes, so the ARL has the final word on edge cases.
+export const ARL_ACTIVITIES: ArlActivity[] = [
+  { ciiu: '0111', description: 'Cultivo de cereales, legumbres y semillas oleaginosas', riskLevel: RiskLevel.III },
+  { ciiu: '0510', description: 'Extracción de hulla (carbón de piedra)', riskLevel: RiskLevel.V },
+  { ciiu: '0610', description: 'Extracción de petróleo crudo', riskLevel: RiskLevel.V },
+  { ciiu: '1011', description: 'Procesamiento y conservación de carne', riskLevel: RiskLevel.III },
+  { ciiu: '1089', description: 'Elaboración de otros productos alimenticios', riskLevel: RiskLevel.III },
+  { ciiu: '1392', description: 'Confección de artículos con materiales textiles', riskLevel: RiskLevel.II },
+  { ciiu: '1410', description: 'Confección de prendas de vestir', riskLevel: RiskLevel.II },
+  { ciiu: '1921', description: 'Fabricación de productos de la refinación del petróleo', riskLevel: RiskLevel.IV },
+  { ciiu: '2029', description: 'Fabricación de otros productos químicos (incluye explosivos)', riskLevel: RiskLevel.V },
+  { ciiu: '2910', description: 'Fabricación de vehículos automotores', riskLevel: RiskLevel.III },
+  { ciiu: '4111', description: 'Construcción de edificios residenciales', riskLevel: RiskLevel.V },
+  { ciiu: '4210', description: 'Construcción de carreteras y vías de ferrocarril', riskLevel: RiskLevel.V },
+  { ciiu: '4321', description: 'Instalaciones eléctricas', riskLevel: RiskLevel.V },
+  { ciiu: '4520', description: 'Mantenimiento y reparación de vehículos automotores', riskLevel: RiskLevel.III },
+  { ciiu: '4711', description: 'Comercio al por menor en establecimientos no especializados', riskLevel: RiskLevel.I },
+  { ciiu: '4921', description: 'Transporte de pasajeros', riskLevel: RiskLevel.IV },
+  { ciiu: '4923', description: 'Transporte de carga por carretera', riskLevel: RiskLevel.IV },
+  { ciiu: '5111', description: 'Transporte aéreo nacional de pasajeros', riskLevel: RiskLevel.IV },
+  { ciiu: '5611', description: 'Expendio a la mesa de comidas preparadas', riskLevel: RiskLevel.II },
+  { ciiu: '6201', description: 'Desarrollo de sistemas informáticos', riskLevel: RiskLevel.I },
+  { ciiu: '6202', description: 'Consultoría informática y administración de instalaciones', riskLevel: RiskLevel.I },
+  { ciiu: '6910', description: 'Actividades jurídicas', riskLevel: RiskLevel.I },
+  { ciiu: '6920', description: 'Actividades de contabilidad, auditoría y asesoría tributaria', riskLevel: RiskLevel.I },
+  { ciiu: '7020', description: 'Actividades de consultoría de gestión', riskLevel: RiskLevel.I },
+  { ciiu: '7310', description: 'Publicidad', riskLevel: RiskLevel.I },
+  { ciiu: '7410', description: 'Actividades especializadas de diseño', riskLevel: RiskLevel.I },
+  { ciiu: '8010', description: 'Actividades de seguridad privada', riskLevel: RiskLevel.IV },
+  { ciiu: '8411', description: 'Actividades de la administración pública en general', riskLevel: RiskLevel.I },
+  { ciiu: '8541', description: 'Educación técnica profesional', riskLevel: RiskLevel.I },
+  { ciiu: '8610', description: 'Actividades de hospitales y clínicas, con internación', riskLevel: RiskLevel.III },
+  { ciiu: '8621', description: 'Actividades de la práctica médica, sin internación', riskLevel: RiskLevel.III },
+];
+
+// Art. 383 E.T. monthly table, in UVT: tax = (base - fromUvt) * rate + baseUvt.
+export const ART_383_BRACKETS: WithholdingBracket[] = [
+  { fromUvt: 0, rate: 0, baseUvt: 0 },
+  { fromUvt: 95, rate: 0.19, baseUvt: 0 },
+  { fromUvt: 150, rate: 0.28, baseUvt: 10 },
+  { fromUvt: 360, rate: 0.33, baseUvt: 69 },
+  { fromUvt: 640, rate: 0.35, baseUvt: 162 },
+  { fromUvt: 945, rate: 0.37, baseUvt: 268 },
+  { fromUvt: 2300, rate: 0.39, baseUvt: 770 },
+];
+
+// Art. 241 E.T. annual income tax table for residents, in UVT, same shape as Art. 383.
+export const ART_241_BRACKETS: WithholdingBracket[] = [
+  { fromUvt: 0, rate: 0, baseUvt: 0 },
+  { fromUvt: 1090, rate: 0.19, baseUvt: 0 },
+  { fromUvt: 1700, rate: 0.28, baseUvt: 116 },
+  { fromUvt: 4100, rate: 0.33, baseUvt: 788 },
+  { fromUvt: 8670, rate: 0.35, baseUvt: 2296 },
+  { fromUvt: 18970, rate: 0.37, baseUvt: 5901 },
+  { fromUvt: 31000, rate: 0.39, baseUvt: 10352 },
+];
+
+// Art. 908 num. 6 E.T. (Ley 2277/2022): Régimen Simple rates for professional, consulting
+// and scientific services. The rate applies to the whole gross income, not by brackets;
+// above the last band these contractors cannot join the regime (Art. 905).
+export const SIMPLE_REGIME_PROFESSIONAL_BANDS: SimpleRegimeBand[] = [
+  { upToUvt: 6000, rate: 0.059 },
+  { upToUvt: 12000, rate: 0.073 },
+];
+
+// Art. 206 num. 10 E.T.: 25% exempt income, capped at 790 UVT a year.
+export const EXEMPT_INCOME_RATE = 0.25;
+export const EXEMPT_INCOME_ANNUAL_CAP_UVT = 790;
+
+// Flat rates for natural persons who do not use the Art. 383 table.
+export const FLAT_WITHHOLDING: Record<WithholdingMethod.FEES | WithholdingMethod.SERVICES, { rate: number; minBaseUvt: number }> = {
+  [WithholdingMethod.FEES]: { rate: 0.10, minBaseUvt: 0 },
+  [WithholdingMethod.SERVICES]: { rate: 0.04, minBaseUvt: 4 },
+};
+
+export const AVAILABLE_YEARS = Object.keys(FISCAL_PARAMETERS).map(Number).sort((a, b) => a - b);
+export const DEFAULT_YEAR = 2026;
@@ -0,0 +1,605 @@
+import {
+  ContributionPayer,
+  CostMode,
+  Currency,
+  EquivalenceDirection,
+  ProvisionMode,
+  ReportDocumentType,
+  ReportSection,
+  RiskLevel,
+  TaxRegime,
+  WithholdingMethod
+} from '../types';
+import {
+  IBC_MIN_SMMLV,
+  IBC_MAX_SMMLV,
+  FULL_MONTH_DAYS,
+  MIN_CONTRACTUAL_RISK_PERCENT,
+  MAX_CONTRACTUAL_RISK_PERCENT,
+  MAX_FX_RESERVE_PERCENT
+} from '../constants';
+import { Messages } from './es';
+
+// Colombian legal terms (IBC, ARL, SMMLV, UVT, cesantías) are kept and briefly glossed,
+// since they are what contractors will see on PILA forms and contracts.
+export const en: Messages = {
+  locale: 'en-US',
+  languageName: 'English',
+
+  header: {
+    tagline: 'Find out how much money you really keep after mandatory contributions and financial provisions as an independent contractor in Colombia.',
+    language: 'Language'
+  },
+
+  urlWarnings: {
+    title: 'Some values in the link were not valid:',
+    dismiss: 'Dismiss notice',
+    describe: (warning) => {
+      switch (warning.kind) {
+        case 'contractValue': return `The value of contract ${warning.contract} is not a valid amount; the default value was used.`;
+        case 'riskLevel': return `The ARL risk class of contract ${warning.contract} is not valid; class ${warning.fallback} was used.`;
+        case 'declaredCosts': return `The declared costs of contract ${warning.contract} are not valid; they were ignored.`;
+        case 'presumptiveActivity': return `CIIU activity ${warning.ciiu} of contract ${warning.contract} has no presumptive costs; it was ignored.`;
+        case 'costs': return `The costs of contract ${warning.contract} are not valid; they were ignored.`;
+        case 'arlActivity': return `CIIU activity ${warning.ciiu} of contract ${warning.contract} does not match its ARL risk class; it was ignored.`;
+        case 'contractualRiskNotNumber': return 'The contractual risk is not a number; the default value was used.';
+        case 'contractualRiskClamped': return `The contractual risk must be between ${MIN_CONTRACTUAL_RISK_PERCENT}% and ${MAX_CONTRACTUAL_RISK_PERCENT}%; it was set to ${warning.value}%.`;
+        case 'year': return `There are no parameters for ${warning.year}; ${warning.fallback} was used.`;
+        case 'withholdingMethod': return 'The withholding method is not valid; withholding will not be estimated.';
+        case 'desiredNetIncome': return 'The desired net income is not a valid amount; the default value was used.';
+        case 'daysWorked': return `Days contributed must be a whole number between 1 and ${FULL_MONTH_DAYS}; a full month was used.`;
+        case 'currency': return `Currency ${warning.code} for contract ${warning.contract} is not valid; the value was read in pesos.`;
+        case 'exchangeRate': return `The ${warning.currency} exchange rate (TRM) is not a positive number; it was ignored.`;
+        case 'fxReserve': return `The FX reserve must be between 0% and ${MAX_FX_RESERVE_PERCENT}%; it was ignored.`;
+        case 'provisionBucket': return `Provision ${warning.bucket} is not valid; it was ignored.`;
+      }
+    }
+  },
+
+  contract: {
+    title: 'Contract Details',
+    add: '+ Add contract',
+    defaultLabel: (index) => `Contract ${index}`,
+    name: 'Contract Name',
+    remove: 'Remove',
+    value: 'Monthly Contract Value (COP)',
+    valuePlaceholder: 'e.g. 5,000,000',
+    costs: 'Deductible Costs (Res. 209/2020)',
+    costsPlaceholder: 'e.g. 1,000,000',
+    costsApplied: (amount) => `${amount} is subtracted before applying the 40% IBC rule.`,
+    riskLevel: 'ARL Risk Class',
+    riskClass: (level) => `Class ${level}`,
+    year: 'Parameter Fiscal Year',
+    noteLabel: 'Note:',
+    ibcNote: 'The contribution base (IBC) is calculated automatically as 40% of your contract value.',
+    howItWorks: 'How does this rule work?'
+  },
+
+  currency: {
+    label: 'Contract Currency',
+    names: {
+      [Currency.COP]: 'Colombian pesos (COP)',
+      [Currency.USD]: 'US dollars (USD)',
+      [Currency.EUR]: 'Euros (EUR)'
+    },
+    valueIn: (currency: string) => `Monthly Contract Value (${currency})`,
+    exchangeRate: (currency: string) => `TRM ${currency}/COP (exchange rate)`,
+    exchangeRatePlaceholder: 'e.g. 4100.50',
+    exchangeRateHint: 'Type the TRM by hand, e.g. the one on the invoice date; the app never looks it up online.',
+    missingRate: (currency: string) => `Enter the ${currency} TRM to convert the contract to pesos.`,
+    converted: (amount: string) => `Worth ${amount} for the calculation.`,
+    equivalent: (amount: string, rate: string) => `≈ ${amount} (TRM ${rate})`,
+    fxReserve: 'FX Volatility Reserve (%)',
+    fxReserveHint: 'Share of what you bill in a foreign currency that you set aside in case the TRM drops.',
+    fxReserveName: 'FX reserve'
+  },
+
+  daysWorked: {
+    label: 'Days Contributed This Month',
+    useDates: 'Use dates',
+    useDays: 'Type days',
+    startDate: 'Start',
+    endDate: 'End',
+    invalidDates: 'Both dates must fall in the same month and the end cannot come before the start.',
+    fullMonthHint: `Full month: PILA counts every month as ${FULL_MONTH_DAYS} days.`,
+    partialHint: (days: number, floor: string) =>
+      `Partial month: the contract value is what you billed for ${days} days, and the minimum IBC drops to ${floor}.`
+  },
+
+  costModes: {
+    [CostMode.NONE]: 'No deductible costs',
+    [CostMode.DECLARED]: 'Declared actual costs',
+    [CostMode.PRESUMPTIVE]: 'UGPP presumptive costs (CIIU)',
+  },
+
+  withholdingMethods: {
+    [WithholdingMethod.NONE]: 'Do not estimate',
+    [WithholdingMethod.ART_383]: 'Art. 383 Tax Code table (individuals)',
+    [WithholdingMethod.FEES]: 'Professional fees (10%)',
+    [WithholdingMethod.SERVICES]: 'Services (4%)',
+  },
+
+  riskLevels: {
+    [RiskLevel.I]: { sector: 'Office work', label: 'Minimal Risk', description: 'Administrative work, education, finance.' },
+    [RiskLevel.II]: { sector: 'Manufacturing', label: 'Low Risk', description: 'Manufacturing such as carpets, textiles, garments.' },
+    [RiskLevel.III]: { sector: 'Construction/Farming', label: 'Medium Risk', description: 'Food, alcohol, needle and automotive manufacturing.' },
+    [RiskLevel.IV]: { sector: 'Transport', label: 'High Risk', description: 'Air and ground transport, oil manufacturing.' },
+    [RiskLevel.V]: { sector: 'Mining/High Risk', label: 'Maximum Risk', description: 'Mining, construction, electrical work, explosives.' },
+  },
+
+  efficiency: {
+    title: 'Contract Efficiency',
+    badge: 'Expenses and Deductions',
+    explanation: (percent) => `This means that of every $1,000 you bill, ${percent}% is really yours for personal spending.`
+  },
+
+  operation: {
+    title: 'Operating Summary',
+    totalCosts: 'Total Operating Cost',
+    includesCosts: 'Includes Deductible Costs',
+    grossValue: 'Gross Amount Billed'
+  },
+
+  socialSecurity: {
+    title: 'Social Security',
+    badge: 'Mandatory',
+    ibc: 'Contribution Base (IBC)',
+    health: (rate) => `Health (${rate} of IBC)`,
+    pension: (rate) => `Pension (${rate} of IBC)`,
+    arl: (levels) => `ARL occupational risk (Class ${levels})`,
+    arlPaidByEntity: 'paid by the contracting entity',
+    arlPartlyPaidByEntity: (amount) => `${amount} paid by the contracting entity`,
+    solidarityFund: (rate) => `Pension Solidarity Fund (${rate ? `${rate} of IBC` : 'IBC < 4 SMMLV'})`,
+    total: 'Total Contributions',
+    disclaimer: 'These contributions are required by law for contractors, with the IBC set at 40% of the gross value. They cannot be adjusted by the user.',
+    floorNotice: `40% of the contract is below ${IBC_MIN_SMMLV} SMMLV (monthly minimum wage): contributions are paid on the legal minimum.`,
+    capNotice: `40% of the contract exceeds ${IBC_MAX_SMMLV} SMMLV (monthly minimum wage): contributions are paid on the legal cap.`
+  },
+
+  provisions: {
+    title: 'Financial Provisions',
+    badge: 'Suggested',
+    defaultBuckets: { vacation: 'Vacation', severance: 'Severance + Interest' },
+    bucketRate: (name, rate) => `${name} (${rate})`,
+    bucketFixed: (name) => `${name} (fixed amount)`,
+    noBuckets: 'No active savings buckets.',
+    customize: 'Customize buckets',
+    done: 'Done',
+    bucketName: 'Bucket name',
+    newBucketName: (index) => `Bucket ${index}`,
+    addBucket: '+ Add bucket',
+    removeBucket: 'Remove',
+    enabled: 'Active',
+    modes: {
+      [ProvisionMode.PERCENT]: '% of value',
+      [ProvisionMode.FIXED]: 'Fixed amount (COP)',
+    },
+    profiles: 'Savings Profiles',
+    profileNamePlaceholder: 'Profile name, e.g. With prima',
+    saveProfile: 'Save profile',
+    applyProfile: 'Apply',
+    deleteProfile: 'Delete',
+    resetDefault: 'Reset to default',
+    contractualRisk: 'Contractual Risk (%)',
+    presetLow: 'Low',
+    presetMedium: 'Medium',
+    presetHigh: 'High',
+    riskValue: 'Risk Reserve',
+    total: 'Total Reserves'
+  },
+
+  netIncome: {
+    title: 'Estimated Real Net Income',
+    badge: 'Actually Available Monthly',
+    downloadReport: 'Download Report (PDF)',
+    copyLink: 'Copy calculation link',
+    linkCopied: 'Link copied',
+    copyPrompt: 'Copy this link:',
+    description: 'This is the money available each month after paying social security and setting aside savings for benefits.'
+  },
+
+  employment: {
+    title: 'Labor Contract Equivalent',
+    description: 'Compare this service contract with a job that leaves the same net value each month.',
+    directions: {
+      [EquivalenceDirection.CONTRACT_TO_SALARY]: 'Contract → salary',
+      [EquivalenceDirection.SALARY_TO_CONTRACT]: 'Salary → contract'
+    },
+    serviceNetValue: 'Net contract value (before provisions)',
+    equivalentSalary: 'Equivalent Monthly Salary',
+    minimumWage: 'Even a minimum wage job leaves more value than this contract.',
+    salaryOffer: 'Monthly Salary Offered (COP)',
+    salaryOfferPlaceholder: 'e.g. 4,000,000',
+    belowMinimumWage: (smmlv: string) => `A salary cannot be below the minimum wage (${smmlv}).`,
+    equivalentContract: 'Equivalent Contract Value',
+    versusCurrent: (difference: string) => `${difference} compared with the amount billed now`,
+    unreachable: 'There is no equivalent value within the search range.',
+    salary: 'Salary',
+    transportAllowance: 'Transport allowance (auxilio de transporte)',
+    health: 'Employee health (4%)',
+    pension: 'Employee pension (4%)',
+    solidarityFund: 'Pension Solidarity Fund',
+    prima: 'Service bonus (prima, 1/12)',
+    severance: 'Severance (cesantías, 1/12)',
+    severanceInterest: 'Interest on cesantías (12%)',
+    vacation: 'Vacation (15 business days a year)',
+    netValue: 'Monthly net value',
+    note: 'The net contract value does not subtract provisions or contractual risk, because an employer covers those payments in a job. Withholding tax and integral salary are not considered.'
+  },
+
+  taxRegime: {
+    title: 'Régimen Simple vs Ordinary Regime',
+    description: 'Estimates a year of tax with this month repeated twelve times (scaled to 30 days if it is a partial month) and compares what you keep under each regime.',
+    regimes: {
+      [TaxRegime.ORDINARY]: 'Ordinary regime (Art. 241)',
+      [TaxRegime.SIMPLE]: 'Régimen Simple (RST)'
+    },
+    annualIncome: 'Annual gross income',
+    annualSocialSecurity: 'Social security for the year',
+    annualCosts: 'Deductible costs for the year',
+    taxableBase: 'Taxable base',
+    ordinaryTax: (rate: string) => `Income tax (effective rate ${rate})`,
+    simpleTax: (rate: string) => `Unified tax (${rate} of gross income)`,
+    annualNetIncome: 'Annual net income',
+    recommended: 'Leaves more',
+    simpleUnavailable: (incomeUvt: string) => `With an income of ${incomeUvt} UVT you cannot join the Régimen Simple: professional services only qualify below 12,000 UVT a year.`,
+    simpleLeavesMore: (difference: string) => `The Régimen Simple would leave you ${difference} more a year.`,
+    ordinaryLeavesMore: (difference: string) => `The ordinary regime would leave you ${difference} more a year.`,
+    note: (year: number, uvt: string) => `Estimate for professional services with the ${year} UVT (${uvt}). In the ordinary regime contributions are non-taxable income and the 25% exempt income (max. 790 UVT) applies unless you declare costs. The Régimen Simple taxes gross income and includes ICA; other income, deductions and tax credits are not considered.`
+  },
+
+  withholding: {
+    title: 'Withholding Tax',
+    badge: 'Optional',
+    method: 'Withholding Method',
+    base: 'Withholding Base',
+    estimated: 'Estimated Withholding',
+    expectedDeposit: 'Expected Payment',
+    note: (year, uvt) => `Withholding is an advance on income tax: it reduces the payment you receive, but it is credited on your annual return. Social security contributions are subtracted as non-taxable income (UVT ${year}: ${uvt}).`
+  },
+
+  simulator: {
+    title: 'Negotiation Simulator',
+    desiredNetIncome: 'Desired Monthly Net Income (COP)',
+    desiredNetIncomePlaceholder: 'e.g. 4,000,000',
+    suggestedValue: 'Suggested Contract Value',
+    difference: 'Difference vs Current',
+    floorNotice: `At this value contributions are paid on the minimum IBC of ${IBC_MIN_SMMLV} SMMLV.`,
+    unreachable: 'Unreachable goal: no contract value produces this net income with the current profile.',
+    explanation: (percent) => `This gross value ensures that, after covering social security and your benefit savings (${percent}% of costs at that value), you reach your target net income.`
+  },
+
+  sensitivity: {
+    title: 'Sensitivity and Breakeven',
+    description: 'How your net income and cost share change with the contract value, with one curve per ARL risk class. It uses the profile of the active contract (costs, contractual risk and withholding).',
+    range: 'Range',
+    rangeOption: (min, max) => `${min} to ${max} SMMLV`,
+    netIncomeTitle: 'Monthly net income vs contract value',
+    costShareTitle: 'Cost share vs contract value',
+    series: (level) => `Class ${level}`,
+    floorKink: 'IBC leaves the minimum',
+    capKink: 'IBC reaches the cap',
+    target: 'Net target',
+    breakeven: (level) => `Breakeven ${level}`,
+    breakevenTitle: 'Minimum value to reach the net target',
+    breakevenValue: (level, value) => `Class ${level}: ${value}`,
+    unreachable: 'unreachable',
+    kinksNote: 'The dotted grey lines mark where the IBC leaves the minimum and where it reaches the cap; they are not drawn outside the chosen range.'
+  },
+
+  portfolio: {
+    title: 'Simultaneous Contracts',
+    description: `Contracts are added together to calculate a single IBC (with a minimum of ${IBC_MIN_SMMLV} and a cap of ${IBC_MAX_SMMLV} SMMLV), which is then split among them. ARL is charged per contract according to its risk class.`,
+    contract: 'Contract',
+    risk: 'Risk',
+    value: 'Value',
+    allocatedIbc: 'Allocated IBC',
+    contributions: 'Contributions',
+    net: 'Net',
+    consolidated: 'Consolidated'
+  },
+
+  riskGuide: {
+    title: 'ARL Risk Class Guide',
+    description: 'Colombian law classifies every economic activity by its level of hazard. Select the class that matches the main duties of your contract.',
+    select: 'Select',
+    selected: 'Selected',
+    keyFactLabel: 'Key fact:',
+    keyFact: 'For service contracts, the contractor pays the ARL, unless the risk is class IV or V, in which case the contracting company must pay the contribution directly.',
+    searchLabel: 'Find my economic activity (CIIU code)',
+    searchPlaceholder: 'e.g. 6201 or "construcción"',
+    searchHint: 'Local catalog based on the classification table of Decreto 768/2022 (activity descriptions are in Spanish). Picking an activity sets the risk class of the active contract.',
+    noResults: 'No activity in the catalog matches your search.',
+    activity: (ciiu, description) => `CIIU activity ${ciiu}: ${description}`,
+    clearActivity: 'Remove activity'
+  },
+
+  footer: {
+    copyright: '© 2026 - NetoReal - Financial Planning Tool for Contractors in Colombia',
+    disclaimer: 'This calculator is a reference tool. Values may vary with local regulations or changes in tax law.',
+    feedback: 'Suggestions or feedback'
+  },
+
+  ibcModal: {
+    title: 'What is the IBC?',
+    basicsTitle: 'Basic Concept',
+    basicsBefore: 'The ',
+    basicsTerm: 'contribution base (Ingreso Base de Cotización, IBC)',
+    basicsAfter: (healthRate, pensionRate) => ` is the amount of your income on which the Health (${healthRate}), Pension (${pensionRate}) and ARL (depending on risk) contribution rates are calculated.`,
+    ruleTitle: 'The 40% Rule',
+    ruleBefore: 'For independent workers (service providers), the law lets contributions be calculated on ',
+    ruleTerm: '40% of the gross amount billed each month',
+    ruleAfter: ' (before VAT, if applicable).',
+    exampleLabel: 'Example:',
+    example: (gross, ibc) => `${gross} x 40% = ${ibc} (Your IBC)`,
+    minimumTitle: 'Legal Minimum',
+    minimumText: (year, smmlv) => `If 40% is less than 1 monthly minimum wage, you must contribute on the ${year} minimum (${smmlv}).`,
+    maximumTitle: 'Legal Maximum',
+    maximumText: 'Even if you earn much more, the contribution base is capped by law.',
+    legalBasis: 'Legal basis: Article 18 of Law 100 of 1993, amended by Law 797 of 2003 and Law 1122 of 2007.',
+    close: 'Got it'
+  },
+
+  reportModal: {
+    title: 'PDF Report',
+    description: 'Contractor details are optional and are only used in the report.',
+    name: 'Contractor name',
+    namePlaceholder: 'e.g. Ana María Gómez',
+    idNumber: 'ID number (cédula)',
+    idNumberPlaceholder: 'e.g. 1,020,304,050',
+    contractNumber: 'Contract number',
+    contractNumberPlaceholder: 'e.g. CPS-2026-041',
+    sections: 'Sections',
+    cancel: 'Cancel',
+    download: 'Download PDF',
+    documentTypes: {
+      [ReportDocumentType.PLANNING]: 'Planning report',
+      [ReportDocumentType.INVOICE]: 'Cuenta de cobro'
+    },
+    invoiceDescription: 'Contractor and client details are saved in this browser for your next cuenta de cobro (the invoice contractors send each month).',
+    invoiceContract: (label: string) => `Bills the value of ${label} with its contributions for the period.`,
+    clientName: 'Client (contracting entity)',
+    clientNamePlaceholder: 'e.g. Alcaldía de Medellín',
+    clientNit: 'Client NIT (tax ID)',
+    clientNitPlaceholder: 'e.g. 890.905.211-1',
+    city: 'City',
+    cityPlaceholder: 'e.g. Medellín',
+    concept: 'Description',
+    conceptPlaceholder: 'e.g. Software development fees',
+    bankAccount: 'Account for payment',
+    bankAccountPlaceholder: 'e.g. Bancolombia savings 123-456789-00',
+    invoiceNumber: 'Cuenta de cobro number',
+    period: 'Billed period',
+    pilaNumber: 'PILA form number (optional)',
+    pilaNumberPlaceholder: 'e.g. 9412345678'
+  },
+
+  invoice: {
+    title: (number: string) => `Cuenta de Cobro No. ${number}`,
+    issued: (city: string, date: string) => (city ? `${city}, ${date}` : date),
+    filePrefix: 'Cuenta_de_Cobro',
+    billTitle: 'Billing Details',
+    socialSecurityTitle: 'Social Security Contributions for the Period',
+    signatureTitle: 'Contractor Signature',
+    concept: 'Item',
+    value: 'Value',
+    ibc: 'IBC',
+    client: 'Client',
+    clientNit: 'NIT',
+    contractor: 'Owes to (contractor)',
+    idNumber: 'ID (C.C.)',
+    contractNumber: 'Contract No.',
+    period: 'Period',
+    days: 'Days contributed',
+    serviceConcept: 'Description',
+    amount: 'Amount',
+    amountInWords: 'Amount in words (Spanish)',
+    bankAccount: 'Pay to account',
+    health: (rate: string) => `Health (${rate})`,
+    pension: (rate: string) => `Pension (${rate})`,
+    solidarityFund: 'Pension Solidarity Fund',
+    arl: (riskClass: number, rate: string) => `ARL class ${riskClass} (${rate})`,
+    paidByEntity: 'paid by the contracting entity',
+    totalPaid: 'Total paid by the contractor',
+    declaration: (period: string, ibc: string) =>
+      `I declare that I paid my social security contributions for ${period} on an IBC of ${ibc}, as required by article 244 of Ley 1955 of 2019.`,
+    pilaNumber: (pilaNumber: string) => `PILA form No. ${pilaNumber}.`,
+    foreignAmount: (currency: string) => `Amount in ${currency}`,
+    exchangeRate: 'TRM applied',
+    signatureId: (idNumber: string) => `C.C. ${idNumber}`,
+    disclaimer: 'Document generated with NetoReal from the calculation. Check the contributions against the PILA form you paid before sending it.'
+  },
+
+  reportSections: {
+    [ReportSection.SUMMARY]: 'Executive Summary',
+    [ReportSection.SOCIAL_SECURITY]: 'Social Security',
+    [ReportSection.CONTRACTS]: 'Simultaneous Contracts',
+    [ReportSection.PROVISIONS]: 'Financial Provisions',
+    [ReportSection.SIMULATOR]: 'Negotiation Simulator',
+    [ReportSection.SENSITIVITY]: 'Sensitivity and Breakeven',
+    [ReportSection.LEGAL_NOTES]: 'Legal Notes',
+  },
+
+  report: {
+    title: 'Financial Planning Report - Contractors',
+    filePrefix: 'Financial_Report',
+    fileFallbackName: 'Contractor',
+    date: (date) => `Date: ${date}`,
+    parameters: (year, version) => `Parameters: ${year} (v${version})`,
+    stamp: (year, version) => `Parameters ${year} (v${version})`,
+    contractor: (name) => `Contractor: ${name}`,
+    idNumber: (idNumber) => `ID (C.C.): ${idNumber}`,
+    contractNumber: (contractNumber) => `Contract No.: ${contractNumber}`,
+    page: (page, pageCount) => `Page ${page} of ${pageCount}`,
+    concept: 'Item',
+    value: 'Amount',
+    rate: 'Rate',
+    summaryTitle: 'Executive Summary',
+    expensesPercent: 'Expenses and Deductions Percentage',
+    withholding: (method) => `Withholding Tax (${method})`,
+    socialSecurityTitle: 'Social Security (Mandatory)',
+    ibcBase: 'Base (IBC 40%)',
+    ibcBaseAfterCosts: 'Base (IBC 40% after costs)',
+    daysOfMonth: (days: number) => `${days} of ${FULL_MONTH_DAYS}`,
+    exchangeRate: (currency: string, rate: string) => `TRM ${currency}: ${rate}`,
+    foreignValue: (currency: string) => `Amount Billed in ${currency}`,
+    foreignNetIncome: (currency: string) => `Net Income in ${currency}`,
+    ibcBaseFloor: `Base (minimum IBC ${IBC_MIN_SMMLV} SMMLV)`,
+    ibcBaseCap: `Base (IBC cap ${IBC_MAX_SMMLV} SMMLV)`,
+    health: (rate) => `Health (${rate})`,
+    pension: (rate) => `Pension (${rate})`,
+    solidarityFund: (rate) => `Pension Solidarity Fund (${rate ?? 'not applicable'})`,
+    totalContributions: 'Total Contributions (paid by the contractor)',
+    contractsTitle: 'Simultaneous Contracts (Consolidated IBC)',
+    provisionsTitle: 'Financial Provisions (Suggested)',
+    fixedAmount: 'Fixed amount',
+    contractualRisk: 'Contractual Risk',
+    simulatorTitle: 'Negotiation Simulator',
+    desiredNetIncome: 'Desired Monthly Net Income',
+    unreachable: 'Unreachable goal with this profile',
+    legalNotesTitle: 'Legal Notes',
+    ibcNote: `IBC: The contribution base (IBC) is calculated as 40% of the gross contract value, with a minimum of ${IBC_MIN_SMMLV} SMMLV and a maximum of ${IBC_MAX_SMMLV} SMMLV.`,
+    arlNote: 'ARL: For service contracts, the contractor is responsible for paying the ARL, except for risk classes IV or V.',
+    provisionsNote: 'Financial provisions are suggested estimates to cover employee benefits that service contracts do not include.',
+    disclaimer: 'This calculator is a reference tool. Values may vary with local regulations or changes in tax law',
+    copyright: '© 2026 - Financial Planning Tool for Contractors in Colombia'
+  },
+
+  resultFields: {
+    year: 'Parameter Year',
+    contractValue: 'Gross Amount Billed',
+    deductibleCosts: 'Deductible Costs',
+    daysWorked: 'Days Contributed',
+    ibc: 'IBC',
+    health: 'Health',
+    pension: 'Pension',
+    arl: 'ARL',
+    solidarityFund: 'Solidarity Fund',
+    solidarityFundRate: 'Solidarity Fund Rate',
+    employerPaidContributions: 'Contributions Paid by the Contracting Entity',
+    contractualRiskProvision: 'Contractual Risk Provision',
+    withholdingBase: 'Withholding Base',
+    withholding: 'Withholding Tax',
+    expectedDeposit: 'Expected Payment',
+    totalSocialSecurity: 'Total Contributions',
+    totalProvisions: 'Total Reserves',
+    totalCosts: 'Total Operating Cost',
+    netIncome: 'Estimated Real Net Income',
+    nonDisposablePercent: 'Expenses and Deductions (%)',
+  },
+
+  scenarios: {
+    title: 'Saved Scenarios',
+    description: (max) => `Save the current calculation under a name, load it later and compare up to ${max} offers side by side. Scenarios are only stored in this browser.`,
+    namePlaceholder: 'e.g. Offer from entity A',
+    save: 'Save scenario',
+    empty: 'You have no saved scenarios yet.',
+    details: (date, contracts, year) => `${date} · ${contracts} contract(s) · ${year}`,
+    load: 'Load',
+    remove: 'Delete',
+    concept: 'Item',
+    baseline: ' (baseline)'
+  },
+
+  planner: {
+    title: 'Annual Cash-Flow Planner',
+    description: 'Enter what you bill each month (including months without a contract) to see contributions, provisions, net income and the running balance of your reserves.',
+    months: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+    pastePlaceholder: 'Paste a row or column of 12 values from your spreadsheet here',
+    applyPaste: 'Apply pasted values',
+    fillCurrent: 'Fill with current value',
+    chartLabel: 'Monthly billing split into contributions, provisions and net income',
+    legendContributions: 'Contributions and costs',
+    legendProvisions: 'Provisions',
+    legendNet: 'Net',
+    month: 'Month',
+    billed: 'Billed',
+    contributions: 'Contributions',
+    provisions: 'Provisions',
+    net: 'Net',
+    provisionBalance: (name) => `${name} Balance`,
+    riskBalance: 'Risk Balance',
+    total: 'Total'
+  },
+
+  pila: {
+    export: 'Export PILA pre-filled form',
+    hint: (period) => `Period ${period}, contributor type 59. Values are rounded as on the PILA form: IBC up to the peso and contributions up to the next hundred.`,
+    fileName: (period) => `PILA_prefill_${period}.csv`,
+    total: 'Total',
+    columns: {
+      contractLabel: 'Contract',
+      contributorType: 'Contributor type',
+      period: 'Period',
+      days: 'Days contributed',
+      ibc: 'IBC',
+      pensionRate: 'Pension rate',
+      pension: 'Pension contribution',
+      solidarityAccount: 'FSP solidarity account',
+      subsistenceAccount: 'FSP subsistence account',
+      healthRate: 'Health rate',
+      health: 'Health contribution',
+      riskClass: 'Risk class',
+      arlRate: 'ARL rate',
+      arl: 'ARL contribution',
+      arlPayer: 'ARL paid by'
+    },
+    payers: {
+      [ContributionPayer.CONTRACTOR]: 'Contractor',
+      [ContributionPayer.CONTRACTING_ENTITY]: 'Contracting entity',
+    }
+  },
+
+  paymentCalendar: {
+    title: 'PILA Payment Calendar',
+    description: 'Independent workers pay "mes vencido": income billed in one month is contributed on the following month\'s PILA form. The deadline depends on the last two digits of your ID number (cédula or NIT).',
+    idNumber: 'ID number (cédula or NIT)',
+    idNumberPlaceholder: 'e.g. 1,020,304,050',
+    businessDay: (day) => `Your deadline is business day ${day} of each month (the NIT check digit does not count).`,
+    missingId: 'Enter your ID number to calculate the deadlines.',
+    billingDates: 'Billing Dates',
+    addDate: '+ Add date',
+    fillYear: (year) => `End of each month of ${year}`,
+    remove: 'Remove',
+    empty: 'Add at least one billing date.',
+    covers: (period) => `Covers income from ${period}`,
+    billed: (dates) => `Billed: ${dates}`,
+    next: 'Next',
+    estimatedContribution: (amount) => `Estimated contribution: ${amount}`,
+    downloadIcs: 'Add to my calendar (.ics)',
+    fileName: 'PILA_Calendar.ics',
+    eventSummary: (period) => `PILA payment: income from ${period}`,
+    eventDescription: (period, dates, amount) =>
+      `Social security contributions on income from ${period} (billed: ${dates}). Estimated contribution: ${amount}.`
+  },
+
+  batch: {
+    title: 'Batch Calculation',
+    descriptionBefore: 'Upload a CSV file (you can save it from Excel) with the columns ',
+    columns: ['contract_value', 'risk_level', 'risk_percent', 'costs'],
+    and: ' and ',
+    descriptionAfter: (year) => `. Each row is calculated with the ${year} parameters and the selected withholding method, and the result downloads as a CSV ready to open in Excel (no XLSX file is generated).`,
+    selectFile: 'Choose CSV file…',
+    downloadTemplate: 'Download template',
+    downloadResults: 'Download results (CSV)',
+    resultsSuffix: '_results',
+    fallbackFileName: 'batch',
+    summary: (valid, invalid) => `${valid} row(s) calculated · ${invalid} with errors`,
+    row: 'Row',
+    rowLabel: (line) => `Row ${line}:`,
+    errors: 'Errors',
+    value: 'Value',
+    contributions: 'Contributions',
+    provisions: 'Provisions',
+    net: 'Net',
+    describeError: (error) => {
+      switch (error.kind) {
+        case 'missingColumns': return 'The file must have the "contract_value" and "risk_level" columns (or "valor" and "riesgo").';
+        case 'contractValue': return `Invalid contract value: "${error.value}".`;
+        case 'riskLevel': return `Invalid ARL risk class: "${error.value}" (use I to V).`;
+        case 'contractualRisk': return `Invalid contractual risk: "${error.value}" (must be between ${MIN_CONTRACTUAL_RISK_PERCENT} and ${MAX_CONTRACTUAL_RISK_PERCENT}).`;
+        case 'costs': return `Invalid costs: "${error.value}".`;
+      }
+    }
+  }
+};
@@ -0,0 +1,608 @@
+import {
+  BatchError,
+  ContributionPayer,
+  CostMode,
+  Currency,
+  EquivalenceDirection,
+  NumericResultField,
+  ProvisionMode,
+  ReportDocumentType,
+  ReportSection,
+  RiskLevel,
+  TaxRegime,
+  UrlStateWarning,
+  WithholdingMethod
+} from '../types';
+import {
+  IBC_MIN_SMMLV,
+  IBC_MAX_SMMLV,
+  FULL_MONTH_DAYS,
+  MIN_CONTRACTUAL_RISK_PERCENT,
+  MAX_CONTRACTUAL_RISK_PERCENT,
+  MAX_FX_RESERVE_PERCENT
+} from '../constants';
+
+// Spanish is the source catalog: its shape defines the Messages type every other language must fill.
+export const es = {
+  locale: 'es-CO',
+  languageName: 'Español',
+
+  header: {
+    tagline: 'Calcula cuánto dinero te queda realmente después de aportes legales y provisiones financieras como contratista independiente en Colombia.',
+    language: 'Idioma'
+  },
+
+  urlWarnings: {
+    title: 'Algunos datos del enlace no eran válidos:',
+    dismiss: 'Cerrar aviso',
+    describe: (warning: UrlStateWarning): string => {
+      switch (warning.kind) {
+        case 'contractValue': return `El valor del contrato ${warning.contract} no es un monto válido; se usó el valor por defecto.`;
+        case 'riskLevel': return `El nivel de riesgo ARL del contrato ${warning.contract} no es válido; se usó la clase ${warning.fallback}.`;
+        case 'declaredCosts': return `Los costos declarados del contrato ${warning.contract} no son válidos; se ignoraron.`;
+        case 'presumptiveActivity': return `La actividad CIIU ${warning.ciiu} del contrato ${warning.contract} no tiene costos presuntos; se ignoró.`;
+        case 'costs': return `Los costos del contrato ${warning.contract} no son válidos; se ignoraron.`;
+        case 'arlActivity': return `La actividad CIIU ${warning.ciiu} del contrato ${warning.contract} no corresponde a su clase de riesgo ARL; se ignoró.`;
+        case 'contractualRiskNotNumber': return 'El riesgo contractual no es un número; se usó el valor por defecto.';
+        case 'contractualRiskClamped': return `El riesgo contractual debe estar entre ${MIN_CONTRACTUAL_RISK_PERCENT}% y ${MAX_CONTRACTUAL_RISK_PERCENT}%; se ajustó a ${warning.value}%.`;
+        case 'year': return `No hay parámetros para el año ${warning.year}; se usó ${warning.fallback}.`;
+        case 'withholdingMethod': return 'El método de retención no es válido; no se estimará retención.';
+        case 'desiredNetIncome': return 'El ingreso neto deseado no es un monto válido; se usó el valor por defecto.';
+        case 'daysWorked': return `Los días cotizados deben ser un número entero entre 1 y ${FULL_MONTH_DAYS}; se usó el mes completo.`;
+        case 'currency': return `La moneda ${warning.code} del contrato ${warning.contract} no es válida; el valor se tomó en pesos.`;
+        case 'exchangeRate': return `La TRM de ${warning.currency} no es un número positivo; se ignoró.`;
+        case 'fxReserve': return `La reserva cambiaria debe estar entre 0% y ${MAX_FX_RESERVE_PERCENT}%; se ignoró.`;
+        case 'provisionBucket': return `La provisión ${warning.bucket} no es válida; se ignoró.`;
+      }
+    }
+  },
+
+  contract: {
+    title: 'Datos del Contrato',
+    add: '+ Agregar contrato',
+    defaultLabel: (index: number) => `Contrato ${index}`,
+    name: 'Nombre del Contrato',
+    remove: 'Quitar',
+    value: 'Valor Mensual del Contrato (COP)',
+    valuePlaceholder: 'Ej. 5.000.000',
+    costs: 'Costos Deducibles (Res. 209/2020)',
+    costsPlaceholder: 'Ej. 1.000.000',
+    costsApplied: (amount: string) => `Se restan ${amount} antes de aplicar el 40% del IBC.`,
+    riskLevel: 'Nivel de Riesgo ARL',
+    riskClass: (level: RiskLevel) => `Clase ${level}`,
+    year: 'Año Fiscal de los Parámetros',
+    noteLabel: 'Nota:',
+    ibcNote: 'El Ingreso Base de Cotización (IBC) se calcula automáticamente sobre el 40% del valor de tu contrato.',
+    howItWorks: '¿Cómo funciona esta regla?'
+  },
+
+  currency: {
+    label: 'Moneda del Contrato',
+    names: {
+      [Currency.COP]: 'Pesos colombianos (COP)',
+      [Currency.USD]: 'Dólares estadounidenses (USD)',
+      [Currency.EUR]: 'Euros (EUR)'
+    } as Record<Currency, string>,
+    valueIn: (currency: string) => `Valor Mensual del Contrato (${currency})`,
+    exchangeRate: (currency: string) => `TRM ${currency}/COP`,
+    exchangeRatePlaceholder: 'Ej. 4100.50',
+    exchangeRateHint: 'Escribe la TRM a mano, por ejemplo la del día de la factura; la app no la consulta en línea.',
+    missingRate: (currency: string) => `Ingresa la TRM de ${currency} para convertir el contrato a pesos.`,
+    converted: (amount: string) => `Equivale a ${amount} para el cálculo.`,
+    equivalent: (amount: string, rate: string) => `≈ ${amount} (TRM ${rate})`,
+    fxReserve: 'Reserva por Volatilidad Cambiaria (%)',
+    fxReserveHint: 'Porcentaje de lo facturado en moneda extranjera que apartas por si la TRM baja.',
+    fxReserveName: 'Reserva cambiaria'
+  },
+
+  daysWorked: {
+    label: 'Días Cotizados en el Mes',
+    useDates: 'Usar fechas',
+    useDays: 'Escribir días',
+    startDate: 'Inicio',
+    endDate: 'Fin',
+    invalidDates: 'Las fechas deben estar en el mismo mes y el fin no puede ser anterior al inicio.',
+    fullMonthHint: `Mes completo: la PILA cuenta todos los meses como de ${FULL_MONTH_DAYS} días.`,
+    partialHint: (days: number, floor: string) =>
+      `Mes parcial: el valor del contrato es lo facturado por ${days} días y el IBC mínimo baja a ${floor}.`
+  },
+
+  costModes: {
+    [CostMode.NONE]: 'Sin costos deducibles',
+    [CostMode.DECLARED]: 'Costos reales declarados',
+    [CostMode.PRESUMPTIVE]: 'Costos presuntos UGPP (CIIU)',
+  } as Record<CostMode, string>,
+
+  withholdingMethods: {
+    [WithholdingMethod.NONE]: 'No estimar',
+    [WithholdingMethod.ART_383]: 'Tabla Art. 383 E.T. (persona natural)',
+    [WithholdingMethod.FEES]: 'Honorarios (10%)',
+    [WithholdingMethod.SERVICES]: 'Servicios (4%)',
+  } as Record<WithholdingMethod, string>,
+
+  riskLevels: {
+    [RiskLevel.I]: { sector: 'Administrativos', label: 'Riesgo Mínimo', description: 'Actividades administrativas, centros de educación, finanzas.' },
+    [RiskLevel.II]: { sector: 'Manufactura', label: 'Riesgo Bajo', description: 'Procesos manufactureros como tapetes, tejidos, confecciones.' },
+    [RiskLevel.III]: { sector: 'Construcción/Agro', label: 'Riesgo Medio', description: 'Fabricación de alimentos, alcoholes, agujas, automotriz.' },
+    [RiskLevel.IV]: { sector: 'Transporte', label: 'Riesgo Alto', description: 'Transporte aéreo, terrestre, fabricación de aceites.' },
+    [RiskLevel.V]: { sector: 'Minería/Alto Riesgo', label: 'Riesgo Máximo', description: 'Minería, construcción, trabajos eléctricos, explosivos.' },
+  } as Record<RiskLevel, { sector: string; label: string; description: string }>,
+
+  efficiency: {
+    title: 'Eficiencia del Contrato',
+    badge: 'Gastos y Deducciones',
+    explanation: (percent: string) => `Esto significa que de cada $1.000 que cobras, ${percent}% es realmente tuyo para gastos personales.`
+  },
+
+  operation: {
+    title: 'Resumen de Operación',
+    totalCosts: 'Costo Total de Operación',
+    includesCosts: 'Incluye Costos Deducibles',
+    grossValue: 'Valor Bruto Facturado'
+  },
+
+  socialSecurity: {
+    title: 'Seguridad Social',
+    badge: 'Obligatorio',
+    ibc: 'Base de Cotización (IBC)',
+    health: (rate: string) => `Salud (${rate} IBC)`,
+    pension: (rate: string) => `Pensión (${rate} IBC)`,
+    arl: (levels: string) => `ARL (Riesgo ${levels})`,
+    arlPaidByEntity: 'pagado por el contratante',
+    arlPartlyPaidByEntity: (amount: string) => `${amount} pagado por el contratante`,
+    solidarityFund: (rate: string | null) => `Fondo de Solidaridad (${rate ? `${rate} IBC` : 'IBC < 4 SMMLV'})`,
+    total: 'Total Aportes',
+    disclaimer: 'Estos aportes son obligatorios por ley para contratistas con IBC sobre el 40% del valor bruto. No son valores ajustables por el usuario.',
+    floorNotice: `El 40% del contrato es inferior a ${IBC_MIN_SMMLV} SMMLV: se cotiza sobre el mínimo legal.`,
+    capNotice: `El 40% del contrato supera ${IBC_MAX_SMMLV} SMMLV: se cotiza sobre el tope legal.`
+  },
+
+  provisions: {
+    title: 'Provisiones Financieras',
+    badge: 'Sugerido',
+    defaultBuckets: { vacation: 'Vacaciones', severance: 'Cesantías + Intereses' },
+    bucketRate: (name: string, rate: string) => `${name} (${rate})`,
+    bucketFixed: (name: string) => `${name} (monto fijo)`,
+    noBuckets: 'Sin fondos de ahorro activos.',
+    customize: 'Personalizar fondos',
+    done: 'Listo',
+    bucketName: 'Nombre del fondo',
+    newBucketName: (index: number) => `Fondo ${index}`,
+    addBucket: '+ Agregar fondo',
+    removeBucket: 'Quitar',
+    enabled: 'Activo',
+    modes: {
+      [ProvisionMode.PERCENT]: '% del valor',
+      [ProvisionMode.FIXED]: 'Monto fijo (COP)',
+    } as Record<ProvisionMode, string>,
+    profiles: 'Perfiles de Ahorro',
+    profileNamePlaceholder: 'Nombre del perfil, ej. Con prima',
+    saveProfile: 'Guardar perfil',
+    applyProfile: 'Aplicar',
+    deleteProfile: 'Eliminar',
+    resetDefault: 'Restablecer predeterminado',
+    contractualRisk: 'Riesgo Contractual (%)',
+    presetLow: 'Bajo',
+    presetMedium: 'Medio',
+    presetHigh: 'Alto',
+    riskValue: 'Valor del Riesgo',
+    total: 'Total Reservas'
+  },
+
+  netIncome: {
+    title: 'Ingreso Neto Real Estimado',
+    badge: 'Disponible Real Mensual',
+    downloadReport: 'Descargar reporte (PDF)',
+    copyLink: 'Copiar enlace del cálculo',
+    linkCopied: 'Enlace copiado',
+    copyPrompt: 'Copia este enlace:',
+    description: 'Este es el dinero disponible mensual tras descontar seguridad social y separar ahorros para prestaciones sociales.'
+  },
+
+  employment: {
+    title: 'Equivalente en Contrato Laboral',
+    description: 'Compara este contrato de prestación de servicios con un empleo que deje el mismo valor neto al mes.',
+    directions: {
+      [EquivalenceDirection.CONTRACT_TO_SALARY]: 'Contrato → salario',
+      [EquivalenceDirection.SALARY_TO_CONTRACT]: 'Salario → contrato'
+    } as Record<EquivalenceDirection, string>,
+    serviceNetValue: 'Valor neto del contrato (antes de provisiones)',
+    equivalentSalary: 'Salario Mensual Equivalente',
+    minimumWage: 'Incluso con un salario mínimo el empleo deja más valor que este contrato.',
+    salaryOffer: 'Salario Mensual Ofrecido (COP)',
+    salaryOfferPlaceholder: 'Ej. 4.000.000',
+    belowMinimumWage: (smmlv: string) => `Un salario no puede ser inferior al mínimo (${smmlv}).`,
+    equivalentContract: 'Valor de Contrato Equivalente',
+    versusCurrent: (difference: string) => `${difference} frente al valor facturado actual`,
+    unreachable: 'No hay un valor equivalente dentro del rango de búsqueda.',
+    salary: 'Salario',
+    transportAllowance: 'Auxilio de transporte',
+    health: 'Salud empleado (4%)',
+    pension: 'Pensión empleado (4%)',
+    solidarityFund: 'Fondo de Solidaridad Pensional',
+    prima: 'Prima de servicios (1/12)',
+    severance: 'Cesantías (1/12)',
+    severanceInterest: 'Intereses sobre cesantías (12%)',
+    vacation: 'Vacaciones (15 días hábiles al año)',
+    netValue: 'Valor neto mensual',
+    note: 'El valor neto del contrato no descuenta provisiones ni riesgo contractual, porque en un empleo el empleador asume esos pagos. La retención en la fuente y el salario integral no se consideran.'
+  },
+
+  taxRegime: {
+    title: 'Régimen Simple vs Régimen Ordinario',
+    description: 'Estima el impuesto de un año con este mes repetido doce veces (llevado a 30 días si es un mes parcial) y compara cuánto te queda en cada régimen.',
+    regimes: {
+      [TaxRegime.ORDINARY]: 'Régimen ordinario (Art. 241)',
+      [TaxRegime.SIMPLE]: 'Régimen Simple (RST)'
+    } as Record<TaxRegime, string>,
+    annualIncome: 'Ingreso bruto anual',
+    annualSocialSecurity: 'Seguridad social del año',
+    annualCosts: 'Costos deducibles del año',
+    taxableBase: 'Base gravable',
+    ordinaryTax: (rate: string) => `Impuesto de renta (tasa efectiva ${rate})`,
+    simpleTax: (rate: string) => `Impuesto unificado (${rate} del ingreso bruto)`,
+    annualNetIncome: 'Ingreso neto anual',
+    recommended: 'Te deja más',
+    simpleUnavailable: (incomeUvt: string) => `Con ingresos de ${incomeUvt} UVT no puedes inscribirte en el Régimen Simple: los servicios profesionales solo pueden hacerlo por debajo de 12.000 UVT al año.`,
+    simpleLeavesMore: (difference: string) => `El Régimen Simple te dejaría ${difference} más al año.`,
+    ordinaryLeavesMore: (difference: string) => `El régimen ordinario te dejaría ${difference} más al año.`,
+    note: (year: number, uvt: string) => `Estimación para servicios profesionales con la UVT ${year} (${uvt}). En el régimen ordinario los aportes son ingreso no gravado y se toma la renta exenta del 25% (máx. 790 UVT) salvo que declares costos. El Régimen Simple grava el ingreso bruto e incluye el ICA; no se consideran otras rentas, deducciones ni descuentos.`
+  },
+
+  withholding: {
+    title: 'Retención en la Fuente',
+    badge: 'Opcional',
+    method: 'Método de Retención',
+    base: 'Base de Retención',
+    estimated: 'Retención Estimada',
+    expectedDeposit: 'Consignación Esperada',
+    note: (year: number, uvt: string) => `La retención es un anticipo del impuesto de renta: reduce el pago que recibes, pero se descuenta en tu declaración anual. Los aportes de seguridad social se restan como ingreso no gravado (UVT ${year}: ${uvt}).`
+  },
+
+  simulator: {
+    title: 'Simulador de Negociación',
+    desiredNetIncome: 'Ingreso Neto Mensual Deseado (COP)',
+    desiredNetIncomePlaceholder: 'Ej. 4.000.000',
+    suggestedValue: 'Valor Sugerido de Contrato',
+    difference: 'Diferencia vs Actual',
+    floorNotice: `A este valor se cotiza sobre el IBC mínimo de ${IBC_MIN_SMMLV} SMMLV.`,
+    unreachable: 'Meta inalcanzable: ningún valor de contrato produce este ingreso neto con el perfil actual.',
+    explanation: (percent: string) => `Este valor bruto garantiza que, tras cubrir seguridad social y tus ahorros prestacionales (${percent}% de costos a ese valor), logres tu ingreso neto objetivo.`
+  },
+
+  sensitivity: {
+    title: 'Sensibilidad y Punto de Equilibrio',
+    description: 'Cómo cambian tu ingreso neto y el porcentaje de costos según el valor del contrato, con una curva por clase de riesgo ARL. Usa el perfil del contrato activo (costos, riesgo contractual y retención).',
+    range: 'Rango',
+    rangeOption: (min: number, max: number) => `${min} a ${max} SMMLV`,
+    netIncomeTitle: 'Ingreso neto mensual vs valor del contrato',
+    costShareTitle: 'Porcentaje de costos vs valor del contrato',
+    series: (level: RiskLevel) => `Riesgo ${level}`,
+    floorKink: 'Sale del IBC mínimo',
+    capKink: 'Llega al tope del IBC',
+    target: 'Meta neta',
+    breakeven: (level: RiskLevel) => `Equilibrio ${level}`,
+    breakevenTitle: 'Valor mínimo para alcanzar la meta neta',
+    breakevenValue: (level: RiskLevel, value: string) => `Riesgo ${level}: ${value}`,
+    unreachable: 'inalcanzable',
+    kinksNote: 'Las líneas punteadas grises marcan dónde el IBC sale del mínimo y dónde llega al tope; fuera del rango elegido no se dibujan.'
+  },
+
+  portfolio: {
+    title: 'Contratos Simultáneos',
+    description: `Los contratos se suman para calcular un único IBC (con mínimo de ${IBC_MIN_SMMLV} y tope de ${IBC_MAX_SMMLV} SMMLV), que luego se reparte entre ellos. La ARL se liquida por contrato según su clase de riesgo.`,
+    contract: 'Contrato',
+    risk: 'Riesgo',
+    value: 'Valor',
+    allocatedIbc: 'IBC Asignado',
+    contributions: 'Aportes',
+    net: 'Neto',
+    consolidated: 'Consolidado'
+  },
+
+  riskGuide: {
+    title: 'Guía de Niveles de Riesgo ARL',
+    description: 'Cada actividad económica está clasificada por la ley colombiana según su nivel de peligro. Selecciona el nivel que corresponda a las funciones principales de tu contrato.',
+    select: 'Seleccionar',
+    selected: 'Seleccionado',
+    keyFactLabel: 'Dato clave:',
+    keyFact: 'Para contratos de prestación de servicios, el contratista es el responsable de realizar el pago de la ARL, a menos que el riesgo sea IV o V, en cuyo caso la empresa contratante debe realizar el aporte directamente.',
+    searchLabel: 'Buscar mi actividad económica (CIIU)',
+    searchPlaceholder: 'Ej. 6201 o "construcción"',
+    searchHint: 'Catálogo local según la tabla de clasificación del Decreto 768 de 2022. Elegir una actividad fija la clase de riesgo del contrato activo.',
+    noResults: 'Ninguna actividad del catálogo coincide con la búsqueda.',
+    activity: (ciiu: string, description: string) => `Actividad CIIU ${ciiu}: ${description}`,
+    clearActivity: 'Quitar actividad'
+  },
+
+  footer: {
+    copyright: '© 2026 - NetoReal - Herramienta de Planificación Financiera para Contratistas en Colombia',
+    disclaimer: 'Esta calculadora es una herramienta de referencia. Los valores pueden variar según normativas locales o cambios en la ley tributaria.',
+    feedback: 'Sugerencias o comentarios'
+  },
+
+  ibcModal: {
+    title: '¿Qué es el IBC?',
+    basicsTitle: 'Concepto Básico',
+    basicsBefore: 'El ',
+    basicsTerm: 'Ingreso Base de Cotización (IBC)',
+    basicsAfter: (healthRate: string, pensionRate: string) => ` es el monto de tus ingresos sobre el cual se calculan los porcentajes de aportes a Salud (${healthRate}), Pensión (${pensionRate}) y ARL (según riesgo).`,
+    ruleTitle: 'La Regla del 40%',
+    ruleBefore: 'Para los trabajadores independientes (prestadores de servicios), la ley permite calcular sus aportes sobre el ',
+    ruleTerm: '40% del valor bruto facturado mensualmente',
+    ruleAfter: ' (antes de IVA si aplica).',
+    exampleLabel: 'Ejemplo:',
+    example: (gross: string, ibc: string) => `${gross} x 40% = ${ibc} (Tu IBC)`,
+    minimumTitle: 'Mínimo Legal',
+    minimumText: (year: number, smmlv: string) => `Si el 40% es menor a 1 salario mínimo, debes cotizar sobre el mínimo de ${year} (${smmlv}).`,
+    maximumTitle: 'Máximo Legal',
+    maximumText: 'Incluso si ganas mucho más, el tope de base de cotización está limitado por ley.',
+    legalBasis: 'Base Legal: Artículo 18 de la Ley 100 de 1993, modificado por la Ley 797 de 2003 y Ley 1122 de 2007.',
+    close: 'Entendido'
+  },
+
+  reportModal: {
+    title: 'Reporte PDF',
+    description: 'Los datos del contratista son opcionales y solo se usan en el reporte.',
+    name: 'Nombre del contratista',
+    namePlaceholder: 'Ej. Ana María Gómez',
+    idNumber: 'Cédula',
+    idNumberPlaceholder: 'Ej. 1.020.304.050',
+    contractNumber: 'Número de contrato',
+    contractNumberPlaceholder: 'Ej. CPS-2026-041',
+    sections: 'Secciones',
+    cancel: 'Cancelar',
+    download: 'Descargar PDF',
+    documentTypes: {
+      [ReportDocumentType.PLANNING]: 'Reporte de planeación',
+      [ReportDocumentType.INVOICE]: 'Cuenta de cobro'
+    } as Record<ReportDocumentType, string>,
+    invoiceDescription: 'Los datos del contratista y del cliente se guardan en este navegador para la próxima cuenta de cobro.',
+    invoiceContract: (label: string) => `Se cobra el valor de ${label} con sus aportes del periodo.`,
+    clientName: 'Cliente (entidad contratante)',
+    clientNamePlaceholder: 'Ej. Alcaldía de Medellín',
+    clientNit: 'NIT del cliente',
+    clientNitPlaceholder: 'Ej. 890.905.211-1',
+    city: 'Ciudad',
+    cityPlaceholder: 'Ej. Medellín',
+    concept: 'Concepto',
+    conceptPlaceholder: 'Ej. Honorarios por desarrollo de software',
+    bankAccount: 'Cuenta para el pago',
+    bankAccountPlaceholder: 'Ej. Ahorros Bancolombia 123-456789-00',
+    invoiceNumber: 'Número de cuenta de cobro',
+    period: 'Periodo facturado',
+    pilaNumber: 'Número de planilla PILA (opcional)',
+    pilaNumberPlaceholder: 'Ej. 9412345678'
+  },
+
+  invoice: {
+    title: (number: string) => `Cuenta de Cobro N.° ${number}`,
+    issued: (city: string, date: string) => (city ? `${city}, ${date}` : date),
+    filePrefix: 'Cuenta_de_Cobro',
+    billTitle: 'Detalle del Cobro',
+    socialSecurityTitle: 'Aportes a Seguridad Social del Periodo',
+    signatureTitle: 'Firma del Contratista',
+    concept: 'Concepto',
+    value: 'Valor',
+    ibc: 'IBC',
+    client: 'Cliente',
+    clientNit: 'NIT',
+    contractor: 'Debe a',
+    idNumber: 'C.C.',
+    contractNumber: 'Contrato N.°',
+    period: 'Periodo',
+    days: 'Días cotizados',
+    serviceConcept: 'Por concepto de',
+    amount: 'La suma de',
+    amountInWords: 'Valor en letras',
+    bankAccount: 'Consignar en',
+    health: (rate: string) => `Salud (${rate})`,
+    pension: (rate: string) => `Pensión (${rate})`,
+    solidarityFund: 'Fondo de Solidaridad Pensional',
+    arl: (riskClass: number, rate: string) => `ARL clase ${riskClass} (${rate})`,
+    paidByEntity: 'a cargo del contratante',
+    totalPaid: 'Total pagado por el contratista',
+    declaration: (period: string, ibc: string) =>
+      `Declaro que realicé los aportes al Sistema de Seguridad Social Integral del periodo ${period} sobre un IBC de ${ibc}, conforme al artículo 244 de la Ley 1955 de 2019.`,
+    pilaNumber: (pilaNumber: string) => `Planilla PILA N.° ${pilaNumber}.`,
+    foreignAmount: (currency: string) => `Valor en ${currency}`,
+    exchangeRate: 'TRM aplicada',
+    signatureId: (idNumber: string) => `C.C. ${idNumber}`,
+    disclaimer: 'Documento generado con NetoReal a partir del cálculo. Verifica los aportes contra la planilla PILA pagada antes de enviarlo.'
+  },
+
+  reportSections: {
+    [ReportSection.SUMMARY]: 'Resumen Ejecutivo',
+    [ReportSection.SOCIAL_SECURITY]: 'Seguridad Social',
+    [ReportSection.CONTRACTS]: 'Contratos Simultáneos',
+    [ReportSection.PROVISIONS]: 'Provisiones Financieras',
+    [ReportSection.SIMULATOR]: 'Simulador de Negociación',
+    [ReportSection.SENSITIVITY]: 'Sensibilidad y Punto de Equilibrio',
+    [ReportSection.LEGAL_NOTES]: 'Notas Legales',
+  } as Record<ReportSection, string>,
+
+  report: {
+    title: 'Reporte de Planeación Financiera - Contratistas',
+    filePrefix: 'Reporte_Financiero',
+    fileFallbackName: 'Contratista',
+    date: (date: string) => `Fecha: ${date}`,
+    parameters: (year: number, version: string) => `Parámetros: ${year} (v${version})`,
+    stamp: (year: number, version: string) => `Parámetros ${year} (v${version})`,
+    contractor: (name: string) => `Contratista: ${name}`,
+    idNumber: (idNumber: string) => `C.C.: ${idNumber}`,
+    contractNumber: (contractNumber: string) => `Contrato N.°: ${contractNumber}`,
+    page: (page: number, pageCount: number) => `Página ${page} de ${pageCount}`,
+    concept: 'Concepto',
+    value: 'Valor',
+    rate: 'Tasa',
+    summaryTitle: 'Resumen Ejecutivo',
+    expensesPercent: 'Porcentaje de Gastos y Deducciones',
+    withholding: (method: string) => `Retención en la Fuente (${method})`,
+    socialSecurityTitle: 'Seguridad Social (Obligatorio)',
+    ibcBase: 'Base (IBC 40%)',
+    ibcBaseAfterCosts: 'Base (IBC 40% tras costos)',
+    daysOfMonth: (days: number) => `${days} de ${FULL_MONTH_DAYS}`,
+    exchangeRate: (currency: string, rate: string) => `TRM ${currency}: ${rate}`,
+    foreignValue: (currency: string) => `Valor Facturado en ${currency}`,
+    foreignNetIncome: (currency: string) => `Ingreso Neto en ${currency}`,
+    ibcBaseFloor: `Base (IBC mínimo ${IBC_MIN_SMMLV} SMMLV)`,
+    ibcBaseCap: `Base (IBC tope ${IBC_MAX_SMMLV} SMMLV)`,
+    health: (rate: string) => `Salud (${rate})`,
+    pension: (rate: string) => `Pensión (${rate})`,
+    solidarityFund: (rate: string | null) => `Fondo de Solidaridad Pensional (${rate ?? 'no aplica'})`,
+    totalContributions: 'Total Aportes (a cargo del contratista)',
+    contractsTitle: 'Contratos Simultáneos (IBC Consolidado)',
+    provisionsTitle: 'Provisiones Financieras (Sugerido)',
+    fixedAmount: 'Monto fijo',
+    contractualRisk: 'Riesgo Contractual',
+    simulatorTitle: 'Simulador de Negociación',
+    desiredNetIncome: 'Ingreso Neto Mensual Deseado',
+    unreachable: 'Meta inalcanzable con este perfil',
+    legalNotesTitle: 'Notas Legales',
+    ibcNote: `IBC: El Ingreso Base de Cotización (IBC) se calcula sobre el 40% del valor bruto del contrato, con un mínimo de ${IBC_MIN_SMMLV} SMMLV y un máximo de ${IBC_MAX_SMMLV} SMMLV.`,
+    arlNote: 'ARL: Para contratos de prestación de servicios, el contratista es el responsable del pago de la ARL, salvo riesgos IV o V.',
+    provisionsNote: 'Las provisiones financieras son estimaciones sugeridas para cubrir prestaciones sociales no incluidas en contratos de servicios.',
+    disclaimer: 'Esta calculadora es una herramienta de referencia. Los valores pueden variar según normativas locales o cambios en la ley tributaria',
+    copyright: '© 2026 - Herramienta de Planificación Financiera para Contratistas en Colombia'
+  },
+
+  resultFields: {
+    year: 'Año de Parámetros',
+    contractValue: 'Valor Bruto Facturado',
+    deductibleCosts: 'Costos Deducibles',
+    daysWorked: 'Días Cotizados',
+    ibc: 'IBC',
+    health: 'Salud',
+    pension: 'Pensión',
+    arl: 'ARL',
+    solidarityFund: 'Fondo de Solidaridad',
+    solidarityFundRate: 'Tasa Fondo de Solidaridad',
+    employerPaidContributions: 'Aportes Pagados por el Contratante',
+    contractualRiskProvision: 'Provisión Riesgo Contractual',
+    withholdingBase: 'Base de Retención',
+    withholding: 'Retención en la Fuente',
+    expectedDeposit: 'Consignación Esperada',
+    totalSocialSecurity: 'Total Aportes',
+    totalProvisions: 'Total Reservas',
+    totalCosts: 'Costo Total de Operación',
+    netIncome: 'Ingreso Neto Real Estimado',
+    nonDisposablePercent: 'Gastos y Deducciones (%)',
+  } as Record<NumericResultField, string>,
+
+  scenarios: {
+    title: 'Escenarios Guardados',
+    description: (max: number) => `Guarda el cálculo actual con un nombre, recupéralo más tarde y compara hasta ${max} ofertas lado a lado. Los escenarios se guardan solo en este navegador.`,
+    namePlaceholder: 'Ej. Oferta entidad A',
+    save: 'Guardar escenario',
+    empty: 'Aún no tienes escenarios guardados.',
+    details: (date: string, contracts: number, year: number) => `${date} · ${contracts} contrato(s) · ${year}`,
+    load: 'Cargar',
+    remove: 'Eliminar',
+    concept: 'Concepto',
+    baseline: ' (base)'
+  },
+
+  planner: {
+    title: 'Planeador Anual de Flujo de Caja',
+    description: 'Ingresa lo que facturas cada mes (incluidos los meses sin contrato) para ver aportes, provisiones, neto y el saldo acumulado de tus reservas.',
+    months: ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'],
+    pastePlaceholder: 'Pega aquí una fila o columna de 12 valores desde tu hoja de cálculo',
+    applyPaste: 'Aplicar valores pegados',
+    fillCurrent: 'Llenar con el valor actual',
+    chartLabel: 'Facturación mensual dividida en aportes, provisiones e ingreso neto',
+    legendContributions: 'Aportes y costos',
+    legendProvisions: 'Provisiones',
+    legendNet: 'Neto',
+    month: 'Mes',
+    billed: 'Facturado',
+    contributions: 'Aportes',
+    provisions: 'Provisiones',
+    net: 'Neto',
+    provisionBalance: (name: string) => `Saldo ${name}`,
+    riskBalance: 'Saldo Riesgo',
+    total: 'Total'
+  },
+
+  pila: {
+    export: 'Exportar pre-liquidación PILA',
+    hint: (period: string) => `Período ${period}, tipo de cotizante 59. Valores redondeados como en la planilla: IBC al peso y aportes a la centena superior.`,
+    fileName: (period: string) => `PILA_preliquidacion_${period}.csv`,
+    total: 'Total',
+    columns: {
+      contractLabel: 'Contrato',
+      contributorType: 'Tipo de cotizante',
+      period: 'Período',
+      days: 'Días cotizados',
+      ibc: 'IBC',
+      pensionRate: 'Tarifa pensión',
+      pension: 'Cotización pensión',
+      solidarityAccount: 'FSP subcuenta solidaridad',
+      subsistenceAccount: 'FSP subcuenta subsistencia',
+      healthRate: 'Tarifa salud',
+      health: 'Cotización salud',
+      riskClass: 'Clase de riesgo',
+      arlRate: 'Tarifa ARL',
+      arl: 'Cotización ARL',
+      arlPayer: 'ARL a cargo de'
+    },
+    payers: {
+      [ContributionPayer.CONTRACTOR]: 'Contratista',
+      [ContributionPayer.CONTRACTING_ENTITY]: 'Contratante',
+    } as Record<ContributionPayer, string>
+  },
+
+  paymentCalendar: {
+    title: 'Calendario de Pagos PILA',
+    description: 'Como independiente pagas mes vencido: lo que facturas en un mes se cotiza en la planilla del mes siguiente. La fecha límite depende de los dos últimos dígitos de tu cédula o NIT.',
+    idNumber: 'Cédula o NIT',
+    idNumberPlaceholder: 'Ej. 1.020.304.050',
+    businessDay: (day: number) => `Tu plazo es el día hábil ${day} de cada mes (sin contar el dígito de verificación del NIT).`,
+    missingId: 'Ingresa tu número de identificación para calcular las fechas límite.',
+    billingDates: 'Fechas de Facturación',
+    addDate: '+ Agregar fecha',
+    fillYear: (year: number) => `Fin de cada mes de ${year}`,
+    remove: 'Quitar',
+    empty: 'Agrega al menos una fecha de facturación.',
+    covers: (period: string) => `Cubre ingresos de ${period}`,
+    billed: (dates: string) => `Facturado: ${dates}`,
+    next: 'Próximo',
+    estimatedContribution: (amount: string) => `Aporte estimado: ${amount}`,
+    downloadIcs: 'Agregar a mi calendario (.ics)',
+    fileName: 'Calendario_PILA.ics',
+    eventSummary: (period: string) => `Pago PILA: ingresos de ${period}`,
+    eventDescription: (period: string, dates: string, amount: string) =>
+      `Aportes a seguridad social sobre los ingresos de ${period} (facturado: ${dates}). Aporte estimado: ${amount}.`
+  },
+
+  batch: {
+    title: 'Cálculo por Lotes',
+    descriptionBefore: 'Sube un archivo CSV (puedes guardarlo desde Excel) con las columnas ',
+    columns: ['valor', 'riesgo', 'riesgo_contractual', 'costos'],
+    and: ' y ',
+    descriptionAfter: (year: number) => `. Cada fila se calcula con los parámetros de ${year} y el método de retención seleccionado, y el resultado se descarga como CSV listo para abrir en Excel (no se genera XLSX).`,
+    selectFile: 'Seleccionar archivo CSV…',
+    downloadTemplate: 'Descargar plantilla',
+    downloadResults: 'Descargar resultados (CSV)',
+    resultsSuffix: '_resultados',
+    fallbackFileName: 'lote',
+    summary: (valid: number, invalid: number) => `${valid} fila(s) calculadas · ${invalid} con errores`,
+    row: 'Fila',
+    rowLabel: (line: number) => `Fila ${line}:`,
+    errors: 'Errores',
+    value: 'Valor',
+    contributions: 'Aportes',
+    provisions: 'Provisiones',
+    net: 'Neto',
+    describeError: (error: BatchError): string => {
+      switch (error.kind) {
+        case 'missingColumns': return 'El archivo debe tener las columnas "valor" y "riesgo".';
+        case 'contractValue': return `Valor del contrato inválido: "${error.value}".`;
+        case 'riskLevel': return `Nivel de riesgo ARL inválido: "${error.value}" (use I a V).`;
+        case 'contractualRisk': return `Riesgo contractual inválido: "${error.value}" (debe estar entre ${MIN_CONTRACTUAL_RISK_PERCENT} y ${MAX_CONTRACTUAL_RISK_PERCENT}).`;
+        case 'costs': return `Costos inválidos: "${error.value}".`;
+      }
+    }
+  }
+};
+
+export type Messages = typeof es;
@@ -0,0 +1,63 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Currency, Language } from '../types';
+import { es, Messages } from './es';
+import { en } from './en';
+import { formatCurrency, formatInputDisplay } from '../utils/format';
+
+export type { Messages };
+
+export const MESSAGES: Record<Language, Messages> = {
+  [Language.ES]: es,
+  [Language.EN]: en,
+};
+
+export const LANGUAGE_STORAGE_KEY = 'netoreal.language';
+
+type LanguageStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const isLanguage = (val: string | null): val is Language =>
+  (Object.values(Language) as (string | null)[]).includes(val);
+
+export const loadLanguage = (storage: LanguageStorage): Language => {
+  const stored = storage.getItem(LANGUAGE_STORAGE_KEY);
+  return isLanguage(stored) ? stored : Language.ES;
+};
+
+export interface I18n {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Messages;
+  // Locale-aware versions of the format helpers; amounts are in COP unless a currency is given.
+  formatCurrency: (val: number, currency?: Currency) => string;
+  formatInputDisplay: (val: number | undefined) => string;
+}
+
+const createI18n = (language: Language, setLanguage: (language: Language) => void): I18n => {
+  const t = MESSAGES[language];
+  return {
+    language,
+    setLanguage,
+    t,
+    formatCurrency: (val, currency) => formatCurrency(val, t.locale, currency),
+    formatInputDisplay: (val) => formatInputDisplay(val, t.locale)
+  };
+};
+
+const I18nContext = createContext<I18n>(createI18n(Language.ES, () => {}));
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(() => loadLanguage(window.localStorage));
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const i18n = useMemo(() => createI18n(language, (next) => {
+    setLanguageState(next);
+    window.localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+  }), [language]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { findArlActivity, searchArlActivities } from './arlActivities';
+import { ARL_ACTIVITIES } from '../constants';
+import { RiskLevel } from '../types';
+
+describe('ARL activity catalog', () => {
+  it('has one entry per CIIU code', () => {
+    const codes = ARL_ACTIVITIES.map((activity) => activity.ciiu);
+    expect(new Set(codes).size).toBe(codes.length);
+    codes.forEach((code) => expect(code).toMatch(/^\d{4}$/));
+  });
+
+  it('finds an activity by its code', () => {
+    expect(findArlActivity('4111')?.riskLevel).toBe(RiskLevel.V);
+    expect(findArlActivity('9999')).toBeUndefined();
+    expect(findArlActivity(undefined)).toBeUndefined();
+  });
+});
+
+describe('searchArlActivities', () => {
+  it('matches numeric queries against the start of the code', () => {
+    expect(searchArlActivities('62').map((a) => a.ciiu)).toEqual(['6201', '6202']);
+  });
+
+  it('matches every word of the description ignoring accents and case', () => {
+    expect(searchArlActivities('CONSTRUCCION').map((a) => a.ciiu)).toEqual(['4111', '4210']);
+    expect(searchArlActivities('transporte carga').map((a) => a.ciiu)).toEqual(['4923']);
+    expect(searchArlActivities('medica')[0].riskLevel).toBe(RiskLevel.III);
+  });
+
+  it('returns nothing for an empty query and honours the limit', () => {
+    expect(searchArlActivities('   ')).toEqual([]);
+    expect(searchArlActivities('de', 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,29 @@
+import { ArlActivity } from '../types';
+import { ARL_ACTIVITIES } from '../constants';
+
+export const MAX_ARL_SEARCH_RESULTS = 8;
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const findArlActivity = (ciiu: string | undefined): ArlActivity | undefined =>
+  ARL_ACTIVITIES.find((activity) => activity.ciiu === ciiu);
+
+// A numeric query matches the start of the CIIU code; otherwise every word must
+// appear in the description, ignoring accents and case.
+export const searchArlActivities = (query: string, limit = MAX_ARL_SEARCH_RESULTS): ArlActivity[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  if (/^\d+$/.test(trimmed)) {
+    return ARL_ACTIVITIES.filter((activity) => activity.ciiu.startsWith(trimmed)).slice(0, limit);
+  }
+
+  const words = normalize(trimmed).split(/\s+/);
+  return ARL_ACTIVITIES
+    .filter((activity) => {
+      const description = normalize(activity.description);
+      return words.every((word) => description.includes(word));
+    })
+    .slice(0, limit);
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { runBatch, batchToCsv, parseCsv, parseLocaleNumber, detectDelimiter } from './batch';
+import { calculate } from './calculator';
+import { BatchError, CostMode, RiskLevel, WithholdingMethod } from '../types';
+import { es } from '../i18n/es';
+
+const settings = { year: 2026, withholdingMethod: WithholdingMethod.NONE };
+
+describe('parseLocaleNumber', () => {
+  it('reads Colombian thousands separators and decimal commas', () => {
+    expect(parseLocaleNumber('3.200.000')).toBe(3200000);
+    expect(parseLocaleNumber('$ 1.200.000')).toBe(1200000);
+    expect(parseLocaleNumber('10,5')).toBe(10.5);
+    expect(parseLocaleNumber('7.5')).toBe(7.5);
+    expect(parseLocaleNumber('abc')).toBeNull();
+    expect(parseLocaleNumber('')).toBeNull();
+  });
+
+  it('rejects infinity, exponents and hex numbers', () => {
+    expect(parseLocaleNumber('Infinity')).toBeNull();
+    expect(parseLocaleNumber('1e30')).toBeNull();
+    expect(parseLocaleNumber('0x10')).toBeNull();
+    expect(parseLocaleNumber('9'.repeat(400))).toBeNull();
+    expect(runBatch('valor;riesgo\nInfinity;I\n1e30;I\n0x10;I\n', settings).map((row) => row.errors)).toEqual([
+      [{ kind: 'contractValue', value: 'Infinity' }],
+      [{ kind: 'contractValue', value: '1e30' }],
+      [{ kind: 'contractValue', value: '0x10' }]
+    ]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields and blank lines', () => {
+    expect(detectDelimiter('valor,riesgo\n1,I')).toBe(',');
+    expect(parseCsv('a,b\r\n"1,5","x ""y"""\n\n', ',')).toEqual([['a', 'b'], ['1,5', 'x "y"']]);
+  });
+});
+
+describe('runBatch', () => {
+  it('calculates each valid row with the shared settings', () => {
+    const rows = runBatch('\uFEFFValor;Riesgo;Riesgo contractual;Costos\n3.200.000;I;10;0\n8.500.000;3;5;1.200.000\n', settings);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[0].results).toEqual(calculate({
+      contractValue: 3200000,
+      riskLevel: RiskLevel.I,
+      contractualRiskPercent: 10,
+      year: 2026,
+      withholdingMethod: WithholdingMethod.NONE,
+      costMode: CostMode.NONE,
+      declaredCosts: 0
+    }));
+    expect(rows[1].line).toBe(3);
+    expect(rows[1].results?.deductibleCosts).toBe(1200000);
+  });
+
+  it('reports every problem of an invalid row without stopping the batch', () => {
+    const rows = runBatch('valor,riesgo,riesgo_contractual,costos\nmucho,VI,25,-1\n5000000,II,,\n', settings);
+
+    expect(rows[0].results).toBeNull();
+    expect(rows[0].errors).toEqual([
+      { kind: 'contractValue', value: 'mucho' },
+      { kind: 'riskLevel', value: 'VI' },
+      { kind: 'contractualRisk', value: '25' },
+      { kind: 'costs', value: '-1' }
+    ]);
+    expect(rows[1].errors).toEqual([]);
+    expect(rows[1].results?.netIncome).toBeGreaterThan(0);
+  });
+
+  it('fails the whole file when required columns are missing', () => {
+    const rows = runBatch('monto;nivel\n1000;I\n', settings);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].errors).toEqual([{ kind: 'missingColumns' }]);
+  });
+});
+
+describe('batchToCsv', () => {
+  it('writes one column per result field and keeps errors per row', () => {
+    const rows = runBatch('valor;riesgo\n3200000;I\nx;I\n', settings);
+    const labels = {
+      line: es.batch.row,
+      errors: es.batch.errors,
+      resultFields: es.resultFields,
+      formatError: es.batch.describeError
+    };
+    const [header, valid, invalid] = batchToCsv(rows, ';', labels).replace(/^\uFEFF/, '').trim().split('\r\n');
+
+    expect(header.split(';')[0]).toBe('Fila');
+    expect(valid.split(';')).toHaveLength(header.split(';').length);
+    expect(valid.startsWith('2;;')).toBe(true);
+    expect(invalid).toMatch(/^3;"Valor del contrato inválido: ""x""\."/);
+  });
+
+  it('adds one column per provision bucket', () => {
+    const rows = runBatch('valor;riesgo\n3200000;I\nx;I\n', settings);
+    const labels = {
+      line: es.batch.row,
+      errors: es.batch.errors,
+      resultFields: es.resultFields,
+      formatError: es.batch.describeError
+    };
+    const [header, valid, invalid] = batchToCsv(rows, ';', labels).replace(/^\uFEFF/, '').trim().split('\r\n').map((line) => line.split(';'));
+    const provisions = rows[0].results!.provisions;
+
+    expect(header.slice(-2)).toEqual(['Vacaciones', 'Cesantías + Intereses']);
+    expect(valid.slice(-2)).toEqual(provisions.map((p) => String(Math.round(p.amount * 100) / 100).replace('.', ',')));
+    expect(invalid.slice(-2)).toEqual(['', '']);
+  });
+
+  it('keeps uploaded text that looks like a formula from running in a spreadsheet', () => {
+    const rows = runBatch('valor;riesgo\n=HYPERLINK(1);I\n+cmd;I\n', settings);
+    const labels = {
+      line: es.batch.row,
+      errors: es.batch.errors,
+      resultFields: es.resultFields,
+      formatError: (error: BatchError) => ('value' in error ? String(error.value) : '')
+    };
+    const [, first, second] = batchToCsv(rows, ';', labels).replace(/^\uFEFF/, '').trim().split('\r\n');
+
+    expect(first.startsWith("2;'=HYPERLINK(1);")).toBe(true);
+    expect(second.startsWith("3;'+cmd;")).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+import { BatchError, CalculationResults, CostMode, NumericResultField, RiskLevel, WithholdingMethod } from '../types';
+import { MIN_CONTRACTUAL_RISK_PERCENT, MAX_CONTRACTUAL_RISK_PERCENT } from '../constants';
+import { calculate } from './calculator';
+import { RESULT_FIELDS } from './scenarios';
+import { getProvisionAmount, listProvisionBuckets } from './provisions';
+import { toCsv } from '../utils/csv';
+
+export interface BatchSettings {
+  year: number;
+  withholdingMethod: WithholdingMethod;
+}
+
+export interface BatchRow {
+  line: number;
+  results: CalculationResults | null;
+  errors: BatchError[];
+}
+
+export interface BatchCsvLabels {
+  line: string;
+  errors: string;
+  resultFields: Record<NumericResultField, string>;
+  formatError: (error: BatchError) => string;
+}
+
+type BatchColumn = 'contractValue' | 'riskLevel' | 'contractualRiskPercent' | 'declaredCosts';
+
+// Accepted header names per column, compared without accents or case.
+const COLUMN_ALIASES: Record<BatchColumn, string[]> = {
+  contractValue: ['valor', 'valor contrato', 'valor_contrato', 'contract_value', 'contract value'],
+  riskLevel: ['riesgo', 'nivel riesgo', 'riesgo_arl', 'riesgo arl', 'risk_level', 'risk level'],
+  contractualRiskPercent: ['riesgo contractual', 'riesgo_contractual', 'risk_percent', 'risk %'],
+  declaredCosts: ['costos', 'costos deducibles', 'costos_deducibles', 'costs'],
+};
+
+const ROMAN_BY_NUMBER: Record<string, RiskLevel> = {
+  '1': RiskLevel.I, '2': RiskLevel.II, '3': RiskLevel.III, '4': RiskLevel.IV, '5': RiskLevel.V,
+};
+
+export const BATCH_TEMPLATE = 'valor;riesgo;riesgo_contractual;costos\n3.200.000;I;10;0\n8.500.000;III;5;1.200.000\n';
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Excel in Spanish locales saves CSV with ";", so the delimiter is taken from the header line.
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return (firstLine.match(/;/g)?.length ?? 0) >= (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+};
+
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+// Reads "3.200.000", "3200000", "10,5" or "$ 1.200.000" as numbers.
+export const parseLocaleNumber = (raw: string): number | null => {
+  const cleaned = raw.replace(/[\s$%]/g, '');
+  if (cleaned === '') return null;
+  let normalized = cleaned;
+  if (cleaned.includes(',')) {
+    normalized = cleaned.replace(/\./g, '').replace(',', '.');
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    normalized = cleaned.replace(/\./g, '');
+  }
+  // Only plain decimals: Number() would also take "Infinity", "1e30" or "0x10".
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) return null;
+  const val = Number(normalized);
+  return Number.isFinite(val) ? val : null;
+};
+
+export const runBatch = (text: string, settings: BatchSettings): BatchRow[] => {
+  const delimiter = detectDelimiter(text);
+  const [headerRow, ...dataRows] = parseCsv(text.replace(/^\uFEFF/, ''), delimiter);
+  if (!headerRow) return [];
+
+  const headers = headerRow.map(normalizeHeader);
+  const columnIndex = (column: BatchColumn) =>
+    headers.findIndex((header) => COLUMN_ALIASES[column].includes(header));
+
+  const valueIndex = columnIndex('contractValue');
+  const riskIndex = columnIndex('riskLevel');
+  const percentIndex = columnIndex('contractualRiskPercent');
+  const costsIndex = columnIndex('declaredCosts');
+
+  if (valueIndex < 0 || riskIndex < 0) {
+    return [{ line: 1, results: null, errors: [{ kind: 'missingColumns' }] }];
+  }
+
+  return dataRows.map((cells, i): BatchRow => {
+    const line = i + 2;
+    const errors: BatchError[] = [];
+    const cell = (index: number) => (index >= 0 ? (cells[index] ?? '').trim() : '');
+
+    const contractValue = parseLocaleNumber(cell(valueIndex));
+    if (contractValue === null || contractValue < 0) {
+      errors.push({ kind: 'contractValue', value: cell(valueIndex) });
+    }
+
+    const rawRisk = cell(riskIndex).toUpperCase();
+    const riskLevel = (Object.values(RiskLevel) as string[]).includes(rawRisk)
+      ? (rawRisk as RiskLevel)
+      : ROMAN_BY_NUMBER[rawRisk];
+    if (!riskLevel) {
+      errors.push({ kind: 'riskLevel', value: cell(riskIndex) });
+    }
+
+    const contractualRiskPercent = cell(percentIndex) === '' ? 0 : parseLocaleNumber(cell(percentIndex));
+    if (
+      contractualRiskPercent === null ||
+      contractualRiskPercent < MIN_CONTRACTUAL_RISK_PERCENT ||
+      contractualRiskPercent > MAX_CONTRACTUAL_RISK_PERCENT
+    ) {
+      errors.push({ kind: 'contractualRisk', value: cell(percentIndex) });
+    }
+
+    const declaredCosts = cell(costsIndex) === '' ? 0 : parseLocaleNumber(cell(costsIndex));
+    if (declaredCosts === null || declaredCosts < 0) {
+      errors.push({ kind: 'costs', value: cell(costsIndex) });
+    }
+
+    if (errors.length > 0) return { line, results: null, errors };
+
+    return {
+      line,
+      errors,
+      results: calculate({
+        contractValue: contractValue as number,
+        riskLevel,
+        contractualRiskPercent: contractualRiskPercent as number,
+        year: settings.year,
+        withholdingMethod: settings.withholdingMethod,
+        costMode: declaredCosts ? CostMode.DECLARED : CostMode.NONE,
+        declaredCosts: declaredCosts as number
+      })
+    };
+  });
+};
+
+// CSV is the only export format. Output keeps the delimiter of the uploaded file; with
+// ";" decimals use a comma so Spanish-locale Excel reads them as numbers.
+export const batchToCsv = (rows: BatchRow[], delimiter: string, labels: BatchCsvLabels): string => {
+  const formatNumber = (val: number) => {
+    const rounded = String(Math.round(val * 100) / 100);
+    return delimiter === ';' ? rounded.replace('.', ',') : rounded;
+  };
+  const buckets = listProvisionBuckets(rows.flatMap((row) => (row.results ? [row.results] : [])));
+  const header = [
+    labels.line,
+    labels.errors,
+    ...RESULT_FIELDS.map((field) => labels.resultFields[field]),
+    ...buckets.map((bucket) => bucket.name)
+  ];
+  const lines = rows.map((row) => [
+    String(row.line),
+    row.errors.map(labels.formatError).join(' '),
+    ...RESULT_FIELDS.map((field) => (row.results ? formatNumber(row.results[field]) : '')),
+    ...buckets.map((bucket) => (row.results ? formatNumber(getProvisionAmount(row.results, bucket.id)) : ''))
+  ]);
+  return toCsv([header, ...lines], delimiter);
+};
@@ -0,0 +1,290 @@
+import { describe, it, expect } from 'vitest';
+import { calculate, calculatePortfolio } from './calculator';
+import { RiskLevel, IBCBound, WithholdingMethod, CostMode, ContributionPayer, ProvisionMode } from '../types';
+
+describe('calculate', () => {
+  it('computes a profile whose 40% base is inside the legal bounds', () => {
+    const r = calculate({ contractValue: 5000000, riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026 });
+
+    expect(r.ibc).toBeCloseTo(2000000);
+    expect(r.ibcBound).toBeNull();
+    expect(r.health).toBeCloseTo(250000);
+    expect(r.pension).toBeCloseTo(320000);
+    expect(r.arl).toBeCloseTo(10440);
+    expect(r.provisions.map((p) => p.id)).toEqual(['vacation', 'severance']);
+    expect(r.provisions[0].amount).toBeCloseTo(208500);
+    expect(r.provisions[1].amount).toBeCloseTo(466500);
+    expect(r.contractualRiskProvision).toBeCloseTo(500000);
+    expect(r.totalSocialSecurity).toBeCloseTo(580440);
+    expect(r.totalProvisions).toBeCloseTo(1175000);
+    expect(r.totalCosts).toBeCloseTo(1755440);
+    expect(r.netIncome).toBeCloseTo(3244560);
+    expect(r.nonDisposablePercent).toBeCloseTo(35.1088, 4);
+  });
+
+  it('raises the IBC to 1 SMMLV for small contracts', () => {
+    const r = calculate({ contractValue: 3200000, riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026 });
+
+    expect(r.ibc).toBe(1750905);
+    expect(r.ibcBound).toBe(IBCBound.FLOOR);
+    expect(r.health).toBeCloseTo(218863.125);
+    expect(r.pension).toBeCloseTo(280144.8);
+    expect(r.netIncome).toBeCloseTo(1939852.3509);
+  });
+
+  it('caps the IBC at 25 SMMLV for large contracts', () => {
+    const r = calculate({ contractValue: 200000000, riskLevel: RiskLevel.I, contractualRiskPercent: 0, year: 2026 });
+
+    expect(r.ibc).toBe(43772625);
+    expect(r.ibcBound).toBe(IBCBound.CAP);
+    expect(r.health).toBeCloseTo(5471578.125);
+  });
+
+  it('applies the ARL rate of the selected risk level', () => {
+    const base = { contractValue: 5000000, contractualRiskPercent: 0, year: 2026 };
+
+    expect(calculate({ ...base, riskLevel: RiskLevel.III }).arl).toBeCloseTo(48720);
+    expect(calculate({ ...base, riskLevel: RiskLevel.V }).arl).toBeCloseTo(139200);
+  });
+
+  it('keeps the totals consistent with the line items', () => {
+    const r = calculate({ contractValue: 8750000, riskLevel: RiskLevel.II, contractualRiskPercent: 7.5, year: 2026 });
+
+    expect(r.totalSocialSecurity).toBeCloseTo(r.health + r.pension + r.arl + r.solidarityFund);
+    expect(r.totalProvisions).toBeCloseTo(r.provisions.reduce((sum, p) => sum + p.amount, 0) + r.contractualRiskProvision);
+    expect(r.netIncome).toBeCloseTo(r.contractValue - r.totalCosts);
+  });
+
+  it('returns a zero cost share for an empty contract', () => {
+    const r = calculate({ contractValue: 0, riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026 });
+
+    expect(r.ibcBound).toBeNull();
+    expect(r.netIncome).toBe(0);
+    expect(r.nonDisposablePercent).toBe(0);
+  });
+
+  it('leaves the ARL paid by the contracting entity out of the costs for risk IV and V', () => {
+    const base = { contractValue: 5000000, contractualRiskPercent: 0, year: 2026 };
+    const levelIII = calculate({ ...base, riskLevel: RiskLevel.III });
+    const levelV = calculate({ ...base, riskLevel: RiskLevel.V });
+
+    expect(levelIII.contributionPayers.arl).toBe(ContributionPayer.CONTRACTOR);
+    expect(levelIII.employerPaidContributions).toBe(0);
+
+    expect(levelV.contributionPayers.arl).toBe(ContributionPayer.CONTRACTING_ENTITY);
+    expect(levelV.contributionPayers.health).toBe(ContributionPayer.CONTRACTOR);
+    expect(levelV.employerPaidContributions).toBeCloseTo(levelV.arl);
+    expect(levelV.totalSocialSecurity).toBeCloseTo(levelV.health + levelV.pension + levelV.solidarityFund);
+    expect(levelV.netIncome).toBeCloseTo(5000000 - levelV.totalCosts);
+    expect(levelV.netIncome).toBeGreaterThan(levelIII.netIncome);
+  });
+
+  it('adds no solidarity fund below 4 SMMLV of IBC', () => {
+    const r = calculate({ contractValue: 17000000, riskLevel: RiskLevel.I, contractualRiskPercent: 0, year: 2026 });
+
+    expect(r.solidarityFundRate).toBe(0);
+    expect(r.solidarityFund).toBe(0);
+  });
+
+  it('charges the graduated solidarity fund by SMMLV band', () => {
+    const base = { riskLevel: RiskLevel.I, contractualRiskPercent: 0, year: 2026 };
+    const fourSmmlv = calculate({ ...base, contractValue: 17509050 });
+    const band17 = calculate({ ...base, contractValue: 75000000 });
+    const capped = calculate({ ...base, contractValue: 200000000 });
+
+    expect(fourSmmlv.solidarityFundRate).toBe(0.01);
+    expect(fourSmmlv.solidarityFund).toBeCloseTo(70036.2);
+    expect(band17.solidarityFundRate).toBe(0.014);
+    expect(band17.solidarityFund).toBeCloseTo(420000);
+    expect(capped.solidarityFundRate).toBe(0.02);
+    expect(capped.solidarityFund).toBeCloseTo(875452.5);
+    expect(capped.totalSocialSecurity).toBeCloseTo(
+      capped.health + capped.pension + capped.arl + capped.solidarityFund
+    );
+  });
+
+  it('lowers the expected deposit by the withholding without touching the net income', () => {
+    const input = { contractValue: 10000000, riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026 };
+    const without = calculate(input);
+    const withTable = calculate({ ...input, withholdingMethod: WithholdingMethod.ART_383 });
+
+    expect(without.withholding).toBe(0);
+    expect(without.expectedDeposit).toBe(10000000);
+    expect(withTable.withholding).toBe(314000);
+    expect(withTable.expectedDeposit).toBe(9686000);
+    expect(withTable.netIncome).toBeCloseTo(without.netIncome);
+  });
+
+  it('subtracts declared costs before applying the 40% rule', () => {
+    const r = calculate({
+      contractValue: 10000000,
+      riskLevel: RiskLevel.I,
+      contractualRiskPercent: 0,
+      year: 2026,
+      costMode: CostMode.DECLARED,
+      declaredCosts: 4000000
+    });
+
+    expect(r.deductibleCosts).toBe(4000000);
+    expect(r.ibc).toBeCloseTo(2400000);
+    expect(r.health).toBeCloseTo(300000);
+    expect(r.netIncome).toBeCloseTo(r.contractValue - r.deductibleCosts - r.totalSocialSecurity - r.totalProvisions);
+  });
+
+  it('never deducts more than the billed amount', () => {
+    const r = calculate({
+      contractValue: 3000000,
+      riskLevel: RiskLevel.I,
+      contractualRiskPercent: 0,
+      year: 2026,
+      costMode: CostMode.DECLARED,
+      declaredCosts: 9000000
+    });
+
+    expect(r.deductibleCosts).toBe(3000000);
+    expect(r.ibc).toBe(1750905);
+    expect(r.ibcBound).toBe(IBCBound.FLOOR);
+  });
+
+  it('uses the UGPP presumptive rate of the CIIU activity', () => {
+    const input = {
+      contractValue: 10000000,
+      riskLevel: RiskLevel.I,
+      contractualRiskPercent: 0,
+      year: 2026,
+      costMode: CostMode.PRESUMPTIVE
+    };
+
+    expect(calculate({ ...input, presumptiveCostActivity: '6201' }).ibc).toBeCloseTo(2880000);
+    expect(() => calculate({ ...input, presumptiveCostActivity: '0000' })).toThrow('0000');
+  });
+
+  it('uses the parameter set of the selected year', () => {
+    const input = { contractValue: 3200000, riskLevel: RiskLevel.I, contractualRiskPercent: 10 };
+    const r2025 = calculate({ ...input, year: 2025 });
+    const r2026 = calculate({ ...input, year: 2026 });
+
+    expect(r2025.ibc).toBe(1423500);
+    expect(r2025.parametersVersion).toBe('2025.1.0');
+    expect(r2026.ibc).toBe(1750905);
+    expect(r2026.parametersVersion).toBe('2026.1.0');
+  });
+
+  it('prorates the IBC bounds by the days worked in a partial month', () => {
+    const base = { riskLevel: RiskLevel.I, contractualRiskPercent: 0, year: 2026, daysWorked: 15 };
+    const floored = calculate({ ...base, contractValue: 1600000 });
+    const capped = calculate({ ...base, contractValue: 200000000 });
+
+    expect(floored.daysWorked).toBe(15);
+    expect(floored.ibc).toBeCloseTo(875452.5);
+    expect(floored.ibcBound).toBe(IBCBound.FLOOR);
+    expect(floored.health).toBeCloseTo(109431.5625);
+    expect(capped.ibc).toBeCloseTo(21886312.5);
+    expect(capped.ibcBound).toBe(IBCBound.CAP);
+    expect(calculate({ ...base, contractValue: 1600000, daysWorked: 30 }).ibc).toBe(1750905);
+  });
+
+  it('picks the solidarity fund band from the full-month equivalent IBC', () => {
+    const r = calculate({ contractValue: 8754525, riskLevel: RiskLevel.I, contractualRiskPercent: 0, year: 2026, daysWorked: 15 });
+
+    expect(r.solidarityFundRate).toBe(0.01);
+    expect(r.solidarityFund).toBeCloseTo(35018.1);
+  });
+
+  it('prorates fixed provisions but not percentages of the billed value', () => {
+    const r = calculate({
+      contractValue: 2000000,
+      riskLevel: RiskLevel.I,
+      contractualRiskPercent: 10,
+      year: 2026,
+      daysWorked: 12,
+      provisionBuckets: [
+        { id: 'fixed', name: 'Fijo', mode: ProvisionMode.FIXED, value: 300000, enabled: true },
+        { id: 'rate', name: 'Tasa', mode: ProvisionMode.PERCENT, value: 5, enabled: true }
+      ]
+    });
+
+    expect(r.provisions[0].amount).toBeCloseTo(120000);
+    expect(r.provisions[1].amount).toBeCloseTo(100000);
+    expect(r.contractualRiskProvision).toBeCloseTo(200000);
+  });
+
+  it('rejects a year without parameters', () => {
+    expect(() => calculate({ contractValue: 3200000, riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 1999 }))
+      .toThrow('1999');
+  });
+});
+
+describe('calculatePortfolio', () => {
+  const shared = { contractualRiskPercent: 10, year: 2026 };
+
+  it('matches calculate for a single contract', () => {
+    const contract = { contractValue: 8750000, riskLevel: RiskLevel.II };
+    const portfolio = calculatePortfolio({ ...shared, contracts: [contract] });
+
+    expect(portfolio.consolidated).toEqual(calculate({ ...shared, ...contract }));
+    expect(portfolio.contracts[0]).toEqual(portfolio.consolidated);
+  });
+
+  it('allocates the consolidated IBC and charges ARL at each contract risk class', () => {
+    const r = calculatePortfolio({
+      ...shared,
+      contracts: [
+        { contractValue: 5000000, riskLevel: RiskLevel.I },
+        { contractValue: 10000000, riskLevel: RiskLevel.III }
+      ]
+    });
+
+    expect(r.consolidated.ibc).toBeCloseTo(6000000);
+    expect(r.contracts[0].ibc).toBeCloseTo(2000000);
+    expect(r.contracts[1].ibc).toBeCloseTo(4000000);
+    expect(r.contracts[0].arl).toBeCloseTo(10440);
+    expect(r.contracts[1].arl).toBeCloseTo(97440);
+    expect(r.consolidated.arl).toBeCloseTo(107880);
+    expect(r.consolidated.health).toBeCloseTo(750000);
+    expect(r.consolidated.netIncome).toBeCloseTo(r.contracts[0].netIncome + r.contracts[1].netIncome);
+  });
+
+  it('applies the 25 SMMLV cap to the sum of all contracts', () => {
+    const r = calculatePortfolio({
+      ...shared,
+      contracts: [
+        { contractValue: 60000000, riskLevel: RiskLevel.I },
+        { contractValue: 60000000, riskLevel: RiskLevel.I }
+      ]
+    });
+
+    expect(r.consolidated.ibc).toBe(43772625);
+    expect(r.consolidated.ibcBound).toBe(IBCBound.CAP);
+    expect(r.contracts[0].ibc).toBeCloseTo(21886312.5);
+    expect(r.consolidated.solidarityFundRate).toBe(0.02);
+  });
+
+  it('applies the 1 SMMLV floor once for the whole portfolio', () => {
+    const r = calculatePortfolio({
+      ...shared,
+      contracts: [
+        { contractValue: 2000000, riskLevel: RiskLevel.I },
+        { contractValue: 2000000, riskLevel: RiskLevel.I }
+      ]
+    });
+
+    expect(r.consolidated.ibc).toBe(1750905);
+    expect(r.consolidated.ibcBound).toBe(IBCBound.FLOOR);
+    expect(r.contracts[0].ibc).toBeCloseTo(875452.5);
+  });
+
+  it('attributes the ARL to the contracting entity only per contract', () => {
+    const r = calculatePortfolio({
+      ...shared,
+      contracts: [
+        { contractValue: 5000000, riskLevel: RiskLevel.I },
+        { contractValue: 5000000, riskLevel: RiskLevel.V }
+      ]
+    });
+
+    expect(r.contracts[1].contributionPayers.arl).toBe(ContributionPayer.CONTRACTING_ENTITY);
+    expect(r.consolidated.contributionPayers.arl).toBe(ContributionPayer.CONTRACTOR);
+    expect(r.consolidated.employerPaidContributions).toBeCloseTo(r.contracts[1].arl);
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  CalculationInput,
+  CalculationResults,
+  Contribution,
+  ContributionPayer,
+  ContractInput,
+  CostMode,
+  FiscalParameters,
+  IBCBound,
+  PortfolioInput,
+  PortfolioResults,
+  WithholdingMethod
+} from '../types';
+import {
+  IBC_PERCENTAGE,
+  IBC_MIN_SMMLV,
+  IBC_MAX_SMMLV,
+  FULL_MONTH_DAYS,
+  FISCAL_PARAMETERS,
+  PRESUMPTIVE_COST_ACTIVITIES,
+  EMPLOYER_PAID_ARL_LEVELS,
+  MIN_CONTRACTUAL_RISK_PERCENT,
+  MAX_CONTRACTUAL_RISK_PERCENT
+} from '../constants';
+import { estimateWithholding } from './withholding';
+import { calculateProvisions, getDefaultProvisionBuckets, sumProvisions } from './provisions';
+import { isForeignCurrency } from './currency';
+
+const CONTRIBUTIONS: Contribution[] = ['health', 'pension', 'arl', 'solidarityFund'];
+
+export const getFiscalParameters = (year: number): FiscalParameters => {
+  const parameters = FISCAL_PARAMETERS[year];
+  if (!parameters) {
+    throw new Error(`No hay parámetros de cálculo para el año ${year}`);
+  }
+  return parameters;
+};
+
+export const clampContractualRiskPercent = (val: number): number => {
+  if (isNaN(val)) return MIN_CONTRACTUAL_RISK_PERCENT;
+  return Math.min(Math.max(val, MIN_CONTRACTUAL_RISK_PERCENT), MAX_CONTRACTUAL_RISK_PERCENT);
+};
+
+// Days contributed in the period, as whole days between 1 and a full month.
+export const clampDaysWorked = (val: number): number => {
+  if (isNaN(val)) return FULL_MONTH_DAYS;
+  return Math.min(Math.max(Math.round(val), 1), FULL_MONTH_DAYS);
+};
+
+// Rate of the highest band the IBC reaches, or 0 below the first band.
+export const getSolidarityFundRate = (ibc: number, parameters: FiscalParameters): number => {
+  const ibcInSmmlv = ibc / parameters.smmlv;
+  return parameters.solidarityFundBands.reduce(
+    (rate, band) => (ibcInSmmlv >= band.minSmmlv ? band.rate : rate),
+    0
+  );
+};
+
+// Costs the UGPP accepts before the 40% rule, never above the billed amount.
+export const getDeductibleCosts = (input: ContractInput): number => {
+  const { contractValue } = input;
+  if (contractValue <= 0) return 0;
+
+  if (input.costMode === CostMode.DECLARED) {
+    return Math.min(Math.max(input.declaredCosts ?? 0, 0), contractValue);
+  }
+
+  if (input.costMode === CostMode.PRESUMPTIVE) {
+    const activity = PRESUMPTIVE_COST_ACTIVITIES.find((a) => a.ciiu === input.presumptiveCostActivity);
+    if (!activity) {
+      throw new Error(`Actividad CIIU sin costos presuntos: ${input.presumptiveCostActivity}`);
+    }
+    return contractValue * activity.rate;
+  }
+
+  return 0;
+};
+
+const sumBy = (items: CalculationResults[], pick: (r: CalculationResults) => number) =>
+  items.reduce((sum, item) => sum + pick(item), 0);
+
+// Pure calculation engine shared by the UI, the report and any script.
+// Simultaneous contracts share one IBC: the 40% bases are added up, clamped to
+// [1, 25] SMMLV as a whole and then allocated back to each contract by its
+// share of the unclamped base. ARL is charged on each contract's allocated IBC
+// at that contract's own risk class.
+// For a partial month the contract values are what was billed for the days
+// worked; the IBC bounds and the fixed provisions are prorated by those days.
+export const calculatePortfolio = (input: PortfolioInput): PortfolioResults => {
+  const { contracts, contractualRiskPercent, year } = input;
+  const withholdingMethod = input.withholdingMethod ?? WithholdingMethod.NONE;
+  const parameters = getFiscalParameters(year);
+  const provisionBuckets = input.provisionBuckets ?? getDefaultProvisionBuckets(parameters);
+  const daysWorked = clampDaysWorked(input.daysWorked ?? FULL_MONTH_DAYS);
+  const monthShare = daysWorked / FULL_MONTH_DAYS;
+
+  const drafts = contracts.map((contract) => {
+    const deductibleCosts = getDeductibleCosts(contract);
+    return { contract, deductibleCosts, rawIbc: (contract.contractValue - deductibleCosts) * IBC_PERCENTAGE };
+  });
+  const totalValue = drafts.reduce((sum, d) => sum + d.contract.contractValue, 0);
+  const totalRawIbc = drafts.reduce((sum, d) => sum + d.rawIbc, 0);
+
+  // A portfolio with no billing has no base at all.
+  const ibcFloor = parameters.smmlv * IBC_MIN_SMMLV * monthShare;
+  const ibcCap = parameters.smmlv * IBC_MAX_SMMLV * monthShare;
+  let ibc = totalRawIbc;
+  let ibcBound: IBCBound | null = null;
+  if (totalValue > 0 && totalRawIbc < ibcFloor) {
+    ibc = ibcFloor;
+    ibcBound = IBCBound.FLOOR;
+  } else if (totalRawIbc > ibcCap) {
+    ibc = ibcCap;
+    ibcBound = IBCBound.CAP;
+  }
+
+  // The solidarity fund band depends on the consolidated IBC, not on each contract,
+  // taken back to a full month so a partial one falls in the same band.
+  const solidarityFundRate = getSolidarityFundRate(ibc / monthShare, parameters);
+
+  const contractResults = drafts.map(({ contract, deductibleCosts, rawIbc }): CalculationResults => {
+    const { contractValue, riskLevel } = contract;
+    const share = totalRawIbc > 0
+      ? rawIbc / totalRawIbc
+      : totalValue > 0 ? contractValue / totalValue : 0;
+    const contractIbc = ibc * share;
+
+    const health = contractIbc * parameters.healthRate;
+    const pension = contractIbc * parameters.pensionRate;
+    const arl = contractIbc * parameters.arlRates[riskLevel];
+    const solidarityFund = contractIbc * solidarityFundRate;
+
+    const provisions = calculateProvisions(
+      provisionBuckets,
+      contractValue,
+      totalValue > 0 ? (contractValue / totalValue) * monthShare : 0,
+      isForeignCurrency(contract.currency)
+    );
+
+    const contractualRiskRate = contractualRiskPercent / 100;
+    const contractualRiskProvision = contractValue * contractualRiskRate;
+
+    const contributions: Record<Contribution, number> = { health, pension, arl, solidarityFund };
+    const contributionPayers: Record<Contribution, ContributionPayer> = {
+      health: ContributionPayer.CONTRACTOR,
+      pension: ContributionPayer.CONTRACTOR,
+      arl: EMPLOYER_PAID_ARL_LEVELS.includes(riskLevel)
+        ? ContributionPayer.CONTRACTING_ENTITY
+        : ContributionPayer.CONTRACTOR,
+      solidarityFund: ContributionPayer.CONTRACTOR,
+    };
+
+    // Only what the contractor pays out of pocket counts against the net income.
+    const sumPaidBy = (payer: ContributionPayer) => CONTRIBUTIONS
+      .filter((key) => contributionPayers[key] === payer)
+      .reduce((sum, key) => sum + contributions[key], 0);
+    const totalSocialSecurity = sumPaidBy(ContributionPayer.CONTRACTOR);
+    const employerPaidContributions = sumPaidBy(ContributionPayer.CONTRACTING_ENTITY);
+
+    const totalProvisions = provisions.reduce((sum, p) => sum + p.amount, 0) + contractualRiskProvision;
+    const totalCosts = deductibleCosts + totalSocialSecurity + totalProvisions;
+    const netIncome = contractValue - totalCosts;
+
+    // Withholding is an advance on income tax, so it lowers the deposit but not the net income.
+    // Each contracting entity withholds on its own payment.
+    const { base: withholdingBase, withholding } = estimateWithholding(
+      withholdingMethod,
+      contractValue,
+      totalSocialSecurity,
+      parameters
+    );
+    const expectedDeposit = contractValue - withholding;
+
+    const nonDisposablePercent = contractValue > 0 ? (totalCosts / contractValue) * 100 : 0;
+
+    return {
+      year,
+      parametersVersion: parameters.version,
+      contractValue,
+      deductibleCosts,
+      daysWorked,
+      ibc: contractIbc,
+      ibcBound,
+      health,
+      pension,
+      arl,
+      solidarityFund,
+      solidarityFundRate,
+      contributionPayers,
+      employerPaidContributions,
+      provisions,
+      contractualRiskProvision,
+      withholdingMethod,
+      withholdingBase,
+      withholding,
+      expectedDeposit,
+      totalSocialSecurity,
+      totalProvisions,
+      totalCosts,
+      netIncome,
+      nonDisposablePercent
+    };
+  });
+
+  // A contribution is attributed to the contracting entity only when every contract agrees.
+  const consolidatedPayers = CONTRIBUTIONS.reduce((payers, key) => {
+    const allByEntity = contractResults.length > 0 && contractResults.every(
+      (r) => r.contributionPayers[key] === ContributionPayer.CONTRACTING_ENTITY
+    );
+    payers[key] = allByEntity ? ContributionPayer.CONTRACTING_ENTITY : ContributionPayer.CONTRACTOR;
+    return payers;
+  }, {} as Record<Contribution, ContributionPayer>);
+
+  const totalCosts = sumBy(contractResults, (r) => r.totalCosts);
+
+  const consolidated: CalculationResults = {
+    year,
+    parametersVersion: parameters.version,
+    contractValue: totalValue,
+    deductibleCosts: sumBy(contractResults, (r) => r.deductibleCosts),
+    daysWorked,
+    ibc,
+    ibcBound,
+    health: sumBy(contractResults, (r) => r.health),
+    pension: sumBy(contractResults, (r) => r.pension),
+    arl: sumBy(contractResults, (r) => r.arl),
+    solidarityFund: sumBy(contractResults, (r) => r.solidarityFund),
+    solidarityFundRate,
+    contributionPayers: consolidatedPayers,
+    employerPaidContributions: sumBy(contractResults, (r) => r.employerPaidContributions),
+    provisions: sumProvisions(contractResults.map((r) => r.provisions)),
+    contractualRiskProvision: sumBy(contractResults, (r) => r.contractualRiskProvision),
+    withholdingMethod,
+    withholdingBase: sumBy(contractResults, (r) => r.withholdingBase),
+    withholding: sumBy(contractResults, (r) => r.withholding),
+    expectedDeposit: sumBy(contractResults, (r) => r.expectedDeposit),
+    totalSocialSecurity: sumBy(contractResults, (r) => r.totalSocialSecurity),
+    totalProvisions: sumBy(contractResults, (r) => r.totalProvisions),
+    totalCosts,
+    netIncome: sumBy(contractResults, (r) => r.netIncome),
+    nonDisposablePercent: totalValue > 0 ? (totalCosts / totalValue) * 100 : 0
+  };
+
+  return { consolidated, contracts: contractResults };
+};
+
+// Single-contract shortcut over the portfolio engine.
+export const calculate = (input: CalculationInput): CalculationResults => {
+  const { contractualRiskPercent, year, withholdingMethod, provisionBuckets, daysWorked, ...contract } = input;
+  return calculatePortfolio({
+    contracts: [contract],
+    contractualRiskPercent,
+    year,
+    withholdingMethod,
+    provisionBuckets,
+    daysWorked
+  }).consolidated;
+};
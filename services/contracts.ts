@@ -0,0 +1,27 @@
+import { CalculatorState, ContractEntry, CostMode, RiskLevel, WithholdingMethod } from '../types';
+import { DEFAULT_YEAR, FULL_MONTH_DAYS, PRESUMPTIVE_COST_ACTIVITIES } from '../constants';
+
+export const DEFAULT_CONTRACT_VALUE = 3200000;
+export const DEFAULT_CONTRACTUAL_RISK_PERCENT = 10.0;
+export const DEFAULT_DESIRED_NET_INCOME = 2800000;
+
+export const createContractEntry = (index: number, contractValue = 0, label = `Contrato ${index}`): ContractEntry => ({
+  id: Math.random().toString(36).slice(2, 10),
+  label,
+  contractValue,
+  riskLevel: RiskLevel.I,
+  costMode: CostMode.NONE,
+  declaredCosts: 0,
+  presumptiveCostActivity: PRESUMPTIVE_COST_ACTIVITIES[0].ciiu
+});
+
+export const createDefaultCalculatorState = (): CalculatorState => ({
+  contracts: [createContractEntry(1, DEFAULT_CONTRACT_VALUE)],
+  contractualRiskPercent: DEFAULT_CONTRACTUAL_RISK_PERCENT,
+  year: DEFAULT_YEAR,
+  withholdingMethod: WithholdingMethod.NONE,
+  desiredNetIncome: DEFAULT_DESIRED_NET_INCOME,
+  daysWorked: FULL_MONTH_DAYS,
+  exchangeRates: {},
+  fxReservePercent: 0
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FX_RESERVE_BUCKET_ID,
+  applyExchangeRates,
+  convertToCop,
+  getDisplayCurrency,
+  withFxReserve
+} from './currency';
+import { calculatePortfolio } from './calculator';
+import { ContractEntry, Currency, RiskLevel } from '../types';
+
+const usd: ContractEntry = { id: 'a', label: 'Cliente EE. UU.', contractValue: 0, riskLevel: RiskLevel.I, currency: Currency.USD, foreignValue: 2000 };
+const cop: ContractEntry = { id: 'b', label: 'Cliente local', contractValue: 3000000, riskLevel: RiskLevel.I };
+
+describe('foreign currency contracts', () => {
+  it('converts the foreign value to pesos at the TRM of its currency', () => {
+    expect(convertToCop(2000, 4100.5)).toBe(8201000);
+    expect(convertToCop(2000, undefined)).toBe(0);
+
+    const [converted, local] = applyExchangeRates([usd, cop], { [Currency.USD]: 4000 });
+    expect(converted.contractValue).toBe(8000000);
+    expect(local).toBe(cop);
+    expect(applyExchangeRates([usd], { [Currency.EUR]: 4500 })[0].contractValue).toBe(0);
+  });
+
+  it('shows the active contract currency, or the first foreign one', () => {
+    expect(getDisplayCurrency([cop, usd], 1)).toBe(Currency.USD);
+    expect(getDisplayCurrency([cop, usd], 0)).toBe(Currency.USD);
+    expect(getDisplayCurrency([cop, { ...usd, currency: Currency.EUR }, usd], 2)).toBe(Currency.USD);
+    expect(getDisplayCurrency([cop], 0)).toBeNull();
+  });
+
+  it('sets the FX reserve aside only on what is billed abroad', () => {
+    const contracts = applyExchangeRates([usd, cop], { [Currency.USD]: 4000 });
+    const portfolio = calculatePortfolio({
+      contracts,
+      contractualRiskPercent: 0,
+      year: 2026,
+      provisionBuckets: withFxReserve([], 5)
+    });
+    const reserveOf = (i: number) => portfolio.contracts[i].provisions.find((p) => p.id === FX_RESERVE_BUCKET_ID)?.amount ?? 0;
+
+    expect(reserveOf(0)).toBe(400000);
+    expect(reserveOf(1)).toBe(0);
+    expect(portfolio.consolidated.totalProvisions).toBe(400000);
+    expect(withFxReserve([], 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { ContractEntry, Currency, ExchangeRates, ForeignCurrency, ProvisionBucket, ProvisionMode } from '../types';
+import { MAX_FX_RESERVE_PERCENT } from '../constants';
+
+export const FOREIGN_CURRENCIES: ForeignCurrency[] = [Currency.USD, Currency.EUR];
+export const FX_RESERVE_BUCKET_ID = 'fxReserve';
+
+export const isForeignCurrency = (currency?: Currency): currency is ForeignCurrency =>
+  currency !== undefined && currency !== Currency.COP;
+
+export const clampFxReservePercent = (val: number): number => {
+  if (isNaN(val)) return 0;
+  return Math.min(Math.max(val, 0), MAX_FX_RESERVE_PERCENT);
+};
+
+// A contract in a currency without a TRM is worth nothing in pesos until the rate is entered.
+export const convertToCop = (foreignValue: number, rate: number | undefined): number =>
+  rate && rate > 0 ? Math.round(foreignValue * rate) : 0;
+
+// Keeps the peso value of every foreign contract in line with its currency's TRM.
+export const applyExchangeRates = (contracts: ContractEntry[], rates: ExchangeRates): ContractEntry[] =>
+  contracts.map((contract) => (isForeignCurrency(contract.currency)
+    ? { ...contract, contractValue: convertToCop(contract.foreignValue ?? 0, rates[contract.currency]) }
+    : contract));
+
+// Currency used for the second amount next to the pesos: the edited contract's, or the
+// first foreign one in the portfolio. Null when everything is billed in pesos.
+export const getDisplayCurrency = (contracts: ContractEntry[], activeIndex: number): ForeignCurrency | null => {
+  const active = contracts[activeIndex]?.currency;
+  if (isForeignCurrency(active)) return active;
+  return contracts.map((contract) => contract.currency).find(isForeignCurrency) ?? null;
+};
+
+// The FX reserve is one more provision, set aside only on what is billed abroad.
+export const createFxReserveBucket = (percent: number, name = 'Reserva cambiaria'): ProvisionBucket => ({
+  id: FX_RESERVE_BUCKET_ID,
+  name,
+  mode: ProvisionMode.PERCENT,
+  value: percent,
+  enabled: true,
+  foreignCurrencyOnly: true
+});
+
+export const withFxReserve = (buckets: ProvisionBucket[], percent = 0, name?: string): ProvisionBucket[] =>
+  percent > 0 ? [...buckets, createFxReserveBucket(percent, name)] : buckets;
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getDaysWorked } from './daysWorked';
+
+describe('getDaysWorked', () => {
+  it('counts both ends of a partial month', () => {
+    expect(getDaysWorked('2026-03-12', '2026-03-31')).toBe(19);
+    expect(getDaysWorked('2026-03-01', '2026-03-15')).toBe(15);
+    expect(getDaysWorked('2026-03-10', '2026-03-10')).toBe(1);
+  });
+
+  it('uses the 30-day calendar at the end of the month', () => {
+    expect(getDaysWorked('2026-01-01', '2026-01-31')).toBe(30);
+    expect(getDaysWorked('2026-02-01', '2026-02-28')).toBe(30);
+    expect(getDaysWorked('2026-02-15', '2026-02-28')).toBe(16);
+    expect(getDaysWorked('2028-02-01', '2028-02-28')).toBe(28);
+    expect(getDaysWorked('2026-01-31', '2026-01-31')).toBe(1);
+  });
+
+  it('rejects invalid dates, reversed ranges and ranges across months', () => {
+    expect(getDaysWorked('2026-02-30', '2026-02-28')).toBeNull();
+    expect(getDaysWorked('2026-03-20', '2026-03-12')).toBeNull();
+    expect(getDaysWorked('2026-03-20', '2026-04-05')).toBeNull();
+    expect(getDaysWorked('', '2026-03-05')).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { FULL_MONTH_DAYS } from '../constants';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseIsoDate = (val: string): Date | null => {
+  if (!ISO_DATE_PATTERN.test(val)) return null;
+  const [year, month, day] = val.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+const isLastDayOfMonth = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)).getUTCDate() === 1;
+
+// Days contributed between two dates of the same PILA period, both included, on the
+// 30-day calendar: the 31st counts as the 30th and a period ending on the last day of
+// February runs to day 30. Dates outside one month, or in the wrong order, give null.
+export const getDaysWorked = (startDate: string, endDate: string): number | null => {
+  const start = parseIsoDate(startDate);
+  const end = parseIsoDate(endDate);
+  if (!start || !end || end < start) return null;
+  if (start.getUTCFullYear() !== end.getUTCFullYear() || start.getUTCMonth() !== end.getUTCMonth()) return null;
+
+  const firstDay = Math.min(start.getUTCDate(), FULL_MONTH_DAYS);
+  const lastDay = isLastDayOfMonth(end) ? FULL_MONTH_DAYS : end.getUTCDate();
+  return Math.max(lastDay - firstDay + 1, 1);
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEmployeeCompensation,
+  findEquivalentContractValue,
+  findEquivalentSalary,
+  getServiceNetValue
+} from './employment';
+import { calculate, calculatePortfolio, getFiscalParameters } from './calculator';
+import { RiskLevel } from '../types';
+
+const parameters = getFiscalParameters(2026);
+const profile = { riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026 };
+
+describe('calculateEmployeeCompensation', () => {
+  it('adds the transport allowance and the benefits of a minimum wage job', () => {
+    const c = calculateEmployeeCompensation(1750905, parameters);
+
+    expect(c.transportAllowance).toBe(249095);
+    expect(c.health).toBeCloseTo(70036.2);
+    expect(c.pension).toBeCloseTo(70036.2);
+    expect(c.solidarityFund).toBe(0);
+    expect(c.prima).toBeCloseTo(166666.6667);
+    expect(c.severance).toBeCloseTo(166666.6667);
+    expect(c.severanceInterest).toBeCloseTo(20000);
+    expect(c.vacation).toBeCloseTo(72954.375);
+    expect(c.netValue).toBeCloseTo(2286215.3083);
+  });
+
+  it('drops the transport allowance above 2 SMMLV and charges the solidarity fund from 4', () => {
+    expect(calculateEmployeeCompensation(3501810, parameters).transportAllowance).toBe(249095);
+    expect(calculateEmployeeCompensation(3501811, parameters).transportAllowance).toBe(0);
+    expect(calculateEmployeeCompensation(7003620, parameters).solidarityFund).toBeCloseTo(70036.2);
+  });
+});
+
+describe('findEquivalentSalary', () => {
+  it('finds the salary worth the same as a service contract', () => {
+    const netValue = getServiceNetValue(calculate({ ...profile, contractValue: 5000000 }));
+    const c = findEquivalentSalary(netValue, parameters);
+
+    expect(netValue).toBeCloseTo(4419560);
+    expect(c?.salary).toBe(3882484);
+    expect(c!.netValue).toBeGreaterThanOrEqual(netValue);
+    expect(calculateEmployeeCompensation(3882483, parameters).netValue).toBeLessThan(netValue);
+  });
+
+  it('never goes below the minimum wage', () => {
+    expect(findEquivalentSalary(1000000, parameters)?.salary).toBe(1750905);
+  });
+
+  it('skips past the drop where the transport allowance ends', () => {
+    const netValue = calculateEmployeeCompensation(3501810, parameters).netValue + 1;
+    const c = findEquivalentSalary(netValue, parameters)!;
+
+    expect(c.salary).toBeGreaterThan(3501810);
+    expect(c.netValue).toBeGreaterThanOrEqual(netValue);
+    expect(calculateEmployeeCompensation(c.salary - 1, parameters).netValue).toBeLessThan(netValue);
+  });
+});
+
+describe('findEquivalentContractValue', () => {
+  it('turns a salary offer back into the service contract value', () => {
+    const solution = findEquivalentContractValue(3882484, profile);
+
+    expect(solution.requiredGross).toBeCloseTo(5000000, -1);
+    expect(getServiceNetValue(solution.results!)).toBeGreaterThanOrEqual(
+      calculateEmployeeCompensation(3882484, parameters).netValue
+    );
+  });
+
+  it('uses the same contract in both directions when there are several', () => {
+    const portfolio = calculatePortfolio({
+      contracts: [
+        { contractValue: 5000000, riskLevel: RiskLevel.I },
+        { contractValue: 3000000, riskLevel: RiskLevel.III }
+      ],
+      contractualRiskPercent: 10,
+      year: 2026
+    });
+    const salary = findEquivalentSalary(getServiceNetValue(portfolio.contracts[0]), parameters)!.salary;
+    const solution = findEquivalentContractValue(salary, profile);
+
+    expect(salary).toBe(3882484);
+    expect(solution.requiredGross).toBeCloseTo(portfolio.contracts[0].contractValue, -1);
+    expect(findEquivalentSalary(getServiceNetValue(portfolio.consolidated), parameters)!.salary).toBeGreaterThan(salary);
+  });
+});
@@ -0,0 +1,90 @@
+import { CalculationInput, CalculationResults, EmployeeCompensation, FiscalParameters, SolverResult } from '../types';
+import { IBC_MAX_SMMLV } from '../constants';
+import { getFiscalParameters, getSolidarityFundRate } from './calculator';
+import { solveContractValue } from './solver';
+
+// Employee share of the contributions (Ley 100/1993); the employer pays the rest.
+export const EMPLOYEE_HEALTH_RATE = 0.04;
+export const EMPLOYEE_PENSION_RATE = 0.04;
+// Ley 15/1959: only salaries up to 2 SMMLV receive the transport allowance.
+export const TRANSPORT_ALLOWANCE_MAX_SMMLV = 2;
+// Ley 52/1975: 12% a year on the cesantías balance.
+const SEVERANCE_INTEREST_RATE = 0.12;
+// CST Art. 186: 15 business days of paid vacation per year, i.e. half a salary.
+const VACATION_SALARY_SHARE = 0.5;
+const MONTHS_PER_YEAR = 12;
+
+// Upper end of the salary search, the same bound the contract solver uses.
+const MAX_SALARY_SMMLV = 1000;
+
+// What a contractor keeps out of the billed amount before setting anything aside:
+// the provisions are still their money, so they count as value here.
+export const getServiceNetValue = (results: CalculationResults): number =>
+  results.contractValue - results.deductibleCosts - results.totalSocialSecurity;
+
+// Prima and cesantías include the transport allowance; vacations are paid on the salary alone.
+export const calculateEmployeeCompensation = (salary: number, parameters: FiscalParameters): EmployeeCompensation => {
+  const transportAllowance = salary <= parameters.smmlv * TRANSPORT_ALLOWANCE_MAX_SMMLV ? parameters.transportAllowance : 0;
+  const contributionBase = Math.min(salary, parameters.smmlv * IBC_MAX_SMMLV);
+
+  const health = contributionBase * EMPLOYEE_HEALTH_RATE;
+  const pension = contributionBase * EMPLOYEE_PENSION_RATE;
+  const solidarityFund = contributionBase * getSolidarityFundRate(contributionBase, parameters);
+
+  const benefitBase = salary + transportAllowance;
+  const prima = benefitBase / MONTHS_PER_YEAR;
+  const severance = benefitBase / MONTHS_PER_YEAR;
+  const severanceInterest = severance * SEVERANCE_INTEREST_RATE;
+  const vacation = (salary * VACATION_SALARY_SHARE) / MONTHS_PER_YEAR;
+
+  const netValue = salary + transportAllowance - health - pension - solidarityFund
+    + prima + severance + severanceInterest + vacation;
+
+  return { salary, transportAllowance, health, pension, solidarityFund, prima, severance, severanceInterest, vacation, netValue };
+};
+
+// Smallest salary (in whole pesos, never below the minimum wage) whose monthly value
+// reaches `netValue`. The value drops where the transport allowance ends and at each
+// solidarity fund band, so the search runs segment by segment, where it only grows.
+export const findEquivalentSalary = (netValue: number, parameters: FiscalParameters): EmployeeCompensation | null => {
+  const { smmlv } = parameters;
+  const compensationAt = (salary: number) => calculateEmployeeCompensation(salary, parameters);
+  const segmentEnds = [
+    smmlv * TRANSPORT_ALLOWANCE_MAX_SMMLV,
+    ...parameters.solidarityFundBands.map((band) => smmlv * band.minSmmlv - 1),
+    smmlv * MAX_SALARY_SMMLV
+  ].sort((a, b) => a - b);
+
+  let start = smmlv;
+  for (const end of segmentEnds) {
+    if (end < start) continue;
+    if (compensationAt(end).netValue >= netValue) {
+      let lo = start;
+      let hi = end;
+      while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (compensationAt(mid).netValue >= netValue) {
+          hi = mid;
+        } else {
+          lo = mid + 1;
+        }
+      }
+      return compensationAt(hi);
+    }
+    start = end + 1;
+  }
+
+  return null;
+};
+
+// Service contract value with the same net value as a salary offer. Provisions and
+// contractual risk are left out, so the solver's net income is exactly the net value.
+export const findEquivalentContractValue = (
+  salary: number,
+  profile: Omit<CalculationInput, 'contractValue'>
+): SolverResult =>
+  solveContractValue(calculateEmployeeCompensation(salary, getFiscalParameters(profile.year)).netValue, {
+    ...profile,
+    contractualRiskPercent: 0,
+    provisionBuckets: []
+  });
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INVOICE_DETAILS_STORAGE_KEY,
+  buildInvoiceDocument,
+  createEmptyInvoiceDetails,
+  formatInvoiceNumber,
+  loadInvoiceDetails,
+  saveInvoiceDetails
+} from './invoice';
+import { buildPilaLines } from './pila';
+import { renderReport } from './report';
+import { calculatePortfolio, getFiscalParameters } from './calculator';
+import { numberToSpanishWords, pesosToSpanishWords } from '../utils/spanishWords';
+import { ContractEntry, Currency, InvoiceDetails, RiskLevel } from '../types';
+import { es } from '../i18n/es';
+
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const data = { ...initial };
+  return {
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, value: string) => { data[key] = value; }
+  };
+};
+
+const details: InvoiceDetails = {
+  contractor: { name: 'Ana María Gómez', idNumber: '1.020.304.050', contractNumber: 'CPS-2026-041' },
+  client: { name: 'Alcaldía de Medellín', nit: '890.905.211-1' },
+  city: 'Medellín',
+  concept: 'Honorarios por desarrollo de software',
+  bankAccount: '',
+  lastNumber: 6
+};
+
+const labels = {
+  ...es.invoice,
+  formatCurrency: (val: number, currency?: string) => `${currency ?? '$'} ${currency ? val.toFixed(2) : Math.round(val)}`,
+  formatExchangeRate: (rate: number) => rate.toFixed(2),
+  formatRate: (val: number) => `${(val * 100).toFixed(2)}%`,
+  formatDate: () => '18/10/2026',
+  formatPeriod: (period: string) => period,
+  formatPageNumber: (page: number, pageCount: number) => `${page}/${pageCount}`
+};
+
+const pilaLineFor = (contract: ContractEntry) => {
+  const portfolio = calculatePortfolio({ contracts: [contract], contractualRiskPercent: 10, year: 2026 });
+  return buildPilaLines([contract], portfolio.contracts, getFiscalParameters(2026), '2026-09')[0];
+};
+
+describe('Spanish amounts in words', () => {
+  it('writes whole numbers with the usual Spanish forms', () => {
+    expect(numberToSpanishWords(0)).toBe('cero');
+    expect(numberToSpanishWords(21)).toBe('veintiuno');
+    expect(numberToSpanishWords(100)).toBe('cien');
+    expect(numberToSpanishWords(115)).toBe('ciento quince');
+    expect(numberToSpanishWords(1000)).toBe('mil');
+    expect(numberToSpanishWords(21000)).toBe('veintiún mil');
+    expect(numberToSpanishWords(101000)).toBe('ciento un mil');
+    expect(numberToSpanishWords(1750905)).toBe('un millón setecientos cincuenta mil novecientos cinco');
+    expect(numberToSpanishWords(31000000)).toBe('treinta y un millones');
+    expect(numberToSpanishWords(1500000000)).toBe('mil quinientos millones');
+  });
+
+  it('adds the currency the way a cuenta de cobro states it', () => {
+    expect(pesosToSpanishWords(5000000)).toBe('CINCO MILLONES DE PESOS M/CTE');
+    expect(pesosToSpanishWords(1000000)).toBe('UN MILLÓN DE PESOS M/CTE');
+    expect(pesosToSpanishWords(3200000.4)).toBe('TRES MILLONES DOSCIENTOS MIL PESOS M/CTE');
+    expect(pesosToSpanishWords(1021)).toBe('MIL VEINTIÚN PESOS M/CTE');
+    expect(pesosToSpanishWords(1)).toBe('UN PESO M/CTE');
+  });
+});
+
+describe('invoice details storage', () => {
+  it('round-trips the saved details', () => {
+    const storage = memoryStorage();
+    saveInvoiceDetails(storage, details);
+    expect(loadInvoiceDetails(storage)).toEqual(details);
+  });
+
+  it('falls back to empty fields for missing or corrupted data', () => {
+    expect(loadInvoiceDetails(memoryStorage())).toEqual(createEmptyInvoiceDetails());
+    expect(loadInvoiceDetails(memoryStorage({ [INVOICE_DETAILS_STORAGE_KEY]: '{oops' }))).toEqual(createEmptyInvoiceDetails());
+    expect(loadInvoiceDetails(memoryStorage({
+      [INVOICE_DETAILS_STORAGE_KEY]: JSON.stringify({ client: { name: 'Cliente', nit: 9 }, lastNumber: -2 })
+    }))).toEqual({ ...createEmptyInvoiceDetails(), client: { name: 'Cliente', nit: '' } });
+  });
+});
+
+describe('buildInvoiceDocument', () => {
+  it('numbers the document and bills the amount in words with the PILA contributions', () => {
+    const contract: ContractEntry = { id: 'a', label: 'Contrato 1', contractValue: 5000000, riskLevel: RiskLevel.I };
+    const doc = buildInvoiceDocument({
+      details,
+      number: 7,
+      issuedAt: new Date(2026, 9, 18),
+      period: '2026-09',
+      contractValue: 5000000,
+      pilaLine: pilaLineFor(contract),
+      pilaNumber: '9412345678',
+      stamp: 'Parámetros 2026'
+    }, labels);
+    const [bill, socialSecurity, signature] = doc.sections;
+
+    expect(formatInvoiceNumber(7)).toBe('0007');
+    expect(doc.title).toBe('Cuenta de Cobro N.° 0007');
+    expect(doc.metadata).toEqual(['Medellín, 18/10/2026']);
+    expect(bill.table?.body).toContainEqual(['La suma de', '$ 5000000']);
+    expect(bill.table?.body).toContainEqual(['Valor en letras', 'CINCO MILLONES DE PESOS M/CTE']);
+    expect(bill.table?.body.map(([label]) => label)).not.toContain('Consignar en');
+    expect(socialSecurity.table?.body).toEqual([
+      ['Salud (12.50%)', '$ 2000000', '$ 250000'],
+      ['Pensión (16.00%)', '$ 2000000', '$ 320000'],
+      ['ARL clase 1 (0.52%)', '$ 2000000', '$ 10500'],
+      ['Total pagado por el contratista', '', '$ 580500']
+    ]);
+    expect(socialSecurity.paragraphs).toContain('Planilla PILA N.° 9412345678.');
+    expect(signature.paragraphs?.slice(1)).toEqual(['Ana María Gómez', 'C.C. 1.020.304.050']);
+    expect(renderReport(doc).getNumberOfPages()).toBe(1);
+  });
+
+  it('leaves the ARL paid by the contracting entity out of the total', () => {
+    const contract: ContractEntry = { id: 'a', label: 'Contrato 1', contractValue: 5000000, riskLevel: RiskLevel.V };
+    const doc = buildInvoiceDocument({
+      details: createEmptyInvoiceDetails(),
+      number: 1,
+      issuedAt: new Date(2026, 9, 18),
+      period: '2026-09',
+      contractValue: 5000000,
+      pilaLine: pilaLineFor(contract),
+      pilaNumber: '',
+      stamp: ''
+    }, labels);
+    const body = doc.sections[1].table!.body;
+
+    expect(body[2][0]).toBe('ARL clase 5 (6.96%) - a cargo del contratante');
+    expect(body[3]).toEqual(['Total pagado por el contratista', '', '$ 570000']);
+    expect(doc.metadata).toEqual(['18/10/2026']);
+    expect(doc.sections[0].table?.body.map(([label]) => label)).toEqual(['Periodo', 'Días cotizados', 'La suma de', 'Valor en letras']);
+  });
+
+  it('records the foreign amount and the TRM for contracts billed abroad', () => {
+    const contract: ContractEntry = { id: 'a', label: 'Contrato 1', contractValue: 8200000, riskLevel: RiskLevel.I };
+    const doc = buildInvoiceDocument({
+      details,
+      number: 8,
+      issuedAt: new Date(2026, 9, 18),
+      period: '2026-09',
+      contractValue: 8200000,
+      pilaLine: pilaLineFor(contract),
+      pilaNumber: '',
+      stamp: '',
+      foreignAmount: { currency: Currency.USD, value: 2000, exchangeRate: 4100 }
+    }, labels);
+
+    expect(doc.sections[0].table?.body).toContainEqual(['Valor en USD', 'USD 2000.00']);
+    expect(doc.sections[0].table?.body).toContainEqual(['TRM aplicada', '4100.00']);
+    expect(doc.sections[0].table?.body).toContainEqual(['Valor en letras', 'OCHO MILLONES DOSCIENTOS MIL PESOS M/CTE']);
+  });
+});
@@ -0,0 +1,188 @@
+import { ContributionPayer, ForeignCurrency, InvoiceDetails, PilaLine, ReportDocument, ReportSection } from '../types';
+import { pesosToSpanishWords } from '../utils/spanishWords';
+
+export const INVOICE_DETAILS_STORAGE_KEY = 'netoreal.invoiceDetails.v1';
+const INVOICE_NUMBER_DIGITS = 4;
+const SIGNATURE_LINE = '______________________________';
+
+type InvoiceStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface InvoiceInput {
+  details: InvoiceDetails;
+  number: number;
+  issuedAt: Date;
+  // Billed month as YYYY-MM.
+  period: string;
+  contractValue: number;
+  // Contributions of the contract as paid in the PILA for the period.
+  pilaLine: PilaLine;
+  pilaNumber: string;
+  stamp: string;
+  // Set when the contract is billed in a foreign currency, so the TRM is on record.
+  foreignAmount?: { currency: ForeignCurrency; value: number; exchangeRate: number };
+}
+
+export interface InvoiceLabels {
+  title: (number: string) => string;
+  issued: (city: string, date: string) => string;
+  billTitle: string;
+  socialSecurityTitle: string;
+  signatureTitle: string;
+  concept: string;
+  value: string;
+  ibc: string;
+  client: string;
+  clientNit: string;
+  contractor: string;
+  idNumber: string;
+  contractNumber: string;
+  period: string;
+  days: string;
+  serviceConcept: string;
+  amount: string;
+  amountInWords: string;
+  bankAccount: string;
+  health: (rate: string) => string;
+  pension: (rate: string) => string;
+  solidarityFund: string;
+  arl: (riskClass: number, rate: string) => string;
+  paidByEntity: string;
+  totalPaid: string;
+  declaration: (period: string, ibc: string) => string;
+  pilaNumber: (pilaNumber: string) => string;
+  foreignAmount: (currency: string) => string;
+  exchangeRate: string;
+  signatureId: (idNumber: string) => string;
+  disclaimer: string;
+  formatCurrency: (val: number, currency?: ForeignCurrency) => string;
+  formatExchangeRate: (rate: number) => string;
+  formatRate: (val: number) => string;
+  formatDate: (date: Date) => string;
+  formatPeriod: (period: string) => string;
+  formatPageNumber: (page: number, pageCount: number) => string;
+}
+
+export const createEmptyInvoiceDetails = (): InvoiceDetails => ({
+  contractor: { name: '', idNumber: '', contractNumber: '' },
+  client: { name: '', nit: '' },
+  city: '',
+  concept: '',
+  bankAccount: '',
+  lastNumber: 0
+});
+
+const asString = (val: unknown) => (typeof val === 'string' ? val : '');
+
+// Missing or malformed fields fall back to empty ones instead of discarding what is still usable.
+export const loadInvoiceDetails = (storage: InvoiceStorage): InvoiceDetails => {
+  const empty = createEmptyInvoiceDetails();
+  try {
+    const saved = JSON.parse(storage.getItem(INVOICE_DETAILS_STORAGE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return empty;
+    return {
+      contractor: {
+        name: asString(saved.contractor?.name),
+        idNumber: asString(saved.contractor?.idNumber),
+        contractNumber: asString(saved.contractor?.contractNumber)
+      },
+      client: { name: asString(saved.client?.name), nit: asString(saved.client?.nit) },
+      city: asString(saved.city),
+      concept: asString(saved.concept),
+      bankAccount: asString(saved.bankAccount),
+      lastNumber: Number.isInteger(saved.lastNumber) && saved.lastNumber > 0 ? saved.lastNumber : 0
+    };
+  } catch {
+    return empty;
+  }
+};
+
+export const saveInvoiceDetails = (storage: InvoiceStorage, details: InvoiceDetails) => {
+  storage.setItem(INVOICE_DETAILS_STORAGE_KEY, JSON.stringify(details));
+};
+
+export const formatInvoiceNumber = (number: number) => String(number).padStart(INVOICE_NUMBER_DIGITS, '0');
+
+// A cuenta de cobro laid out as a report: the billing details, the contributions
+// declared for the period and the signature. Empty optional fields are left out.
+export const buildInvoiceDocument = (input: InvoiceInput, labels: InvoiceLabels): ReportDocument => {
+  const { details, pilaLine, foreignAmount } = input;
+  const { contractor, client } = details;
+  const { formatCurrency, formatRate } = labels;
+  const period = labels.formatPeriod(input.period);
+  const optionalRow = (label: string, val: string) => (val.trim() ? [[label, val.trim()]] : []);
+
+  const solidarityFund = pilaLine.solidarityAccount + pilaLine.subsistenceAccount;
+  const isArlPaidByEntity = pilaLine.arlPayer === ContributionPayer.CONTRACTING_ENTITY;
+  const totalPaid = pilaLine.health + pilaLine.pension + solidarityFund + (isArlPaidByEntity ? 0 : pilaLine.arl);
+
+  return {
+    title: labels.title(formatInvoiceNumber(input.number)),
+    metadata: [labels.issued(details.city.trim(), labels.formatDate(input.issuedAt))],
+    stamp: input.stamp,
+    sections: [
+      {
+        section: ReportSection.SUMMARY,
+        title: labels.billTitle,
+        table: {
+          head: [labels.concept, labels.value],
+          body: [
+            ...optionalRow(labels.client, client.name),
+            ...optionalRow(labels.clientNit, client.nit),
+            ...optionalRow(labels.contractor, contractor.name),
+            ...optionalRow(labels.idNumber, contractor.idNumber),
+            ...optionalRow(labels.contractNumber, contractor.contractNumber),
+            [labels.period, period],
+            [labels.days, String(pilaLine.days)],
+            ...optionalRow(labels.serviceConcept, details.concept),
+            [labels.amount, formatCurrency(input.contractValue)],
+            [labels.amountInWords, pesosToSpanishWords(input.contractValue)],
+            ...(foreignAmount ? [
+              [labels.foreignAmount(foreignAmount.currency), formatCurrency(foreignAmount.value, foreignAmount.currency)],
+              [labels.exchangeRate, labels.formatExchangeRate(foreignAmount.exchangeRate)]
+            ] : []),
+            ...optionalRow(labels.bankAccount, details.bankAccount)
+          ],
+          theme: 'grid',
+          color: [15, 23, 42]
+        }
+      },
+      {
+        section: ReportSection.SOCIAL_SECURITY,
+        title: labels.socialSecurityTitle,
+        table: {
+          head: [labels.concept, labels.ibc, labels.value],
+          body: [
+            [labels.health(formatRate(pilaLine.healthRate)), formatCurrency(pilaLine.ibc), formatCurrency(pilaLine.health)],
+            [labels.pension(formatRate(pilaLine.pensionRate)), formatCurrency(pilaLine.ibc), formatCurrency(pilaLine.pension)],
+            ...(solidarityFund > 0
+              ? [[labels.solidarityFund, formatCurrency(pilaLine.ibc), formatCurrency(solidarityFund)]]
+              : []),
+            [
+              `${labels.arl(pilaLine.riskClass, formatRate(pilaLine.arlRate))}${isArlPaidByEntity ? ` - ${labels.paidByEntity}` : ''}`,
+              formatCurrency(pilaLine.ibc),
+              formatCurrency(pilaLine.arl)
+            ],
+            [labels.totalPaid, '', formatCurrency(totalPaid)]
+          ],
+          theme: 'grid',
+          color: [220, 38, 38]
+        },
+        paragraphs: [
+          labels.declaration(period, formatCurrency(pilaLine.ibc)),
+          ...(input.pilaNumber.trim() ? [labels.pilaNumber(input.pilaNumber.trim())] : [])
+        ]
+      },
+      {
+        section: ReportSection.LEGAL_NOTES,
+        title: labels.signatureTitle,
+        paragraphs: [
+          SIGNATURE_LINE,
+          ...(contractor.name.trim() ? [contractor.name.trim()] : []),
+          ...(contractor.idNumber.trim() ? [labels.signatureId(contractor.idNumber.trim())] : [])
+        ]
+      }
+    ],
+    closingNotes: [labels.disclaimer],
+    formatPageNumber: labels.formatPageNumber
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPaymentSchedule,
+  getColombianHolidays,
+  getDeadlineBusinessDay,
+  getNthBusinessDay,
+  paymentScheduleToIcs
+} from './paymentCalendar';
+
+describe('Colombian holidays', () => {
+  it('moves Emiliani and Easter-based holidays to Monday', () => {
+    const holidays = getColombianHolidays(2026);
+    expect([...holidays].sort()).toEqual([
+      '2026-01-01', '2026-01-12', '2026-03-23', '2026-04-02', '2026-04-03', '2026-05-01',
+      '2026-05-18', '2026-06-08', '2026-06-15', '2026-06-29', '2026-07-20', '2026-08-07',
+      '2026-08-17', '2026-10-12', '2026-11-02', '2026-11-16', '2026-12-08', '2026-12-25'
+    ]);
+  });
+
+  it('counts business days skipping weekends and holidays', () => {
+    expect(getNthBusinessDay(2026, 9, 16)).toBe('2026-10-23');
+  });
+});
+
+describe('PILA deadlines', () => {
+  it('maps the last two ID digits to a business day', () => {
+    expect(getDeadlineBusinessDay('1.020.304.005')).toBe(2);
+    expect(getDeadlineBusinessDay('52 123 464')).toBe(11);
+    expect(getDeadlineBusinessDay('79999')).toBe(16);
+    expect(getDeadlineBusinessDay('7')).toBe(2);
+  });
+
+  it('ignores the NIT verification digit', () => {
+    expect(getDeadlineBusinessDay('900123456-7')).toBe(9);
+  });
+
+  it('needs digits in the ID', () => {
+    expect(getDeadlineBusinessDay('')).toBeNull();
+    expect(buildPaymentSchedule(['2026-09-30'], 'abc')).toBeNull();
+  });
+
+  it('pays each billing month on the following month', () => {
+    const schedule = buildPaymentSchedule(['2026-12-15', '2026-09-30', '2026-09-05', 'not a date'], '1020304005');
+    expect(schedule).toEqual([
+      { period: '2026-09', billingDates: ['2026-09-05', '2026-09-30'], dueDate: '2026-10-02', businessDay: 2 },
+      { period: '2026-12', billingDates: ['2026-12-15'], dueDate: '2027-01-05', businessDay: 2 }
+    ]);
+  });
+});
+
+describe('Calendar export', () => {
+  it('writes all-day events with escaped, folded text', () => {
+    const schedule = buildPaymentSchedule(['2026-09-30'], '1020304005')!;
+    const ics = paymentScheduleToIcs(schedule, {
+      summary: (deadline) => `Pago PILA; período ${deadline.period}`,
+      description: () => `Ingresos de septiembre, vence hoy.\n${'Aporte estimado '.repeat(6)}`
+    }, new Date(Date.UTC(2026, 8, 1, 12, 30)));
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('DTSTAMP:20260901T123000Z');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261002\r\nDTEND;VALUE=DATE:20261003');
+    expect(ics).toContain('SUMMARY:Pago PILA\\; período 2026-09');
+    expect(ics).toContain('DESCRIPTION:Ingresos de septiembre\\, vence hoy.\\n');
+    ics.split('\r\n').forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+  });
+});
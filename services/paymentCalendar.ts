@@ -0,0 +1,138 @@
+import { PaymentDeadline } from '../types';
+import { toIcs } from '../utils/ics';
+import { MONTHS_IN_YEAR } from './projection';
+
+// Decreto 780/2016, Art. 3.2.2.1 (Decreto 1990/2016): business day of the month on which
+// the PILA is due, by the last two digits of the contributor's ID.
+const DEADLINE_BANDS: { maxDigits: number; businessDay: number }[] = [
+  { maxDigits: 7, businessDay: 2 },
+  { maxDigits: 14, businessDay: 3 },
+  { maxDigits: 21, businessDay: 4 },
+  { maxDigits: 28, businessDay: 5 },
+  { maxDigits: 35, businessDay: 6 },
+  { maxDigits: 42, businessDay: 7 },
+  { maxDigits: 49, businessDay: 8 },
+  { maxDigits: 56, businessDay: 9 },
+  { maxDigits: 63, businessDay: 10 },
+  { maxDigits: 69, businessDay: 11 },
+  { maxDigits: 75, businessDay: 12 },
+  { maxDigits: 81, businessDay: 13 },
+  { maxDigits: 87, businessDay: 14 },
+  { maxDigits: 93, businessDay: 15 },
+  { maxDigits: 99, businessDay: 16 }
+];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const utcDate = (year: number, monthIndex: number, day: number) => new Date(Date.UTC(year, monthIndex, day));
+const addDays = (date: Date, days: number) => utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const getMonthEndDates = (year: number): string[] =>
+  Array.from({ length: MONTHS_IN_YEAR }, (_, monthIndex) => toIsoDate(utcDate(year, monthIndex + 1, 0)));
+
+// The NIT verification digit (after the dash) is not part of the ID for deadline purposes.
+export const getDeadlineBusinessDay = (idNumber: string): number | null => {
+  const digits = idNumber.split('-')[0].replace(/\D/g, '');
+  if (!digits) return null;
+  const lastTwo = Number(digits.slice(-2));
+  return DEADLINE_BANDS.find((band) => lastTwo <= band.maxDigits)!.businessDay;
+};
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+};
+
+const nextMonday = (date: Date) => addDays(date, (8 - date.getUTCDay()) % 7);
+
+// Ley 51/1983: most holidays move to the following Monday; the rest stay on their date.
+export const getColombianHolidays = (year: number): Set<string> => {
+  const easter = getEasterSunday(year);
+  const fixed = [[0, 1], [4, 1], [6, 20], [7, 7], [11, 8], [11, 25]]
+    .map(([month, day]) => utcDate(year, month, day));
+  const moved = [[0, 6], [2, 19], [5, 29], [7, 15], [9, 12], [10, 1], [10, 11]]
+    .map(([month, day]) => nextMonday(utcDate(year, month, day)));
+  const easterBased = [
+    addDays(easter, -3),
+    addDays(easter, -2),
+    nextMonday(addDays(easter, 39)),
+    nextMonday(addDays(easter, 60)),
+    nextMonday(addDays(easter, 68))
+  ];
+  return new Set([...fixed, ...moved, ...easterBased].map(toIsoDate));
+};
+
+export const getNthBusinessDay = (year: number, monthIndex: number, n: number): string => {
+  const holidays = getColombianHolidays(year);
+  let date = utcDate(year, monthIndex, 1);
+  let count = 0;
+  for (;;) {
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6 && !holidays.has(toIsoDate(date))) {
+      count++;
+      if (count === n) return toIsoDate(date);
+    }
+    date = addDays(date, 1);
+  }
+};
+
+// Independent workers pay "mes vencido": income billed in a month is contributed in the next one,
+// so every billing month becomes one deadline. Returns null while the ID has no digits.
+export const buildPaymentSchedule = (billingDates: string[], idNumber: string): PaymentDeadline[] | null => {
+  const businessDay = getDeadlineBusinessDay(idNumber);
+  if (businessDay === null) return null;
+
+  const byPeriod = new Map<string, string[]>();
+  billingDates
+    .filter((date) => ISO_DATE_PATTERN.test(date))
+    .sort()
+    .forEach((date) => {
+      const period = date.slice(0, 7);
+      byPeriod.set(period, [...(byPeriod.get(period) ?? []), date]);
+    });
+
+  return [...byPeriod.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, dates]) => {
+      const [year, month] = period.split('-').map(Number);
+      const paymentMonth = utcDate(year, month, 1);
+      return {
+        period,
+        billingDates: dates,
+        dueDate: getNthBusinessDay(paymentMonth.getUTCFullYear(), paymentMonth.getUTCMonth(), businessDay),
+        businessDay
+      };
+    });
+};
+
+export interface PaymentCalendarLabels {
+  summary: (deadline: PaymentDeadline) => string;
+  description: (deadline: PaymentDeadline) => string;
+}
+
+export const paymentScheduleToIcs = (
+  deadlines: PaymentDeadline[],
+  labels: PaymentCalendarLabels,
+  generatedAt: Date
+): string =>
+  toIcs(deadlines.map((deadline) => ({
+    uid: `pila-${deadline.period}@netoreal`,
+    date: deadline.dueDate,
+    summary: labels.summary(deadline),
+    description: labels.description(deadline)
+  })), generatedAt);
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPilaLines,
+  pilaToCsv,
+  getPilaPeriod,
+  roundPilaIbc,
+  roundPilaContribution,
+  PILA_COLUMNS
+} from './pila';
+import { calculatePortfolio, getFiscalParameters } from './calculator';
+import { ContractEntry, ContributionPayer, RiskLevel } from '../types';
+import { es } from '../i18n/es';
+
+const contract = (id: string, contractValue: number, riskLevel: RiskLevel): ContractEntry => ({
+  id,
+  label: `Contrato ${id}`,
+  contractValue,
+  riskLevel
+});
+
+const linesFor = (contracts: ContractEntry[]) => {
+  const portfolio = calculatePortfolio({ contracts, contractualRiskPercent: 10, year: 2026 });
+  return buildPilaLines(contracts, portfolio.contracts, getFiscalParameters(2026), '2026-09');
+};
+
+describe('PILA rounding', () => {
+  it('rounds the IBC up to the peso and contributions up to the next 100', () => {
+    expect(roundPilaIbc(1280000.2)).toBe(1280001);
+    expect(roundPilaContribution(218863.125)).toBe(218900);
+    expect(roundPilaContribution(400000.00000000006)).toBe(400000);
+    expect(roundPilaContribution(0)).toBe(0);
+  });
+
+  it('reports the previous month as the contribution period', () => {
+    expect(getPilaPeriod(new Date(2026, 9, 18))).toBe('2026-09');
+    expect(getPilaPeriod(new Date(2026, 0, 5))).toBe('2025-12');
+    expect(getPilaPeriod(new Date(2026, 9, 18), 2025)).toBe('2025-09');
+    expect(getPilaPeriod(new Date(2026, 0, 5), 2026)).toBe('2026-12');
+  });
+});
+
+describe('buildPilaLines', () => {
+  it('fills the independent-worker fields from the calculation', () => {
+    const [line] = linesFor([contract('1', 8000000, RiskLevel.III)]);
+
+    expect(line).toEqual({
+      contractLabel: 'Contrato 1',
+      contributorType: '59',
+      period: '2026-09',
+      days: 30,
+      ibc: 3200000,
+      pensionRate: 0.16,
+      pension: 512000,
+      solidarityAccount: 0,
+      subsistenceAccount: 0,
+      healthRate: 0.125,
+      health: 400000,
+      riskClass: 3,
+      arlRate: 0.02436,
+      arl: 78000,
+      arlPayer: ContributionPayer.CONTRACTOR
+    });
+  });
+
+  it('splits the solidarity fund and keeps one line per contract', () => {
+    const lines = linesFor([
+      contract('1', 40000000, RiskLevel.I),
+      contract('2', 10000000, RiskLevel.V)
+    ]);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].ibc + lines[1].ibc).toBe(20000000);
+    expect(lines[0].solidarityAccount).toBe(80000);
+    expect(lines[0].subsistenceAccount).toBe(80000);
+    expect(lines[1].riskClass).toBe(5);
+    expect(lines[1].arlPayer).toBe(ContributionPayer.CONTRACTING_ENTITY);
+  });
+});
+
+describe('pilaToCsv', () => {
+  it('writes a header, one row per line and a total for several contracts', () => {
+    const lines = linesFor([contract('1', 5000000, RiskLevel.I), contract('2', 3000000, RiskLevel.II)]);
+    const rows = pilaToCsv(lines, es.pila).replace(/^\uFEFF/, '').trim().split('\r\n');
+
+    expect(rows).toHaveLength(4);
+    expect(rows[0].split(';')).toHaveLength(PILA_COLUMNS.length);
+    expect(rows[1]).toContain(';0.12500;');
+    expect(rows[3].startsWith(es.pila.total)).toBe(true);
+    expect(rows[3].split(';')[PILA_COLUMNS.indexOf('health')]).toBe(String(lines[0].health + lines[1].health));
+  });
+});
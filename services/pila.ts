@@ -0,0 +1,109 @@
+import { CalculationResults, ContractEntry, ContributionPayer, FiscalParameters, PilaLine, RiskLevel } from '../types';
+import { toCsv } from '../utils/csv';
+
+// Independent worker with a service contract longer than one month (Res. 2388/2016).
+export const PILA_CONTRIBUTOR_TYPE = '59';
+
+// The first point of the Fondo de Solidaridad Pensional is split evenly between the
+// solidarity and subsistence accounts; every band above 4 SMMLV adds to subsistence.
+const SOLIDARITY_ACCOUNT_RATE = 0.005;
+
+export type PilaColumn = keyof PilaLine;
+
+export const PILA_COLUMNS: PilaColumn[] = [
+  'contractLabel',
+  'contributorType',
+  'period',
+  'days',
+  'ibc',
+  'pensionRate',
+  'pension',
+  'solidarityAccount',
+  'subsistenceAccount',
+  'healthRate',
+  'health',
+  'riskClass',
+  'arlRate',
+  'arl',
+  'arlPayer'
+];
+
+export interface PilaCsvLabels {
+  columns: Record<PilaColumn, string>;
+  payers: Record<ContributionPayer, string>;
+  total: string;
+}
+
+// Cents are settled first so float noise (e.g. 400000.00000000006) never pushes a value up a step.
+const settleCents = (val: number) => Math.round(val * 100) / 100;
+
+// PILA rounds the IBC up to the next peso and each contribution up to the next multiple of 100.
+export const roundPilaIbc = (val: number) => Math.ceil(settleCents(val));
+export const roundPilaContribution = (val: number) => Math.ceil(settleCents(val) / 100) * 100;
+
+// Independent workers contribute "mes vencido": the form paid in a month covers the previous one.
+// With `year` the same month is taken in that year, so the period matches the parameters used.
+export const getPilaPeriod = (paymentDate: Date, year?: number): string => {
+  const period = new Date(paymentDate.getFullYear(), paymentDate.getMonth() - 1, 1);
+  return `${year ?? period.getFullYear()}-${String(period.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Each contract is its own line with the IBC allocated to it, so every ARL class is reported.
+// Contributions are recomputed from the rounded IBC, the way the PILA operator does.
+export const buildPilaLines = (
+  contracts: ContractEntry[],
+  contractResults: CalculationResults[],
+  parameters: FiscalParameters,
+  period: string
+): PilaLine[] =>
+  contracts.map((contract, i) => {
+    const results = contractResults[i];
+    const ibc = roundPilaIbc(results.ibc);
+    const hasSolidarityFund = results.solidarityFundRate > 0;
+    const arlRate = parameters.arlRates[contract.riskLevel];
+
+    return {
+      contractLabel: contract.label,
+      contributorType: PILA_CONTRIBUTOR_TYPE,
+      period,
+      days: results.daysWorked,
+      ibc,
+      pensionRate: parameters.pensionRate,
+      pension: roundPilaContribution(ibc * parameters.pensionRate),
+      solidarityAccount: hasSolidarityFund ? roundPilaContribution(ibc * SOLIDARITY_ACCOUNT_RATE) : 0,
+      subsistenceAccount: hasSolidarityFund
+        ? roundPilaContribution(ibc * (results.solidarityFundRate - SOLIDARITY_ACCOUNT_RATE))
+        : 0,
+      healthRate: parameters.healthRate,
+      health: roundPilaContribution(ibc * parameters.healthRate),
+      riskClass: Object.values(RiskLevel).indexOf(contract.riskLevel) + 1,
+      arlRate,
+      arl: roundPilaContribution(ibc * arlRate),
+      arlPayer: results.contributionPayers.arl
+    };
+  });
+
+const AMOUNT_COLUMNS: PilaColumn[] = ['ibc', 'pension', 'solidarityAccount', 'subsistenceAccount', 'health', 'arl'];
+const RATE_COLUMNS: PilaColumn[] = ['pensionRate', 'healthRate', 'arlRate'];
+
+export const pilaToCsv = (lines: PilaLine[], labels: PilaCsvLabels): string => {
+  const formatCell = (line: PilaLine, column: PilaColumn) => {
+    const val = line[column];
+    if (column === 'arlPayer') return labels.payers[val as ContributionPayer];
+    // Rates use the five-decimal notation of the PILA file (0.12500).
+    if (RATE_COLUMNS.includes(column)) return (val as number).toFixed(5);
+    return String(val);
+  };
+
+  const totals = PILA_COLUMNS.map((column, i) => {
+    if (i === 0) return labels.total;
+    if (!AMOUNT_COLUMNS.includes(column)) return '';
+    return String(lines.reduce((sum, line) => sum + (line[column] as number), 0));
+  });
+
+  return toCsv([
+    PILA_COLUMNS.map((column) => labels.columns[column]),
+    ...lines.map((line) => PILA_COLUMNS.map((column) => formatCell(line, column))),
+    ...(lines.length > 1 ? [totals] : [])
+  ], ';');
+};
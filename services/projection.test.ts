@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseBillingSeries, projectYear } from './projection';
+import { calculate } from './calculator';
+import { RiskLevel } from '../types';
+
+const profile = { riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026 };
+
+describe('parseBillingSeries', () => {
+  it('reads a pasted spreadsheet column in es-CO format', () => {
+    const months = parseBillingSeries('3.200.000\n\n4.500.000,50\r\n1.000.000\n');
+
+    expect(months).toHaveLength(12);
+    expect(months.slice(0, 5)).toEqual([3200000, 0, 4500000, 1000000, 0]);
+  });
+
+  it('reads a tab-separated row and ignores extra values', () => {
+    const months = parseBillingSeries(Array.from({ length: 14 }, (_, i) => String(i + 1)).join('\t'));
+
+    expect(months).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+});
+
+describe('projectYear', () => {
+  it('runs the engine for every month and accumulates the reserves', () => {
+    const billing = [5000000, 0, 5000000, 10000000, 0, 0, 0, 0, 0, 0, 0, 0];
+    const projection = projectYear(billing, profile);
+    const fullMonth = calculate({ ...profile, contractValue: 5000000 });
+
+    expect(projection.months).toHaveLength(12);
+    expect(projection.months[0].results).toEqual(fullMonth);
+    expect(projection.months[1].results.totalSocialSecurity).toBe(0);
+    expect(projection.months[2].provisionBalances[0].amount).toBeCloseTo(fullMonth.provisions[0].amount * 2);
+    expect(projection.months[11].provisionBalances[1].amount).toBeCloseTo(20000000 * 0.0933);
+    expect(projection.months[11].contractualRiskBalance).toBeCloseTo(2000000);
+    expect(projection.totals.contractValue).toBe(20000000);
+    expect(projection.totals.netIncome).toBeCloseTo(
+      projection.months.reduce((sum, m) => sum + m.results.netIncome, 0)
+    );
+  });
+});
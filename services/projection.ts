@@ -0,0 +1,48 @@
+import { AnnualProjection, CalculationInput, MonthlyProjection, ProvisionAmount } from '../types';
+import { calculate } from './calculator';
+import { sumProvisions } from './provisions';
+
+export const MONTHS_IN_YEAR = 12;
+
+// Parses a column or row pasted from a spreadsheet. Values use the es-CO format
+// ("3.200.000" or "3.200.000,50"); decimals are dropped and blank cells count as 0.
+export const parseBillingSeries = (text: string): number[] => {
+  const tokens = text.split(/\r?\n|\t|;/);
+  // Spreadsheets end a copied column with a line break.
+  if (tokens.length > 1 && tokens[tokens.length - 1].trim() === '') tokens.pop();
+
+  const values = tokens.map((token) => {
+    const integerPart = token.split(',')[0].replace(/\D/g, '');
+    return integerPart ? parseInt(integerPart, 10) : 0;
+  });
+  return Array.from({ length: MONTHS_IN_YEAR }, (_, i) => values[i] ?? 0);
+};
+
+// Runs the calculation engine once per month and accumulates the provision
+// reserves, assuming nothing is withdrawn during the year.
+export const projectYear = (
+  monthlyBilling: number[],
+  profile: Omit<CalculationInput, 'contractValue'>
+): AnnualProjection => {
+  let provisionBalances: ProvisionAmount[] = [];
+  let contractualRiskBalance = 0;
+
+  const months = monthlyBilling.slice(0, MONTHS_IN_YEAR).map((contractValue, month): MonthlyProjection => {
+    const results = calculate({ ...profile, contractValue });
+    provisionBalances = sumProvisions([provisionBalances, results.provisions]);
+    contractualRiskBalance += results.contractualRiskProvision;
+    return { month, results, provisionBalances, contractualRiskBalance };
+  });
+
+  const sum = (pick: (m: MonthlyProjection) => number) => months.reduce((total, m) => total + pick(m), 0);
+
+  return {
+    months,
+    totals: {
+      contractValue: sum((m) => m.results.contractValue),
+      totalSocialSecurity: sum((m) => m.results.totalSocialSecurity),
+      totalProvisions: sum((m) => m.results.totalProvisions),
+      netIncome: sum((m) => m.results.netIncome)
+    }
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateProvisions,
+  getDefaultProvisionBuckets,
+  loadProvisionProfiles,
+  saveProvisionProfiles,
+  sumProvisions,
+  PROVISION_PROFILES_STORAGE_KEY
+} from './provisions';
+import { calculate, calculatePortfolio, getFiscalParameters } from './calculator';
+import { ProvisionBucket, ProvisionMode, RiskLevel } from '../types';
+
+const buckets: ProvisionBucket[] = [
+  { id: 'prima', name: 'Prima', mode: ProvisionMode.PERCENT, value: 8.33, enabled: true },
+  { id: 'emergency', name: 'Fondo de emergencia', mode: ProvisionMode.FIXED, value: 300000, enabled: true },
+  { id: 'tax', name: 'Reserva de renta', mode: ProvisionMode.PERCENT, value: 5, enabled: false }
+];
+
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const data = { ...initial };
+  return {
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, value: string) => { data[key] = value; }
+  };
+};
+
+describe('provision buckets', () => {
+  it('defaults to the vacation and severance rates of the year', () => {
+    const defaults = getDefaultProvisionBuckets(getFiscalParameters(2026));
+    const amounts = calculateProvisions(defaults, 5000000, 1);
+
+    expect(amounts.map((p) => p.id)).toEqual(['vacation', 'severance']);
+    expect(amounts[0].amount).toBeCloseTo(208500);
+  });
+
+  it('applies percentages to the billed value and skips disabled buckets', () => {
+    const amounts = calculateProvisions(buckets, 4000000, 0.5);
+
+    expect(amounts).toEqual([
+      { id: 'prima', name: 'Prima', amount: expect.closeTo(333200) },
+      { id: 'emergency', name: 'Fondo de emergencia', amount: 150000 }
+    ]);
+  });
+
+  it('splits fixed amounts across contracts by billed value', () => {
+    const portfolio = calculatePortfolio({
+      contracts: [
+        { contractValue: 6000000, riskLevel: RiskLevel.I },
+        { contractValue: 2000000, riskLevel: RiskLevel.I }
+      ],
+      contractualRiskPercent: 0,
+      year: 2026,
+      provisionBuckets: buckets
+    });
+
+    expect(portfolio.contracts.map((r) => r.provisions[1].amount)).toEqual([225000, 75000]);
+    expect(portfolio.consolidated.provisions[1].amount).toBe(300000);
+    expect(portfolio.consolidated.totalProvisions).toBeCloseTo(8000000 * 0.0833 + 300000);
+  });
+
+  it('sets nothing aside in a month without billing', () => {
+    const r = calculate({ contractValue: 0, riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026, provisionBuckets: buckets });
+    expect(r.totalProvisions).toBe(0);
+  });
+
+  it('adds provision lists bucket by bucket', () => {
+    expect(sumProvisions([
+      [{ id: 'a', name: 'A', amount: 1 }],
+      [{ id: 'b', name: 'B', amount: 2 }, { id: 'a', name: 'A', amount: 3 }]
+    ])).toEqual([{ id: 'a', name: 'A', amount: 4 }, { id: 'b', name: 'B', amount: 2 }]);
+  });
+});
+
+describe('provision profiles storage', () => {
+  it('round-trips saved profiles', () => {
+    const storage = memoryStorage();
+    const profiles = [{ id: 'p1', name: 'Con prima', buckets }];
+    saveProvisionProfiles(storage, profiles);
+    expect(loadProvisionProfiles(storage)).toEqual(profiles);
+  });
+
+  it('drops malformed entries', () => {
+    const storage = memoryStorage({
+      [PROVISION_PROFILES_STORAGE_KEY]: JSON.stringify([
+        { id: 'ok', name: 'Ok', buckets: [] },
+        { id: 'bad', name: 'Bad', buckets: [{ id: 'x', name: 'X', mode: 'OTHER', value: 1, enabled: true }] },
+        null
+      ])
+    });
+    expect(loadProvisionProfiles(storage).map((p) => p.id)).toEqual(['ok']);
+    expect(loadProvisionProfiles(memoryStorage({ [PROVISION_PROFILES_STORAGE_KEY]: '{' }))).toEqual([]);
+  });
+});
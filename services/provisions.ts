@@ -0,0 +1,95 @@
+import { CalculationResults, FiscalParameters, ProvisionAmount, ProvisionBucket, ProvisionMode, ProvisionProfile } from '../types';
+
+export const PROVISION_PROFILES_STORAGE_KEY = 'netoreal.provisionProfiles.v1';
+export const VACATION_BUCKET_ID = 'vacation';
+export const SEVERANCE_BUCKET_ID = 'severance';
+
+type ProfileStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface DefaultBucketNames {
+  vacation: string;
+  severance: string;
+}
+
+const DEFAULT_BUCKET_NAMES: DefaultBucketNames = {
+  vacation: 'Vacaciones',
+  severance: 'Cesantías + Intereses'
+};
+
+// The rates an employee would accrue, as the starting point for any profile.
+export const getDefaultProvisionBuckets = (
+  parameters: FiscalParameters,
+  names: DefaultBucketNames = DEFAULT_BUCKET_NAMES
+): ProvisionBucket[] => [
+  { id: VACATION_BUCKET_ID, name: names.vacation, mode: ProvisionMode.PERCENT, value: parameters.vacationProvisionRate * 100, enabled: true },
+  { id: SEVERANCE_BUCKET_ID, name: names.severance, mode: ProvisionMode.PERCENT, value: parameters.severanceProvisionRate * 100, enabled: true }
+];
+
+export const createProvisionBucket = (name: string): ProvisionBucket => ({
+  id: Math.random().toString(36).slice(2, 10),
+  name,
+  mode: ProvisionMode.PERCENT,
+  value: 0,
+  enabled: true
+});
+
+// Fixed amounts are a monthly total for the whole portfolio, so each contract takes its
+// share of the billed value; a month without billing sets nothing aside.
+export const calculateProvisions = (
+  buckets: ProvisionBucket[],
+  contractValue: number,
+  valueShare: number,
+  isForeignCurrency = false
+): ProvisionAmount[] =>
+  buckets
+    .filter((bucket) => bucket.enabled && (isForeignCurrency || !bucket.foreignCurrencyOnly))
+    .map(({ id, name, mode, value }) => ({
+      id,
+      name,
+      amount: mode === ProvisionMode.PERCENT ? contractValue * (value / 100) : value * valueShare
+    }));
+
+// Adds provision lists bucket by bucket, keeping the order of first appearance.
+export const sumProvisions = (lists: ProvisionAmount[][]): ProvisionAmount[] => {
+  const totals = new Map<string, ProvisionAmount>();
+  lists.flat().forEach(({ id, name, amount }) => {
+    const current = totals.get(id);
+    totals.set(id, { id, name, amount: (current?.amount ?? 0) + amount });
+  });
+  return [...totals.values()];
+};
+
+// Buckets that appear in any of the results, in order of first appearance, so tables
+// can give each one a row or column even when some results lack it.
+export const listProvisionBuckets = (results: CalculationResults[]): Omit<ProvisionAmount, 'amount'>[] =>
+  sumProvisions(results.map((r) => r.provisions)).map(({ id, name }) => ({ id, name }));
+
+export const getProvisionAmount = (results: CalculationResults, id: string): number =>
+  results.provisions.find((p) => p.id === id)?.amount ?? 0;
+
+const isProvisionBucket = (bucket: Partial<ProvisionBucket> | null): bucket is ProvisionBucket =>
+  typeof bucket?.id === 'string' &&
+  typeof bucket?.name === 'string' &&
+  (Object.values(ProvisionMode) as unknown[]).includes(bucket?.mode) &&
+  typeof bucket?.value === 'number' &&
+  typeof bucket?.enabled === 'boolean';
+
+// Same tolerance as saved scenarios: malformed entries are dropped, never thrown.
+export const loadProvisionProfiles = (storage: ProfileStorage): ProvisionProfile[] => {
+  try {
+    const parsed = JSON.parse(storage.getItem(PROVISION_PROFILES_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((p): p is ProvisionProfile =>
+      typeof p?.id === 'string' &&
+      typeof p?.name === 'string' &&
+      Array.isArray(p?.buckets) &&
+      p.buckets.every(isProvisionBucket)
+    );
+  } catch {
+    return [];
+  }
+};
+
+export const saveProvisionProfiles = (storage: ProfileStorage, profiles: ProvisionProfile[]) => {
+  storage.setItem(PROVISION_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
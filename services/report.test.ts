@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { buildReportFilename, renderReport } from './report';
+import { ReportDocument, ReportSection } from '../types';
+
+const report = (rows: number): ReportDocument => ({
+  title: 'Reporte',
+  metadata: ['Fecha: 18/10/2026'],
+  stamp: 'Parametros 2026 (v2026.1.0)',
+  sections: [
+    {
+      section: ReportSection.SUMMARY,
+      title: 'Resumen',
+      table: {
+        head: ['Concepto', 'Valor'],
+        body: Array.from({ length: rows }, (_, i) => [`Fila ${i + 1}`, '$ 1.000']),
+        theme: 'grid',
+        color: [16, 185, 129]
+      }
+    },
+    { section: ReportSection.LEGAL_NOTES, title: 'Notas', paragraphs: ['Nota legal.'] }
+  ],
+  closingNotes: ['Aviso'],
+  formatPageNumber: (page, pageCount) => `Pag ${page}/${pageCount}`
+});
+
+describe('buildReportFilename', () => {
+  it('includes the contractor name and the date', () => {
+    expect(buildReportFilename('José Pérez Núñez', new Date(2026, 9, 8))).toBe('Reporte_Financiero_Jose_Perez_Nunez_2026-10-08.pdf');
+  });
+
+  it('falls back to a generic name', () => {
+    expect(buildReportFilename('  ', new Date(2026, 0, 1))).toBe('Reporte_Financiero_Contratista_2026-01-01.pdf');
+  });
+});
+
+describe('renderReport', () => {
+  it('fits a short report on one numbered page', () => {
+    const doc = renderReport(report(3));
+    expect(doc.getNumberOfPages()).toBe(1);
+    expect(doc.output()).toContain('(Pag 1/1)');
+  });
+
+  it('breaks long sections across pages and stamps every page', () => {
+    const doc = renderReport(report(80));
+    const output = doc.output();
+    const pageCount = doc.getNumberOfPages();
+
+    expect(pageCount).toBeGreaterThan(1);
+    expect(output).toContain(`(Pag ${pageCount}/${pageCount})`);
+    expect(output.split('(Parametros 2026 \\(v2026.1.0\\))').length - 1).toBe(pageCount);
+  });
+});
+
+describe('renderReport charts', () => {
+  it('draws a line chart with its ticks, markers and legend', () => {
+    const doc = renderReport({
+      ...report(3),
+      sections: [{
+        section: ReportSection.SENSITIVITY,
+        title: 'Sensibilidad',
+        charts: [{
+          title: 'Neto vs valor',
+          series: [{ label: 'Riesgo I', color: [16, 185, 129], points: [[0, 0], [10, 6], [20, 11]] }],
+          markers: [
+            { axis: 'x', value: 5, label: 'Piso' },
+            { axis: 'y', value: 8, label: 'Meta' },
+            { axis: 'x', value: 50, label: 'Fuera de rango' }
+          ],
+          xTicks: [0, 10, 20],
+          formatX: (val) => `${val} SMMLV`,
+          formatY: (val) => `$${val}`
+        }]
+      }]
+    });
+    const output = doc.output();
+
+    expect(doc.getNumberOfPages()).toBe(1);
+    ['(Neto vs valor)', '(20 SMMLV)', '(Piso)', '(Meta)', '(Riesgo I)'].forEach((text) => expect(output).toContain(text));
+    expect(output).not.toContain('(Fuera de rango)');
+  });
+});
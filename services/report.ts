@@ -0,0 +1,176 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { LineChart, ReportDocument, ReportSectionContent } from '../types';
+import { createChartProjection, getChartBounds, getYTicks, isWithinBounds } from '../utils/chart';
+
+const PAGE_MARGIN = 20;
+const FOOTER_SPACE = 20;
+const SECTION_SPACING = 15;
+const SECTION_MIN_HEIGHT = 25;
+const LINE_HEIGHT = 5;
+const PARAGRAPH_SPACING = 2;
+const CHART_HEIGHT = 60;
+const CHART_AXIS_WIDTH = 26;
+const CHART_LEGEND_SPACING = 6;
+const MARKER_LABEL_ROWS = 4;
+const GRID_COLOR: [number, number, number] = [226, 232, 240];
+const MARKER_COLOR: [number, number, number] = [100, 116, 139];
+
+const toFileSlug = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const buildReportFilename = (
+  contractorName: string,
+  date: Date,
+  prefix = 'Reporte_Financiero',
+  fallbackName = 'Contratista'
+): string => `${prefix}_${toFileSlug(contractorName) || fallbackName}_${toIsoDate(date)}.pdf`;
+
+export const renderReport = (report: ReportDocument): jsPDF => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const bottomLimit = pageHeight - FOOTER_SPACE;
+  let cursorY = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (cursorY + height > bottomLimit) {
+      doc.addPage();
+      cursorY = PAGE_MARGIN;
+    }
+  };
+
+  const writeLines = (text: string, fontSize: number, spacing: number) => {
+    doc.setFontSize(fontSize);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    ensureSpace(lines.length * LINE_HEIGHT);
+    doc.text(lines, PAGE_MARGIN, cursorY);
+    cursorY += lines.length * LINE_HEIGHT + spacing;
+  };
+
+  const writeChart = (chart: LineChart) => {
+    ensureSpace(CHART_HEIGHT + 25);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(chart.title, PAGE_MARGIN, cursorY);
+    doc.setFont('helvetica', 'normal');
+
+    const top = cursorY + 5;
+    const left = PAGE_MARGIN + CHART_AXIS_WIDTH;
+    const width = contentWidth - CHART_AXIS_WIDTH;
+    const bounds = getChartBounds(chart);
+    const projection = createChartProjection(bounds, width, CHART_HEIGHT);
+    const x = (val: number) => left + projection.x(val);
+    const y = (val: number) => top + projection.y(val);
+
+    doc.setFontSize(7);
+    doc.setLineWidth(0.1);
+    doc.setDrawColor(...GRID_COLOR);
+    getYTicks(bounds).forEach((tick) => {
+      doc.line(left, y(tick), left + width, y(tick));
+      doc.text(chart.formatY(tick), left - 2, y(tick) + 1, { align: 'right' });
+    });
+    chart.xTicks
+      .filter((tick) => isWithinBounds({ axis: 'x', value: tick }, bounds))
+      .forEach((tick) => doc.text(chart.formatX(tick), x(tick), top + CHART_HEIGHT + 4, { align: 'center' }));
+
+    // Marker labels are staggered so close kinks and breakevens stay readable.
+    doc.setLineDashPattern([1, 1], 0);
+    chart.markers.filter((marker) => isWithinBounds(marker, bounds)).forEach((marker, i) => {
+      const color = marker.color ?? MARKER_COLOR;
+      doc.setDrawColor(...color);
+      doc.setTextColor(...color);
+      if (marker.axis === 'x') {
+        doc.line(x(marker.value), top, x(marker.value), top + CHART_HEIGHT);
+        doc.text(marker.label, x(marker.value) + 1, top + 3 + (i % MARKER_LABEL_ROWS) * 3);
+      } else {
+        doc.line(left, y(marker.value), left + width, y(marker.value));
+        doc.text(marker.label, left + width, y(marker.value) - 1, { align: 'right' });
+      }
+    });
+    doc.setLineDashPattern([], 0);
+
+    doc.setLineWidth(0.5);
+    chart.series.forEach((series) => {
+      doc.setDrawColor(...series.color);
+      series.points.slice(1).forEach(([val, result], i) => {
+        const [prevVal, prevResult] = series.points[i];
+        doc.line(x(prevVal), y(prevResult), x(val), y(result));
+      });
+    });
+
+    let legendX = left;
+    const legendY = top + CHART_HEIGHT + 10;
+    chart.series.forEach((series) => {
+      doc.setFillColor(...series.color);
+      doc.rect(legendX, legendY - 2.5, 3, 3, 'F');
+      doc.setTextColor(0);
+      doc.text(series.label, legendX + 4, legendY);
+      legendX += doc.getTextWidth(series.label) + 10;
+    });
+
+    doc.setTextColor(0);
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.2);
+    cursorY = legendY + CHART_LEGEND_SPACING;
+  };
+
+  const writeSection = ({ title, table, charts, paragraphs }: ReportSectionContent) => {
+    // Keep the heading together with the first rows of its content.
+    ensureSpace(SECTION_MIN_HEIGHT);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(title, PAGE_MARGIN, cursorY);
+    doc.setFont('helvetica', 'normal');
+
+    if (table) {
+      cursorY += 5;
+      autoTable(doc, {
+        startY: cursorY,
+        margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: FOOTER_SPACE },
+        head: [table.head],
+        body: table.body,
+        theme: table.theme,
+        headStyles: { fillColor: table.color },
+        didDrawPage: ({ cursor }) => {
+          if (cursor) cursorY = cursor.y;
+        }
+      });
+    } else {
+      cursorY += 8;
+    }
+
+    charts?.forEach(writeChart);
+    paragraphs?.forEach((paragraph) => writeLines(paragraph, 9, PARAGRAPH_SPACING));
+    cursorY += SECTION_SPACING;
+  };
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(report.title, PAGE_MARGIN, cursorY);
+  cursorY += 10;
+
+  doc.setFont('helvetica', 'normal');
+  report.metadata.forEach((line) => writeLines(line, 10, 0));
+  cursorY += 10;
+
+  report.sections.forEach(writeSection);
+
+  doc.setTextColor(150);
+  report.closingNotes.forEach((note) => writeLines(note, 8, PARAGRAPH_SPACING * 4));
+
+  const pageCount = doc.getNumberOfPages();
+  doc.setFontSize(8);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(report.stamp, PAGE_MARGIN, pageHeight - 10);
+    doc.text(report.formatPageNumber(page, pageCount), pageWidth - PAGE_MARGIN, pageHeight - 10, { align: 'right' });
+  }
+  doc.setTextColor(0);
+
+  return doc;
+};
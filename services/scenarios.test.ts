@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  loadScenarios,
+  saveScenarios,
+  calculateScenario,
+  compareScenarios,
+  RESULT_FIELDS,
+  SCENARIOS_STORAGE_KEY
+} from './scenarios';
+import { CostMode, ProvisionMode, RiskLevel, SavedScenario, WithholdingMethod } from '../types';
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const data = { ...initial };
+  return {
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, value: string) => { data[key] = value; }
+  };
+};
+
+const scenario = (name: string, contractValue: number): SavedScenario => ({
+  id: name,
+  name,
+  savedAt: '2026-01-15T00:00:00.000Z',
+  state: {
+    contracts: [{ id: 'c1', label: 'Contrato 1', contractValue, riskLevel: RiskLevel.I }],
+    contractualRiskPercent: 10,
+    year: 2026,
+    withholdingMethod: WithholdingMethod.NONE,
+    desiredNetIncome: 2800000
+  }
+});
+
+describe('scenario storage', () => {
+  it('round-trips saved scenarios', () => {
+    const storage = createStorage();
+    const scenarios = [scenario('Oferta entidad A', 5000000)];
+    saveScenarios(storage, scenarios);
+
+    expect(loadScenarios(storage)).toEqual(scenarios);
+  });
+
+  it('treats corrupted or foreign data as an empty list', () => {
+    expect(loadScenarios(createStorage({ [SCENARIOS_STORAGE_KEY]: '{not json' }))).toEqual([]);
+    expect(loadScenarios(createStorage({ [SCENARIOS_STORAGE_KEY]: '{"a":1}' }))).toEqual([]);
+    expect(loadScenarios(createStorage({ [SCENARIOS_STORAGE_KEY]: '[{"id":1}]' }))).toEqual([]);
+  });
+
+  it('repairs or skips corrupted contracts so they never reach the engine', () => {
+    const valid = scenario('Con costos presuntos', 5000000);
+    const corrupted = {
+      ...valid,
+      state: {
+        ...valid.state,
+        contracts: [{
+          ...valid.state.contracts[0],
+          costMode: CostMode.PRESUMPTIVE,
+          presumptiveCostActivity: '0000',
+          arlActivity: '9999',
+          currency: 'JPY'
+        }]
+      }
+    };
+    const unusable = { ...valid, id: 'x', state: { ...valid.state, contracts: [{ ...valid.state.contracts[0], riskLevel: 'IX' }] } };
+    const negative = { ...valid, id: 'y', state: { ...valid.state, contracts: [{ ...valid.state.contracts[0], contractValue: -1 }] } };
+    const [loaded, ...rest] = loadScenarios(createStorage({ [SCENARIOS_STORAGE_KEY]: JSON.stringify([corrupted, unusable, negative]) }));
+
+    expect(rest).toEqual([]);
+    expect(loaded.state.contracts).toEqual([{ id: 'c1', label: 'Contrato 1', contractValue: 5000000, riskLevel: RiskLevel.I, costMode: CostMode.NONE }]);
+    expect(() => calculateScenario(loaded.state)).not.toThrow();
+  });
+});
+
+describe('compareScenarios', () => {
+  it('reports every numeric result field with deltas against the first scenario', () => {
+    const a = calculateScenario(scenario('A', 5000000).state);
+    const b = calculateScenario(scenario('B', 6000000).state);
+    const rows = compareScenarios([a, b]);
+
+    expect(rows.map((row) => row.field).filter((field) => field !== null)).toEqual(RESULT_FIELDS);
+    const contractRow = rows.find((row) => row.field === 'contractValue');
+    expect(contractRow?.deltas).toEqual([0, 1000000]);
+    const netRow = rows.find((row) => row.field === 'netIncome');
+    expect(netRow?.deltas[1]).toBeCloseTo(b.netIncome - a.netIncome);
+  });
+
+  it('adds a row per provision bucket, with 0 where a scenario lacks the bucket', () => {
+    const a = calculateScenario(scenario('A', 5000000).state);
+    const b = calculateScenario({
+      ...scenario('B', 5000000).state,
+      provisionBuckets: [{ id: 'emergency', name: 'Fondo de emergencia', mode: ProvisionMode.FIXED, value: 300000, enabled: true }]
+    });
+    const rows = compareScenarios([a, b]).filter((row) => row.field === null);
+
+    expect(rows.map((row) => [row.label, row.values, row.deltas])).toEqual([
+      ['Vacaciones', [a.provisions[0].amount, 0], [0, -a.provisions[0].amount]],
+      ['Cesantías + Intereses', [a.provisions[1].amount, 0], [0, -a.provisions[1].amount]],
+      ['Fondo de emergencia', [0, 300000], [0, 300000]]
+    ]);
+  });
+});
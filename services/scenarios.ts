@@ -0,0 +1,133 @@
+import {
+  CalculationResults,
+  CalculatorState,
+  ContractEntry,
+  CostMode,
+  Currency,
+  NumericResultField,
+  RiskLevel,
+  SavedScenario
+} from '../types';
+import { FISCAL_PARAMETERS, PRESUMPTIVE_COST_ACTIVITIES } from '../constants';
+import { findArlActivity } from './arlActivities';
+import { calculatePortfolio, getFiscalParameters } from './calculator';
+import { getDefaultProvisionBuckets, getProvisionAmount, listProvisionBuckets } from './provisions';
+import { withFxReserve } from './currency';
+
+export const SCENARIOS_STORAGE_KEY = 'netoreal.scenarios.v1';
+export const MAX_COMPARED_SCENARIOS = 3;
+
+type ScenarioStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const RESULT_FIELDS: NumericResultField[] = [
+  'year',
+  'contractValue',
+  'deductibleCosts',
+  'daysWorked',
+  'ibc',
+  'health',
+  'pension',
+  'arl',
+  'solidarityFund',
+  'solidarityFundRate',
+  'employerPaidContributions',
+  'contractualRiskProvision',
+  'withholdingBase',
+  'withholding',
+  'expectedDeposit',
+  'totalSocialSecurity',
+  'totalProvisions',
+  'totalCosts',
+  'netIncome',
+  'nonDisposablePercent'
+];
+
+const isAmount = (val: unknown): val is number => typeof val === 'number' && Number.isFinite(val) && val >= 0;
+
+const isOneOf = <T extends string>(values: T[], val: unknown): val is T => (values as unknown[]).includes(val);
+
+// Same rules as a shared link: a contract without a valid value or ARL class is unusable,
+// while optional settings the engine would reject (an unknown CIIU, bad costs or
+// currency) are dropped so the rest of the contract still loads.
+const repairContract = (raw: Partial<ContractEntry> | null): ContractEntry | null => {
+  if (typeof raw?.id !== 'string' || typeof raw.label !== 'string') return null;
+  if (!isAmount(raw.contractValue) || !isOneOf(Object.values(RiskLevel), raw.riskLevel)) return null;
+
+  const contract: ContractEntry = { id: raw.id, label: raw.label, contractValue: raw.contractValue, riskLevel: raw.riskLevel };
+  const hasPresumptiveActivity = PRESUMPTIVE_COST_ACTIVITIES.some((a) => a.ciiu === raw.presumptiveCostActivity);
+  if (hasPresumptiveActivity) contract.presumptiveCostActivity = raw.presumptiveCostActivity;
+  if (isAmount(raw.declaredCosts)) contract.declaredCosts = raw.declaredCosts;
+
+  const isValidCostMode = raw.costMode === CostMode.DECLARED
+    ? isAmount(raw.declaredCosts)
+    : raw.costMode === CostMode.PRESUMPTIVE
+      ? hasPresumptiveActivity
+      : raw.costMode === CostMode.NONE;
+  if (raw.costMode !== undefined) contract.costMode = isValidCostMode ? raw.costMode : CostMode.NONE;
+
+  if (findArlActivity(raw.arlActivity)?.riskLevel === raw.riskLevel) contract.arlActivity = raw.arlActivity;
+  if (isOneOf(Object.values(Currency), raw.currency) && raw.currency !== Currency.COP && isAmount(raw.foreignValue)) {
+    contract.currency = raw.currency;
+    contract.foreignValue = raw.foreignValue;
+  }
+  return contract;
+};
+
+// A corrupted or foreign entry must never break the app, so anything that does
+// not look like a scenario list is treated as empty, scenarios for a year
+// without parameters or with an unusable contract are skipped, and contracts
+// are repaired before they reach the engine.
+export const loadScenarios = (storage: ScenarioStorage): SavedScenario[] => {
+  try {
+    const parsed = JSON.parse(storage.getItem(SCENARIOS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((s): SavedScenario[] => {
+      if (
+        typeof s?.id !== 'string' ||
+        typeof s?.name !== 'string' ||
+        !Array.isArray(s?.state?.contracts) ||
+        FISCAL_PARAMETERS[s.state.year] === undefined
+      ) return [];
+      const contracts = s.state.contracts.map(repairContract);
+      if (contracts.length === 0 || contracts.some((c: ContractEntry | null) => c === null)) return [];
+      return [{ ...s, state: { ...s.state, contracts } }];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveScenarios = (storage: ScenarioStorage, scenarios: SavedScenario[]) => {
+  storage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
+};
+
+export const calculateScenario = (state: CalculatorState): CalculationResults => {
+  const { contracts, contractualRiskPercent, year, withholdingMethod, daysWorked, fxReservePercent } = state;
+  const provisionBuckets = withFxReserve(
+    state.provisionBuckets ?? getDefaultProvisionBuckets(getFiscalParameters(year)),
+    fxReservePercent
+  );
+  return calculatePortfolio({ contracts, contractualRiskPercent, year, withholdingMethod, provisionBuckets, daysWorked }).consolidated;
+};
+
+export interface ScenarioComparisonRow {
+  key: string;
+  // Provision rows have no result field and are labelled with the bucket name instead.
+  field: NumericResultField | null;
+  label: string | null;
+  values: number[];
+  // Difference of each scenario against the first one (the baseline).
+  deltas: number[];
+}
+
+const toRow = (key: string, field: NumericResultField | null, label: string | null, values: number[]): ScenarioComparisonRow =>
+  ({ key, field, label, values, deltas: values.map((v) => v - values[0]) });
+
+// One row per result field, plus one per provision bucket next to the contractual risk.
+export const compareScenarios = (results: CalculationResults[]): ScenarioComparisonRow[] => {
+  const fieldRows = RESULT_FIELDS.map((field) => toRow(field, field, null, results.map((r) => r[field])));
+  const provisionRows = listProvisionBuckets(results).map(({ id, name }) =>
+    toRow(`provision:${id}`, null, name, results.map((r) => getProvisionAmount(r, id))));
+  const at = RESULT_FIELDS.indexOf('contractualRiskProvision');
+  return [...fieldRows.slice(0, at), ...provisionRows, ...fieldRows.slice(at)];
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSensitivity, buildSensitivityCharts } from './sensitivity';
+import { calculate, getFiscalParameters } from './calculator';
+import { solveContractValue } from './solver';
+import { IBCBound, RiskLevel } from '../types';
+
+const profile = { contractualRiskPercent: 10, year: 2026 };
+const smmlv = getFiscalParameters(2026).smmlv;
+
+describe('analyzeSensitivity', () => {
+  it('finds the IBC floor and cap kinks with the engine', () => {
+    const analysis = analyzeSensitivity(profile, 4000000, 75);
+
+    expect(analysis.floorKink).not.toBeNull();
+    expect(analysis.capKink).not.toBeNull();
+    expect(calculate({ ...profile, riskLevel: RiskLevel.I, contractValue: analysis.floorKink! - 1 }).ibcBound).toBe(IBCBound.FLOOR);
+    expect(calculate({ ...profile, riskLevel: RiskLevel.I, contractValue: analysis.floorKink! }).ibcBound).toBeNull();
+    expect(Math.abs(analysis.capKink! - 62.5 * smmlv)).toBeLessThanOrEqual(1);
+  });
+
+  it('leaves out kinks beyond the range', () => {
+    expect(analyzeSensitivity(profile, 4000000, 25).capKink).toBeNull();
+  });
+
+  it('draws one curve per risk class with the solver breakeven', () => {
+    const analysis = analyzeSensitivity(profile, 4000000, 25);
+
+    expect(analysis.curves.map((curve) => curve.riskLevel)).toEqual(Object.values(RiskLevel));
+    expect(analysis.curves[2].breakeven).toBe(solveContractValue(4000000, { ...profile, riskLevel: RiskLevel.III }).requiredGross);
+    expect(analysis.curves[0].points[0].contractValue).toBe(Math.round(smmlv));
+    expect(analysis.curves[0].points.at(-1)!.contractValue).toBe(Math.round(25 * smmlv));
+    expect(analysis.curves[0].points.map((point) => point.contractValue)).toContain(analysis.floorKink);
+  });
+
+  it('keeps only in-range breakevens as chart markers', () => {
+    const analysis = analyzeSensitivity(profile, 4000000, 25);
+    const [netChart, costChart] = buildSensitivityCharts(analysis, 4000000, smmlv, {
+      netIncomeTitle: 'Neto',
+      costShareTitle: 'Costos',
+      series: (level) => `Riesgo ${level}`,
+      floorKink: 'Piso',
+      capKink: 'Tope',
+      target: 'Meta',
+      breakeven: (level) => `Equilibrio ${level}`,
+      formatCurrency: String
+    });
+
+    expect(netChart.series).toHaveLength(5);
+    expect(netChart.markers.map((marker) => marker.label)).toEqual([
+      'Piso', 'Meta', 'Equilibrio I', 'Equilibrio II', 'Equilibrio III', 'Equilibrio IV', 'Equilibrio V'
+    ]);
+    expect(costChart.markers.map((marker) => marker.label)).toEqual(['Piso']);
+    expect(netChart.formatX(10 * smmlv)).toBe('10 SMMLV');
+  });
+});
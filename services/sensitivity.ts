@@ -0,0 +1,156 @@
+import {
+  CalculationInput,
+  ChartMarker,
+  IBCBound,
+  LineChart,
+  RiskLevel,
+  SensitivityAnalysis,
+  SolverStatus
+} from '../types';
+import { calculate, getFiscalParameters } from './calculator';
+import { solveContractValue } from './solver';
+
+export const SENSITIVITY_MIN_SMMLV = 1;
+export const SENSITIVITY_MAX_SMMLV_OPTIONS = [25, 50, 75];
+const SENSITIVITY_SAMPLES = 60;
+const X_TICK_COUNT = 5;
+
+// Same hues as the risk guide cards (Tailwind emerald-500 … red-600).
+const RISK_LEVEL_COLORS: Record<RiskLevel, [number, number, number]> = {
+  [RiskLevel.I]: [16, 185, 129],
+  [RiskLevel.II]: [34, 197, 94],
+  [RiskLevel.III]: [234, 179, 8],
+  [RiskLevel.IV]: [249, 115, 22],
+  [RiskLevel.V]: [220, 38, 38]
+};
+const BOUND_MARKER_COLOR: [number, number, number] = [100, 116, 139];
+
+export type SensitivityProfile = Omit<CalculationInput, 'contractValue' | 'riskLevel'>;
+
+// Smallest whole-peso value in (lo, hi] where `holds` becomes true, assuming it stays
+// true from there on. Null when the change happens outside the range.
+const findTransition = (lo: number, hi: number, holds: (val: number) => boolean): number | null => {
+  if (holds(lo) || !holds(hi)) return null;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (holds(mid)) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return hi;
+};
+
+// Samples the engine across the range for every ARL class. Kink values are added to the
+// samples so the curves bend exactly where the IBC leaves the floor or reaches the cap.
+export const analyzeSensitivity = (
+  profile: SensitivityProfile,
+  desiredNetIncome: number,
+  maxSmmlv: number
+): SensitivityAnalysis => {
+  const smmlv = getFiscalParameters(profile.year).smmlv;
+  const minValue = Math.round(smmlv * SENSITIVITY_MIN_SMMLV);
+  const maxValue = Math.round(smmlv * maxSmmlv);
+
+  // The IBC does not depend on the ARL class, so every curve shares the kinks.
+  const boundAt = (contractValue: number) => calculate({ ...profile, riskLevel: RiskLevel.I, contractValue }).ibcBound;
+  const floorKink = findTransition(minValue, maxValue, (val) => boundAt(val) !== IBCBound.FLOOR);
+  const capKink = findTransition(minValue, maxValue, (val) => boundAt(val) === IBCBound.CAP);
+
+  const samples = Array.from(
+    { length: SENSITIVITY_SAMPLES + 1 },
+    (_, i) => Math.round(minValue + ((maxValue - minValue) * i) / SENSITIVITY_SAMPLES)
+  );
+  const contractValues = Array.from(new Set([
+    ...samples,
+    ...[floorKink, capKink].filter((kink): kink is number => kink !== null)
+  ])).sort((a, b) => a - b);
+
+  const curves = Object.values(RiskLevel).map((riskLevel) => {
+    const solved = solveContractValue(desiredNetIncome, { ...profile, riskLevel });
+    return {
+      riskLevel,
+      points: contractValues.map((contractValue) => {
+        const results = calculate({ ...profile, riskLevel, contractValue });
+        return { contractValue, netIncome: results.netIncome, costShare: results.nonDisposablePercent };
+      }),
+      breakeven: solved.status === SolverStatus.SOLVED ? solved.requiredGross : null
+    };
+  });
+
+  return { minValue, maxValue, floorKink, capKink, curves };
+};
+
+export interface SensitivityChartLabels {
+  netIncomeTitle: string;
+  costShareTitle: string;
+  series: (riskLevel: RiskLevel) => string;
+  floorKink: string;
+  capKink: string;
+  target: string;
+  breakeven: (riskLevel: RiskLevel) => string;
+  formatCurrency: (val: number) => string;
+}
+
+// Net income and cost share charts; the x axis is labelled in SMMLV.
+export const buildSensitivityCharts = (
+  analysis: SensitivityAnalysis,
+  desiredNetIncome: number,
+  smmlv: number,
+  labels: SensitivityChartLabels
+): LineChart[] => {
+  const maxSmmlv = Math.round(analysis.maxValue / smmlv);
+  const xTicks = [
+    analysis.minValue,
+    ...Array.from({ length: X_TICK_COUNT }, (_, i) => Math.round((maxSmmlv * (i + 1)) / X_TICK_COUNT) * smmlv)
+  ];
+  const formatX = (val: number) => `${Math.round(val / smmlv)} SMMLV`;
+
+  const boundMarkers: ChartMarker[] = [
+    ...(analysis.floorKink !== null
+      ? [{ axis: 'x' as const, value: analysis.floorKink, label: labels.floorKink, color: BOUND_MARKER_COLOR }]
+      : []),
+    ...(analysis.capKink !== null
+      ? [{ axis: 'x' as const, value: analysis.capKink, label: labels.capKink, color: BOUND_MARKER_COLOR }]
+      : [])
+  ];
+
+  const breakevenMarkers: ChartMarker[] = analysis.curves
+    .filter((curve) => curve.breakeven !== null && curve.breakeven >= analysis.minValue && curve.breakeven <= analysis.maxValue)
+    .map((curve) => ({
+      axis: 'x',
+      value: curve.breakeven as number,
+      label: labels.breakeven(curve.riskLevel),
+      color: RISK_LEVEL_COLORS[curve.riskLevel]
+    }));
+
+  const seriesOf = (field: 'netIncome' | 'costShare') => analysis.curves.map((curve) => ({
+    label: labels.series(curve.riskLevel),
+    color: RISK_LEVEL_COLORS[curve.riskLevel],
+    points: curve.points.map((point): [number, number] => [point.contractValue, point[field]])
+  }));
+
+  return [
+    {
+      title: labels.netIncomeTitle,
+      series: seriesOf('netIncome'),
+      markers: [
+        ...boundMarkers,
+        { axis: 'y', value: desiredNetIncome, label: labels.target, color: BOUND_MARKER_COLOR },
+        ...breakevenMarkers
+      ],
+      xTicks,
+      formatX,
+      formatY: labels.formatCurrency
+    },
+    {
+      title: labels.costShareTitle,
+      series: seriesOf('costShare'),
+      markers: boundMarkers,
+      xTicks,
+      formatX,
+      formatY: (val) => `${val.toFixed(0)}%`
+    }
+  ];
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { solveContractValue, solvePortfolioContractValue } from './solver';
+import { calculate, calculatePortfolio, getFiscalParameters } from './calculator';
+import { RiskLevel, IBCBound, SolverStatus, CostMode } from '../types';
+
+const profile = { riskLevel: RiskLevel.I, contractualRiskPercent: 10, year: 2026 };
+
+describe('solveContractValue', () => {
+  it('inverts the calculation for a contract inside the IBC bounds', () => {
+    const target = calculate({ ...profile, contractValue: 5000000 }).netIncome;
+    const r = solveContractValue(target, profile);
+
+    expect(r.status).toBe(SolverStatus.SOLVED);
+    expect(Math.abs(r.requiredGross - 5000000)).toBeLessThanOrEqual(1);
+    expect(r.results?.netIncome).toBeGreaterThanOrEqual(target);
+  });
+
+  it('accounts for the IBC floor on small contracts', () => {
+    const r = solveContractValue(1500000, profile);
+
+    expect(r.status).toBe(SolverStatus.SOLVED);
+    expect(r.results?.ibcBound).toBe(IBCBound.FLOOR);
+    expect(r.results?.netIncome).toBeGreaterThanOrEqual(1500000);
+    expect(calculate({ ...profile, contractValue: r.requiredGross - 1 }).netIncome).toBeLessThan(1500000);
+  });
+
+  it('accounts for the solidarity fund and fixed declared costs', () => {
+    const input = { ...profile, costMode: CostMode.DECLARED, declaredCosts: 2000000 };
+    const r = solveContractValue(20000000, input);
+
+    expect(r.results?.solidarityFund).toBeGreaterThan(0);
+    expect(r.results?.netIncome).toBeGreaterThanOrEqual(20000000);
+    expect(calculate({ ...input, contractValue: r.requiredGross - 1 }).netIncome).toBeLessThan(20000000);
+  });
+
+  it('solves one contract of a portfolio keeping the others fixed', () => {
+    const portfolio = {
+      contractualRiskPercent: 10,
+      year: 2026,
+      contracts: [
+        { contractValue: 4000000, riskLevel: RiskLevel.I },
+        { contractValue: 0, riskLevel: RiskLevel.III }
+      ]
+    };
+    const r = solvePortfolioContractValue(6000000, portfolio, 1);
+    const check = calculatePortfolio({
+      ...portfolio,
+      contracts: [portfolio.contracts[0], { ...portfolio.contracts[1], contractValue: r.requiredGross }]
+    });
+
+    expect(r.status).toBe(SolverStatus.SOLVED);
+    expect(check.consolidated.netIncome).toBeGreaterThanOrEqual(6000000);
+    expect(check.contracts[0].contractValue).toBe(4000000);
+  });
+
+  it('needs no contract for a zero target', () => {
+    expect(solveContractValue(0, profile).requiredGross).toBe(0);
+  });
+
+  it('reports targets beyond the search range as unreachable', () => {
+    const r = solveContractValue(1e13, profile);
+
+    expect(r.status).toBe(SolverStatus.UNREACHABLE);
+    expect(r.results).toBeNull();
+  });
+
+  it('returns the smallest value when the net income drops at a solidarity fund band', () => {
+    // The IBC reaches 4 SMMLV at 10 SMMLV billed, where the solidarity fund starts.
+    const edge = 10 * getFiscalParameters(2026).smmlv;
+    const below = calculate({ ...profile, contractValue: edge - 1 });
+    expect(below.solidarityFundRate).toBe(0);
+    expect(calculate({ ...profile, contractValue: edge }).netIncome).toBeLessThan(below.netIncome);
+
+    const r = solveContractValue(below.netIncome, profile);
+
+    expect(r.requiredGross).toBe(edge - 1);
+    expect(calculate({ ...profile, contractValue: edge - 2 }).netIncome).toBeLessThan(below.netIncome);
+  });
+});
@@ -0,0 +1,75 @@
+import { CalculationInput, PortfolioInput, SolverResult, SolverStatus } from '../types';
+import { MAX_CONTRACT_SMMLV } from '../constants';
+import { calculatePortfolio, getFiscalParameters } from './calculator';
+
+// Smallest whole-peso value of one contract that is at least `min` and for which
+// `isAbove` holds, or null if it does not hold at `max`. `isAbove` must only flip once.
+const bisect = (min: number, max: number, isAbove: (contractValue: number) => boolean): number | null => {
+  if (!isAbove(max)) return null;
+  let lo = min;
+  let hi = max;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (isAbove(mid)) {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return hi;
+};
+
+// Finds the smallest value (in whole pesos) for one contract of the portfolio
+// whose consolidated net income reaches the target, keeping the other contracts
+// fixed. It runs the real calculation engine at every step, so the IBC bounds,
+// solidarity fund and fixed costs are all accounted for. The net income drops
+// where each solidarity fund band starts, so the search runs segment by segment
+// between those edges, where it only grows.
+export const solvePortfolioContractValue = (
+  desiredNetIncome: number,
+  input: PortfolioInput,
+  contractIndex: number
+): SolverResult => {
+  const calculateWith = (contractValue: number) => calculatePortfolio({
+    ...input,
+    contracts: input.contracts.map((contract, i) => (i === contractIndex ? { ...contract, contractValue } : contract))
+  }).consolidated;
+  const netAt = (contractValue: number) => calculateWith(contractValue).netIncome;
+
+  if (netAt(0) >= desiredNetIncome) {
+    return { status: SolverStatus.SOLVED, requiredGross: 0, results: calculateWith(0) };
+  }
+
+  const parameters = getFiscalParameters(input.year);
+  const maxContract = parameters.smmlv * MAX_CONTRACT_SMMLV;
+
+  // The solidarity fund rate only grows with the contract value, so each band edge
+  // is found by bisection too, whatever the costs, other contracts or days worked.
+  const bandEdges = parameters.solidarityFundBands
+    .map((band) => bisect(0, maxContract, (value) => calculateWith(value).solidarityFundRate >= band.rate))
+    .filter((edge): edge is number => edge !== null && edge > 0);
+  const segmentEnds = [...new Set([...bandEdges.map((edge) => edge - 1), maxContract])].sort((a, b) => a - b);
+
+  let start = 0;
+  for (const end of segmentEnds) {
+    const requiredGross = bisect(start, end, (value) => netAt(value) >= desiredNetIncome);
+    if (requiredGross !== null) {
+      return { status: SolverStatus.SOLVED, requiredGross, results: calculateWith(requiredGross) };
+    }
+    start = end + 1;
+  }
+
+  return { status: SolverStatus.UNREACHABLE, requiredGross: 0, results: null };
+};
+
+export const solveContractValue = (
+  desiredNetIncome: number,
+  input: Omit<CalculationInput, 'contractValue'>
+): SolverResult => {
+  const { contractualRiskPercent, year, withholdingMethod, provisionBuckets, daysWorked, ...contract } = input;
+  return solvePortfolioContractValue(
+    desiredNetIncome,
+    { contracts: [{ ...contract, contractValue: 0 }], contractualRiskPercent, year, withholdingMethod, provisionBuckets, daysWorked },
+    0
+  );
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { compareTaxRegimes, estimateOrdinaryTax, getSimpleRegimeRate } from './taxRegime';
+import { calculate, getFiscalParameters } from './calculator';
+import { CostMode, RiskLevel, TaxRegime } from '../types';
+
+const parameters = getFiscalParameters(2026);
+
+const resultsFor = (contractValue: number, declaredCosts = 0, daysWorked?: number) => calculate({
+  contractValue,
+  daysWorked,
+  riskLevel: RiskLevel.I,
+  costMode: declaredCosts > 0 ? CostMode.DECLARED : CostMode.NONE,
+  declaredCosts,
+  contractualRiskPercent: 0,
+  year: 2026
+});
+
+describe('Régimen Simple vs ordinary regime', () => {
+  it('keeps the ordinary regime when the Art. 241 table still taxes less', () => {
+    const comparison = compareTaxRegimes(resultsFor(10000000), parameters);
+
+    expect(comparison.annualIncome).toBe(120000000);
+    expect(comparison.annualSocialSecurity).toBe(13930560);
+    // 25% exempt income on the income net of contributions, then (1518.9 - 1090) UVT at 19%.
+    expect(comparison.ordinary.taxableBase).toBe(79552080);
+    expect(comparison.ordinary.tax).toBe(4268000);
+    expect(comparison.simpleRate).toBe(0.059);
+    expect(comparison.simple?.tax).toBe(7080000);
+    expect(comparison.ordinary.netIncome).toBe(120000000 - 13930560 - 4268000);
+    expect(comparison.recommended).toBe(TaxRegime.ORDINARY);
+  });
+
+  it('recommends the Régimen Simple once the marginal rates climb', () => {
+    const comparison = compareTaxRegimes(resultsFor(40000000), parameters);
+
+    expect(comparison.simpleRate).toBe(0.073);
+    expect(comparison.simple?.tax).toBe(35040000);
+    expect(comparison.ordinary.tax).toBe(96133000);
+    expect(comparison.simple!.netIncome - comparison.ordinary.netIncome).toBe(96133000 - 35040000);
+    expect(comparison.recommended).toBe(TaxRegime.SIMPLE);
+  });
+
+  it('leaves the Régimen Simple out above 12.000 UVT of professional income', () => {
+    const comparison = compareTaxRegimes(resultsFor(60000000), parameters);
+
+    expect(getSimpleRegimeRate(12000 * parameters.uvt, parameters)).toBe(0.073);
+    expect(getSimpleRegimeRate(12000 * parameters.uvt + 1, parameters)).toBeNull();
+    expect(comparison.simple).toBeNull();
+    expect(comparison.recommended).toBe(TaxRegime.ORDINARY);
+  });
+
+  it('drops the 25% exempt income when costs are deducted', () => {
+    const comparison = compareTaxRegimes(resultsFor(10000000, 2000000), parameters);
+
+    expect(comparison.annualCosts).toBe(24000000);
+    expect(comparison.ordinary.taxableBase).toBe(120000000 - comparison.annualSocialSecurity - 24000000);
+    expect(comparison.ordinary.tax).toBe(5276000);
+    expect(estimateOrdinaryTax(0, 0, 0, parameters)).toEqual({ taxableBase: 0, tax: 0 });
+  });
+
+  it('brings a partial month to a full one before annualizing', () => {
+    const full = compareTaxRegimes(resultsFor(40000000), parameters);
+    const half = compareTaxRegimes(resultsFor(20000000, 0, 15), parameters);
+
+    expect(half.annualIncome).toBe(480000000);
+    expect(half.annualSocialSecurity).toBeCloseTo(full.annualSocialSecurity);
+    expect(half.recommended).toBe(TaxRegime.SIMPLE);
+  });
+});
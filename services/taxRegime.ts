@@ -0,0 +1,73 @@
+import { CalculationResults, FiscalParameters, TaxRegime, TaxRegimeComparison, TaxRegimeEstimate } from '../types';
+import {
+  ART_241_BRACKETS,
+  EXEMPT_INCOME_ANNUAL_CAP_UVT,
+  EXEMPT_INCOME_RATE,
+  FULL_MONTH_DAYS,
+  SIMPLE_REGIME_PROFESSIONAL_BANDS
+} from '../constants';
+import { applyBracketTable, roundToThousand } from './withholding';
+
+const MONTHS_PER_YEAR = 12;
+
+const toEstimate = (annualIncome: number, netBeforeTax: number, taxableBase: number, tax: number): TaxRegimeEstimate => ({
+  taxableBase,
+  tax,
+  effectiveRate: annualIncome > 0 ? tax / annualIncome : 0,
+  netIncome: netBeforeTax - tax
+});
+
+// Null when the gross income is above the last band, where the regime is not available.
+export const getSimpleRegimeRate = (annualIncome: number, parameters: FiscalParameters): number | null => {
+  const incomeUvt = annualIncome / parameters.uvt;
+  return SIMPLE_REGIME_PROFESSIONAL_BANDS.find((band) => incomeUvt <= band.upToUvt)?.rate ?? null;
+};
+
+// Ordinary regime (rentas de trabajo no laborales): the contributions are non-taxable income.
+// Contractors who deduct costs give up the 25% exempt income (Art. 336 par. 5 E.T.).
+export const estimateOrdinaryTax = (
+  annualIncome: number,
+  annualContributions: number,
+  annualCosts: number,
+  parameters: FiscalParameters
+): { taxableBase: number; tax: number } => {
+  const netOfContributions = Math.max(annualIncome - annualContributions, 0);
+  const exemptIncome = annualCosts > 0
+    ? 0
+    : Math.min(netOfContributions * EXEMPT_INCOME_RATE, EXEMPT_INCOME_ANNUAL_CAP_UVT * parameters.uvt);
+  const taxableBase = Math.max(netOfContributions - annualCosts - exemptIncome, 0);
+  return {
+    taxableBase,
+    tax: roundToThousand(applyBracketTable(ART_241_BRACKETS, taxableBase / parameters.uvt) * parameters.uvt)
+  };
+};
+
+// Compares a year of the current month, brought to a full month when fewer days
+// were worked, under both regimes. The Régimen Simple taxes the
+// gross income at one consolidated rate (ICA included) with no deductions, so the
+// contributions and costs only change the ordinary branch's tax.
+export const compareTaxRegimes = (results: CalculationResults, parameters: FiscalParameters): TaxRegimeComparison => {
+  const toAnnual = (monthly: number) => (monthly * FULL_MONTH_DAYS * MONTHS_PER_YEAR) / results.daysWorked;
+  const annualIncome = toAnnual(results.contractValue);
+  const annualSocialSecurity = toAnnual(results.totalSocialSecurity);
+  const annualCosts = toAnnual(results.deductibleCosts);
+  const netBeforeTax = annualIncome - annualSocialSecurity - annualCosts;
+
+  const { taxableBase, tax } = estimateOrdinaryTax(annualIncome, annualSocialSecurity, annualCosts, parameters);
+  const ordinary = toEstimate(annualIncome, netBeforeTax, taxableBase, tax);
+
+  const simpleRate = getSimpleRegimeRate(annualIncome, parameters);
+  const simple = simpleRate === null
+    ? null
+    : toEstimate(annualIncome, netBeforeTax, annualIncome, roundToThousand(annualIncome * simpleRate));
+
+  return {
+    annualIncome,
+    annualSocialSecurity,
+    annualCosts,
+    ordinary,
+    simple,
+    simpleRate,
+    recommended: simple && simple.netIncome > ordinary.netIncome ? TaxRegime.SIMPLE : TaxRegime.ORDINARY
+  };
+};
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCalculatorState, decodeCalculatorState } from './urlState';
+import { createDefaultCalculatorState } from './contracts';
+import { CostMode, Currency, ProvisionMode, RiskLevel, WithholdingMethod } from '../types';
+
+const defaults = createDefaultCalculatorState();
+
+describe('URL calculator state', () => {
+  it('round-trips every calculator input', () => {
+    const state = {
+      ...defaults,
+      contracts: [
+        { ...defaults.contracts[0], contractValue: 5000000, riskLevel: RiskLevel.III, arlActivity: '8621' },
+        { ...defaults.contracts[0], id: 'b', contractValue: 2000000, costMode: CostMode.DECLARED, declaredCosts: 300000 },
+        { ...defaults.contracts[0], id: 'c', contractValue: 9000000, costMode: CostMode.PRESUMPTIVE, presumptiveCostActivity: '6201' }
+      ],
+      contractualRiskPercent: 7.5,
+      year: 2025,
+      withholdingMethod: WithholdingMethod.ART_383,
+      desiredNetIncome: 4000000,
+      daysWorked: 19
+    };
+    const decoded = decodeCalculatorState(encodeCalculatorState(state), defaults);
+
+    expect(decoded.warnings).toEqual([]);
+    expect(decoded.hasParams).toBe(true);
+    expect(decoded.state.contracts.map((c) => [c.contractValue, c.riskLevel, c.costMode])).toEqual([
+      [5000000, RiskLevel.III, CostMode.NONE],
+      [2000000, RiskLevel.I, CostMode.DECLARED],
+      [9000000, RiskLevel.I, CostMode.PRESUMPTIVE]
+    ]);
+    expect(decoded.state.contracts[1].declaredCosts).toBe(300000);
+    expect(decoded.state.contracts[2].presumptiveCostActivity).toBe('6201');
+    expect(decoded.state.contracts.map((c) => c.arlActivity)).toEqual(['8621', undefined, undefined]);
+    expect(decoded.state.contractualRiskPercent).toBe(7.5);
+    expect(decoded.state.year).toBe(2025);
+    expect(decoded.state.withholdingMethod).toBe(WithholdingMethod.ART_383);
+    expect(decoded.state.desiredNetIncome).toBe(4000000);
+    expect(decoded.state.daysWorked).toBe(19);
+  });
+
+  it('returns the defaults without warnings for a plain URL', () => {
+    const decoded = decodeCalculatorState('', defaults);
+
+    expect(decoded.hasParams).toBe(false);
+    expect(decoded.warnings).toEqual([]);
+    expect(decoded.state).toEqual(defaults);
+  });
+
+  it('falls back to defaults with a warning for each invalid parameter', () => {
+    const decoded = decodeCalculatorState(
+      '?contrato=-5000_VI&riesgoContractual=abc&anio=1999&retencion=X&netoDeseado=-1&dias=31',
+      defaults
+    );
+
+    expect(decoded.warnings).toHaveLength(7);
+    expect(decoded.state.contracts[0].contractValue).toBe(defaults.contracts[0].contractValue);
+    expect(decoded.state.contracts[0].riskLevel).toBe(RiskLevel.I);
+    expect(decoded.state.contractualRiskPercent).toBe(defaults.contractualRiskPercent);
+    expect(decoded.state.year).toBe(defaults.year);
+    expect(decoded.state.withholdingMethod).toBe(WithholdingMethod.NONE);
+    expect(decoded.state.desiredNetIncome).toBe(defaults.desiredNetIncome);
+    expect(decoded.state.daysWorked).toBe(defaults.daysWorked);
+  });
+
+  it('drops an ARL activity that is unknown or does not match the risk class', () => {
+    const decoded = decodeCalculatorState('?contrato=5000000_I_a4111&contrato=5000000_I_d100_a0000', defaults);
+
+    expect(decoded.state.contracts.map((c) => c.arlActivity)).toEqual([undefined, undefined]);
+    expect(decoded.state.contracts[1].declaredCosts).toBe(100);
+    expect(decoded.warnings).toEqual([
+      { kind: 'arlActivity', contract: 1, ciiu: '4111' },
+      { kind: 'arlActivity', contract: 2, ciiu: '0000' }
+    ]);
+  });
+
+  it('clamps the contractual risk to 0-20% like the input does', () => {
+    const decoded = decodeCalculatorState('?riesgoContractual=35', defaults);
+
+    expect(decoded.state.contractualRiskPercent).toBe(20);
+    expect(decoded.warnings).toEqual([{ kind: 'contractualRiskClamped', value: 20 }]);
+  });
+
+  it('keeps foreign contracts in their currency and converts them with the shared TRM', () => {
+    const state = {
+      ...defaults,
+      contracts: [
+        { ...defaults.contracts[0], contractValue: 8200000, currency: Currency.USD, foreignValue: 2000 },
+        { ...defaults.contracts[0], id: 'b', contractValue: 3000000 }
+      ],
+      exchangeRates: { [Currency.USD]: 4100 },
+      fxReservePercent: 5
+    };
+    const encoded = encodeCalculatorState(state);
+    const decoded = decodeCalculatorState(encoded, defaults);
+
+    expect(encoded).toContain('contrato=2000_I_mUSD');
+    expect(decoded.warnings).toEqual([]);
+    expect(decoded.state.contracts.map((c) => [c.contractValue, c.currency, c.foreignValue])).toEqual([
+      [8200000, Currency.USD, 2000],
+      [3000000, undefined, undefined]
+    ]);
+    expect(decoded.state.exchangeRates).toEqual({ [Currency.USD]: 4100 });
+    expect(decoded.state.fxReservePercent).toBe(5);
+  });
+
+  it('warns about an unknown currency, a bad TRM or an out-of-range FX reserve', () => {
+    const decoded = decodeCalculatorState('?contrato=2000_I_mJPY&contrato=1000_I_mEUR&trmEUR=-1&reservaCambiaria=50', defaults);
+
+    expect(decoded.state.contracts[0].currency).toBeUndefined();
+    expect(decoded.state.contracts[1].contractValue).toBe(0);
+    expect(decoded.state.fxReservePercent).toBe(0);
+    expect(decoded.warnings).toEqual([
+      { kind: 'currency', contract: 1, code: 'JPY' },
+      { kind: 'exchangeRate', currency: Currency.EUR },
+      { kind: 'fxReserve' }
+    ]);
+  });
+
+  it('shares custom provision buckets and skips the invalid ones', () => {
+    const provisionBuckets = [
+      { id: 'vacation', name: 'Vacaciones', mode: ProvisionMode.PERCENT, value: 4.17, enabled: true },
+      { id: 'x', name: 'Fondo_de emergencia', mode: ProvisionMode.FIXED, value: 300000, enabled: false }
+    ];
+    const decoded = decodeCalculatorState(encodeCalculatorState({ ...defaults, provisionBuckets }), defaults);
+
+    expect(decoded.warnings).toEqual([]);
+    expect(decoded.state.provisionBuckets?.map(({ id, ...bucket }) => bucket)).toEqual(
+      provisionBuckets.map(({ id, ...bucket }) => bucket)
+    );
+    expect(decodeCalculatorState(encodeCalculatorState({ ...defaults, provisionBuckets: [] }), defaults).state.provisionBuckets).toEqual([]);
+    expect(decodeCalculatorState(encodeCalculatorState(defaults), defaults).state.provisionBuckets).toBeUndefined();
+
+    const invalid = decodeCalculatorState('?provision=p_5_1_Renta&provision=x_5_1_Otro&provision=f_abc_1_Otro&provision=p_5_1_', defaults);
+    expect(invalid.state.provisionBuckets?.map((b) => b.name)).toEqual(['Renta']);
+    expect(invalid.warnings).toEqual([
+      { kind: 'provisionBucket', bucket: 2 },
+      { kind: 'provisionBucket', bucket: 3 },
+      { kind: 'provisionBucket', bucket: 4 }
+    ]);
+  });
+
+  it('rejects numbers followed by other characters', () => {
+    const decoded = decodeCalculatorState('?riesgoContractual=5abc&anio=2026xyz&trmUSD=4100x&reservaCambiaria=5%25', defaults);
+
+    expect(decoded.state.contractualRiskPercent).toBe(defaults.contractualRiskPercent);
+    expect(decoded.state.year).toBe(defaults.year);
+    expect(decoded.state.exchangeRates).toEqual({});
+    expect(decoded.state.fxReservePercent).toBe(0);
+    expect(decoded.warnings).toEqual([
+      { kind: 'contractualRiskNotNumber' },
+      { kind: 'year', year: '2026xyz', fallback: defaults.year },
+      { kind: 'exchangeRate', currency: Currency.USD },
+      { kind: 'fxReserve' }
+    ]);
+  });
+
+  it('rejects amounts beyond any real contract and provisions above 100%', () => {
+    const decoded = decodeCalculatorState(
+      '?contrato=99999999999999999999_I&netoDeseado=99999999999999&provision=p_150_1_Todo&provision=p_100_1_Completa',
+      defaults
+    );
+
+    expect(decoded.state.contracts[0].contractValue).toBe(defaults.contracts[0].contractValue);
+    expect(decoded.state.desiredNetIncome).toBe(defaults.desiredNetIncome);
+    expect(decoded.state.provisionBuckets?.map((b) => b.name)).toEqual(['Completa']);
+    expect(decoded.warnings).toEqual([
+      { kind: 'contractValue', contract: 1 },
+      { kind: 'desiredNetIncome' },
+      { kind: 'provisionBucket', bucket: 1 }
+    ]);
+  });
+});
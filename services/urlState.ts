@@ -0,0 +1,303 @@
+import {
+  CalculatorState,
+  ContractEntry,
+  CostMode,
+  Currency,
+  ExchangeRates,
+  ProvisionBucket,
+  ProvisionMode,
+  RiskLevel,
+  UrlStateWarning,
+  WithholdingMethod
+} from '../types';
+import {
+  FISCAL_PARAMETERS,
+  FULL_MONTH_DAYS,
+  MAX_CONTRACT_SMMLV,
+  MAX_PROVISION_PERCENT,
+  PRESUMPTIVE_COST_ACTIVITIES
+} from '../constants';
+import { clampContractualRiskPercent } from './calculator';
+import { findArlActivity } from './arlActivities';
+import { createContractEntry } from './contracts';
+import { createProvisionBucket } from './provisions';
+import { FOREIGN_CURRENCIES, applyExchangeRates, clampFxReservePercent, isForeignCurrency } from './currency';
+
+// Query parameter names, kept in Spanish so shared links read naturally.
+const PARAM_CONTRACT = 'contrato';
+const PARAM_CONTRACTUAL_RISK = 'riesgoContractual';
+const PARAM_YEAR = 'anio';
+const PARAM_WITHHOLDING = 'retencion';
+const PARAM_DESIRED_NET = 'netoDeseado';
+const PARAM_DAYS_WORKED = 'dias';
+// One TRM per currency, e.g. "trmUSD".
+const PARAM_EXCHANGE_RATE_PREFIX = 'trm';
+const PARAM_FX_RESERVE = 'reservaCambiaria';
+const PARAM_PROVISION = 'provision';
+
+// Custom provision buckets are encoded as "modo_valor_activa_nombre", with "p" for a
+// percentage or "f" for a fixed amount and "1"/"0" for enabled. The name goes last so
+// it may contain the separator. An empty parameter stands for a list with no buckets.
+const PROVISION_MODE_CODES: Record<ProvisionMode, string> = {
+  [ProvisionMode.PERCENT]: 'p',
+  [ProvisionMode.FIXED]: 'f'
+};
+
+// A contract is encoded as "valor_riesgo", optionally followed by "_d<costos>"
+// for declared costs or "_p<ciiu>" for presumptive costs, by "_a<ciiu>" for
+// the activity behind its ARL class and by "_m<moneda>" when the value is in a
+// foreign currency.
+const CONTRACT_SEPARATOR = '_';
+
+export interface DecodedCalculatorState {
+  state: CalculatorState;
+  warnings: UrlStateWarning[];
+  hasParams: boolean;
+}
+
+const isRiskLevel = (val: string): val is RiskLevel =>
+  (Object.values(RiskLevel) as string[]).includes(val);
+
+const isWithholdingMethod = (val: string): val is WithholdingMethod =>
+  (Object.values(WithholdingMethod) as string[]).includes(val);
+
+const isCurrency = (val: string): val is Currency =>
+  (Object.values(Currency) as string[]).includes(val);
+
+// No amount in a link may exceed the contract search range of the year with the highest SMMLV.
+const MAX_AMOUNT = MAX_CONTRACT_SMMLV * Math.max(...Object.values(FISCAL_PARAMETERS).map((p) => p.smmlv));
+
+const parseAmount = (val: string): number | null => {
+  if (!/^\d+$/.test(val)) return null;
+  const amount = parseInt(val, 10);
+  return amount <= MAX_AMOUNT ? amount : null;
+};
+
+const parseDecimal = (val: string): number | null => {
+  if (!/^-?\d+(\.\d+)?$/.test(val)) return null;
+  return parseFloat(val);
+};
+
+const encodeProvisionBucket = ({ mode, value, enabled, name }: ProvisionBucket): string =>
+  [PROVISION_MODE_CODES[mode], String(value), enabled ? '1' : '0', name].join(CONTRACT_SEPARATOR);
+
+const decodeProvisionBucket = (encoded: string): ProvisionBucket | null => {
+  const [rawMode = '', rawValue = '', rawEnabled = '', ...nameParts] = encoded.split(CONTRACT_SEPARATOR);
+  const mode = (Object.keys(PROVISION_MODE_CODES) as ProvisionMode[]).find((m) => PROVISION_MODE_CODES[m] === rawMode);
+  const value = parseDecimal(rawValue);
+  const name = nameParts.join(CONTRACT_SEPARATOR).trim();
+  const maxValue = mode === ProvisionMode.PERCENT ? MAX_PROVISION_PERCENT : MAX_AMOUNT;
+  if (!mode || value === null || value < 0 || value > maxValue || !['0', '1'].includes(rawEnabled) || !name) return null;
+  return { ...createProvisionBucket(name), mode, value, enabled: rawEnabled === '1' };
+};
+
+export const encodeCalculatorState = (state: CalculatorState): string => {
+  const params = new URLSearchParams();
+  state.contracts.forEach((contract) => {
+    const isForeign = isForeignCurrency(contract.currency);
+    const value = isForeign ? contract.foreignValue ?? 0 : contract.contractValue;
+    const parts = [String(Math.round(value)), contract.riskLevel];
+    if (contract.costMode === CostMode.DECLARED) parts.push(`d${Math.round(contract.declaredCosts ?? 0)}`);
+    if (contract.costMode === CostMode.PRESUMPTIVE) parts.push(`p${contract.presumptiveCostActivity}`);
+    if (contract.arlActivity) parts.push(`a${contract.arlActivity}`);
+    if (isForeign) parts.push(`m${contract.currency}`);
+    params.append(PARAM_CONTRACT, parts.join(CONTRACT_SEPARATOR));
+  });
+  params.set(PARAM_CONTRACTUAL_RISK, String(state.contractualRiskPercent));
+  params.set(PARAM_YEAR, String(state.year));
+  params.set(PARAM_WITHHOLDING, state.withholdingMethod);
+  params.set(PARAM_DESIRED_NET, String(Math.round(state.desiredNetIncome)));
+  // A full month is the default, so only partial months show up in the link.
+  if (state.daysWorked !== undefined && state.daysWorked < FULL_MONTH_DAYS) {
+    params.set(PARAM_DAYS_WORKED, String(state.daysWorked));
+  }
+  FOREIGN_CURRENCIES.forEach((currency) => {
+    const rate = state.exchangeRates?.[currency];
+    if (rate) params.set(`${PARAM_EXCHANGE_RATE_PREFIX}${currency}`, String(rate));
+  });
+  if (state.fxReservePercent) params.set(PARAM_FX_RESERVE, String(state.fxReservePercent));
+  // The default buckets follow the year's rates, so only a customized list is shared.
+  if (state.provisionBuckets) {
+    if (state.provisionBuckets.length === 0) params.append(PARAM_PROVISION, '');
+    state.provisionBuckets.forEach((bucket) => params.append(PARAM_PROVISION, encodeProvisionBucket(bucket)));
+  }
+  return params.toString();
+};
+
+// Every parameter is validated on its own: an invalid one falls back to its
+// default and adds a warning, without discarding the rest of the link.
+export const decodeCalculatorState = (search: string, defaults: CalculatorState): DecodedCalculatorState => {
+  const params = new URLSearchParams(search);
+  const warnings: UrlStateWarning[] = [];
+  const state: CalculatorState = { ...defaults };
+  const defaultContract = defaults.contracts[0];
+
+  const encodedContracts = params.getAll(PARAM_CONTRACT);
+  if (encodedContracts.length > 0) {
+    state.contracts = encodedContracts.map((encoded, i): ContractEntry => {
+      const [rawValue = '', rawRisk = '', ...options] = encoded.split(CONTRACT_SEPARATOR);
+      const rawCosts = options.find((option) => !option.startsWith('a') && !option.startsWith('m'));
+      const rawActivity = options.find((option) => option.startsWith('a'));
+      const rawCurrency = options.find((option) => option.startsWith('m'));
+      const contract = i + 1;
+      const entry = createContractEntry(contract, defaultContract.contractValue);
+
+      const contractValue = parseAmount(rawValue);
+      if (contractValue === null) {
+        warnings.push({ kind: 'contractValue', contract });
+      } else {
+        entry.contractValue = contractValue;
+      }
+
+      if (isRiskLevel(rawRisk)) {
+        entry.riskLevel = rawRisk;
+      } else {
+        warnings.push({ kind: 'riskLevel', contract, fallback: entry.riskLevel });
+      }
+
+      if (rawCosts?.startsWith('d')) {
+        const declaredCosts = parseAmount(rawCosts.slice(1));
+        if (declaredCosts === null) {
+          warnings.push({ kind: 'declaredCosts', contract });
+        } else {
+          entry.costMode = CostMode.DECLARED;
+          entry.declaredCosts = declaredCosts;
+        }
+      } else if (rawCosts?.startsWith('p')) {
+        const ciiu = rawCosts.slice(1);
+        if (PRESUMPTIVE_COST_ACTIVITIES.some((a) => a.ciiu === ciiu)) {
+          entry.costMode = CostMode.PRESUMPTIVE;
+          entry.presumptiveCostActivity = ciiu;
+        } else {
+          warnings.push({ kind: 'presumptiveActivity', contract, ciiu });
+        }
+      } else if (rawCosts !== undefined) {
+        warnings.push({ kind: 'costs', contract });
+      }
+
+      // The activity is only kept while it still explains the contract's class.
+      if (rawActivity !== undefined) {
+        const ciiu = rawActivity.slice(1);
+        if (findArlActivity(ciiu)?.riskLevel === entry.riskLevel) {
+          entry.arlActivity = ciiu;
+        } else {
+          warnings.push({ kind: 'arlActivity', contract, ciiu });
+        }
+      }
+
+      // The value is read as foreign units; it is converted once the TRMs are known.
+      if (rawCurrency !== undefined) {
+        const code = rawCurrency.slice(1);
+        if (isCurrency(code) && isForeignCurrency(code)) {
+          entry.currency = code;
+          entry.foreignValue = entry.contractValue;
+        } else if (code !== Currency.COP) {
+          warnings.push({ kind: 'currency', contract, code });
+        }
+      }
+
+      return entry;
+    });
+  }
+
+  const rawRisk = params.get(PARAM_CONTRACTUAL_RISK);
+  if (rawRisk !== null) {
+    const risk = parseDecimal(rawRisk);
+    if (risk === null) {
+      warnings.push({ kind: 'contractualRiskNotNumber' });
+    } else {
+      state.contractualRiskPercent = clampContractualRiskPercent(risk);
+      if (state.contractualRiskPercent !== risk) {
+        warnings.push({ kind: 'contractualRiskClamped', value: state.contractualRiskPercent });
+      }
+    }
+  }
+
+  const rawYear = params.get(PARAM_YEAR);
+  if (rawYear !== null) {
+    const year = parseAmount(rawYear);
+    if (year !== null && FISCAL_PARAMETERS[year]) {
+      state.year = year;
+    } else {
+      warnings.push({ kind: 'year', year: rawYear, fallback: defaults.year });
+    }
+  }
+
+  const rawWithholding = params.get(PARAM_WITHHOLDING);
+  if (rawWithholding !== null) {
+    if (isWithholdingMethod(rawWithholding)) {
+      state.withholdingMethod = rawWithholding;
+    } else {
+      warnings.push({ kind: 'withholdingMethod' });
+    }
+  }
+
+  const rawDesiredNet = params.get(PARAM_DESIRED_NET);
+  if (rawDesiredNet !== null) {
+    const desiredNetIncome = parseAmount(rawDesiredNet);
+    if (desiredNetIncome === null) {
+      warnings.push({ kind: 'desiredNetIncome' });
+    } else {
+      state.desiredNetIncome = desiredNetIncome;
+    }
+  }
+
+  const rawDaysWorked = params.get(PARAM_DAYS_WORKED);
+  if (rawDaysWorked !== null) {
+    const daysWorked = parseAmount(rawDaysWorked);
+    if (daysWorked === null || daysWorked < 1 || daysWorked > FULL_MONTH_DAYS) {
+      warnings.push({ kind: 'daysWorked' });
+    } else {
+      state.daysWorked = daysWorked;
+    }
+  }
+
+  const exchangeRates: ExchangeRates = { ...defaults.exchangeRates };
+  FOREIGN_CURRENCIES.forEach((currency) => {
+    const rawRate = params.get(`${PARAM_EXCHANGE_RATE_PREFIX}${currency}`);
+    if (rawRate === null) return;
+    const rate = parseDecimal(rawRate);
+    if (rate === null || rate <= 0) {
+      warnings.push({ kind: 'exchangeRate', currency });
+    } else {
+      exchangeRates[currency] = rate;
+    }
+  });
+  state.exchangeRates = exchangeRates;
+  state.contracts = applyExchangeRates(state.contracts, exchangeRates);
+
+  const rawFxReserve = params.get(PARAM_FX_RESERVE);
+  if (rawFxReserve !== null) {
+    const fxReserve = parseDecimal(rawFxReserve);
+    if (fxReserve === null || clampFxReservePercent(fxReserve) !== fxReserve) {
+      warnings.push({ kind: 'fxReserve' });
+    } else {
+      state.fxReservePercent = fxReserve;
+    }
+  }
+
+  const encodedBuckets = params.getAll(PARAM_PROVISION);
+  if (encodedBuckets.length > 0) {
+    state.provisionBuckets = encodedBuckets
+      .filter((encoded) => encoded !== '')
+      .flatMap((encoded, i) => {
+        const bucket = decodeProvisionBucket(encoded);
+        if (!bucket) warnings.push({ kind: 'provisionBucket', bucket: i + 1 });
+        return bucket ? [bucket] : [];
+      });
+  }
+
+  const hasParams = [
+    PARAM_CONTRACT,
+    PARAM_CONTRACTUAL_RISK,
+    PARAM_YEAR,
+    PARAM_WITHHOLDING,
+    PARAM_DESIRED_NET,
+    PARAM_DAYS_WORKED,
+    PARAM_FX_RESERVE,
+    PARAM_PROVISION,
+    ...FOREIGN_CURRENCIES.map((currency) => `${PARAM_EXCHANGE_RATE_PREFIX}${currency}`)
+  ].some((param) => params.has(param));
+
+  return { state, warnings, hasParams };
+};
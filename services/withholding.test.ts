@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { applyArt383Table, estimateWithholding } from './withholding';
+import { getFiscalParameters } from './calculator';
+import { WithholdingMethod } from '../types';
+
+const parameters2026 = getFiscalParameters(2026);
+
+describe('applyArt383Table', () => {
+  it('exempts bases up to 95 UVT', () => {
+    expect(applyArt383Table(0)).toBe(0);
+    expect(applyArt383Table(95)).toBe(0);
+  });
+
+  it('applies the marginal rate and fixed UVT of each bracket', () => {
+    expect(applyArt383Table(120)).toBeCloseTo(4.75);
+    expect(applyArt383Table(400)).toBeCloseTo(82.2);
+    expect(applyArt383Table(3000)).toBeCloseTo(1043);
+  });
+});
+
+describe('estimateWithholding', () => {
+  it('returns nothing when no method is selected', () => {
+    expect(estimateWithholding(WithholdingMethod.NONE, 10000000, 1160880, parameters2026))
+      .toEqual({ base: 0, withholding: 0 });
+  });
+
+  it('deducts contributions and the 25% exempt income under Art. 383', () => {
+    const r = estimateWithholding(WithholdingMethod.ART_383, 10000000, 1160880, parameters2026);
+
+    expect(r.base).toBeCloseTo(6629340);
+    expect(r.withholding).toBe(314000);
+  });
+
+  it('caps the exempt income at 790 UVT a year', () => {
+    const r = estimateWithholding(WithholdingMethod.ART_383, 40000000, 4000000, parameters2026);
+
+    expect(r.base).toBeCloseTo(36000000 - (790 / 12) * 52374);
+  });
+
+  it('applies flat rates for fees and services', () => {
+    expect(estimateWithholding(WithholdingMethod.FEES, 5000000, 0, parameters2026).withholding).toBe(500000);
+    expect(estimateWithholding(WithholdingMethod.SERVICES, 5000000, 0, parameters2026).withholding).toBe(200000);
+  });
+
+  it('skips service withholding below the 4 UVT minimum base', () => {
+    const minBase = 4 * parameters2026.uvt;
+    expect(estimateWithholding(WithholdingMethod.SERVICES, 100000, 0, parameters2026).withholding).toBe(0);
+    expect(estimateWithholding(WithholdingMethod.SERVICES, minBase - 1, 0, parameters2026).withholding).toBe(0);
+    expect(estimateWithholding(WithholdingMethod.SERVICES, minBase, 0, parameters2026).withholding).toBe(8000);
+  });
+});
@@ -0,0 +1,53 @@
+import { FiscalParameters, WithholdingBracket, WithholdingMethod } from '../types';
+import {
+  ART_383_BRACKETS,
+  EXEMPT_INCOME_RATE,
+  EXEMPT_INCOME_ANNUAL_CAP_UVT,
+  FLAT_WITHHOLDING
+} from '../constants';
+
+export interface WithholdingEstimate {
+  base: number;
+  withholding: number;
+}
+
+// DIAN withholding and tax amounts are rounded to the nearest thousand pesos.
+export const roundToThousand = (val: number) => Math.round(val / 1000) * 1000;
+
+export const applyBracketTable = (brackets: WithholdingBracket[], baseUvt: number): number => {
+  const bracket = brackets.reduce(
+    (current, candidate) => (baseUvt > candidate.fromUvt ? candidate : current),
+    brackets[0]
+  );
+  return (baseUvt - bracket.fromUvt) * bracket.rate + bracket.baseUvt;
+};
+
+export const applyArt383Table = (baseUvt: number): number => applyBracketTable(ART_383_BRACKETS, baseUvt);
+
+// Estimates the monthly withholding on a service payment. The mandatory
+// contributions paid by the contractor are subtracted as non-taxable income.
+export const estimateWithholding = (
+  method: WithholdingMethod,
+  contractValue: number,
+  deductibleContributions: number,
+  parameters: FiscalParameters
+): WithholdingEstimate => {
+  if (method === WithholdingMethod.NONE || contractValue <= 0) {
+    return { base: 0, withholding: 0 };
+  }
+
+  if (method === WithholdingMethod.ART_383) {
+    const netOfContributions = Math.max(contractValue - deductibleContributions, 0);
+    const exemptCap = (EXEMPT_INCOME_ANNUAL_CAP_UVT / 12) * parameters.uvt;
+    const exemptIncome = Math.min(netOfContributions * EXEMPT_INCOME_RATE, exemptCap);
+    const base = netOfContributions - exemptIncome;
+    const withholding = roundToThousand(applyArt383Table(base / parameters.uvt) * parameters.uvt);
+    return { base, withholding };
+  }
+
+  const { rate, minBaseUvt } = FLAT_WITHHOLDING[method];
+  if (contractValue < minBaseUvt * parameters.uvt) {
+    return { base: contractValue, withholding: 0 };
+  }
+  return { base: contractValue, withholding: roundToThousand(contractValue * rate) };
+};
@@ -7,18 +7,437 @@ export enum RiskLevel {
   V = 'V'
 }
 
+export enum ContributionPayer {
+  CONTRACTOR = 'CONTRACTOR',
+  CONTRACTING_ENTITY = 'CONTRACTING_ENTITY'
+}
+
+export type Contribution = 'health' | 'pension' | 'arl' | 'solidarityFund';
+
+export enum IBCBound {
+  FLOOR = 'FLOOR',
+  CAP = 'CAP'
+}
+
+export enum WithholdingMethod {
+  NONE = 'NONE',
+  ART_383 = 'ART_383',
+  FEES = 'FEES',
+  SERVICES = 'SERVICES'
+}
+
+export enum CostMode {
+  NONE = 'NONE',
+  DECLARED = 'DECLARED',
+  PRESUMPTIVE = 'PRESUMPTIVE'
+}
+
+export enum ProvisionMode {
+  PERCENT = 'PERCENT',
+  FIXED = 'FIXED'
+}
+
+// A savings bucket: a percentage of the billed value or a fixed monthly amount.
+export interface ProvisionBucket {
+  id: string;
+  name: string;
+  mode: ProvisionMode;
+  value: number;
+  enabled: boolean;
+  // Only set aside on contracts billed in a foreign currency, like the FX reserve.
+  foreignCurrencyOnly?: boolean;
+}
+
+export interface ProvisionAmount {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+export interface ProvisionProfile {
+  id: string;
+  name: string;
+  buckets: ProvisionBucket[];
+}
+
+export interface PresumptiveCostActivity {
+  ciiu: string;
+  description: string;
+  rate: number;
+}
+
+export interface ArlActivity {
+  ciiu: string;
+  description: string;
+  riskLevel: RiskLevel;
+}
+
+export interface WithholdingBracket {
+  fromUvt: number;
+  rate: number;
+  baseUvt: number;
+}
+
+// Régimen Simple consolidated rate for gross incomes up to `upToUvt` a year.
+export interface SimpleRegimeBand {
+  upToUvt: number;
+  rate: number;
+}
+
+export interface SolidarityFundBand {
+  minSmmlv: number;
+  rate: number;
+}
+
+export interface FiscalParameters {
+  year: number;
+  version: string;
+  smmlv: number;
+  uvt: number;
+  healthRate: number;
+  pensionRate: number;
+  arlRates: Record<RiskLevel, number>;
+  solidarityFundBands: SolidarityFundBand[];
+  vacationProvisionRate: number;
+  severanceProvisionRate: number;
+  transportAllowance: number;
+}
+
 export interface CalculationResults {
+  year: number;
+  parametersVersion: string;
   contractValue: number;
+  deductibleCosts: number;
+  daysWorked: number;
   ibc: number;
+  ibcBound: IBCBound | null;
   health: number;
   pension: number;
   arl: number;
-  vacationProvision: number;
-  severanceProvision: number;
+  solidarityFund: number;
+  solidarityFundRate: number;
+  contributionPayers: Record<Contribution, ContributionPayer>;
+  employerPaidContributions: number;
+  provisions: ProvisionAmount[];
   contractualRiskProvision: number;
+  withholdingMethod: WithholdingMethod;
+  withholdingBase: number;
+  withholding: number;
+  expectedDeposit: number;
   totalSocialSecurity: number;
   totalProvisions: number;
   totalCosts: number;
   netIncome: number;
   nonDisposablePercent: number;
 }
+
+export type NumericResultField = {
+  [K in keyof CalculationResults]: CalculationResults[K] extends number ? K : never
+}[keyof CalculationResults];
+
+export enum SolverStatus {
+  SOLVED = 'SOLVED',
+  UNREACHABLE = 'UNREACHABLE'
+}
+
+export enum EquivalenceDirection {
+  CONTRACT_TO_SALARY = 'contractToSalary',
+  SALARY_TO_CONTRACT = 'salaryToContract'
+}
+
+// Monthly value of a labor contract, with the yearly benefits spread over twelve months.
+export interface EmployeeCompensation {
+  salary: number;
+  transportAllowance: number;
+  health: number;
+  pension: number;
+  solidarityFund: number;
+  prima: number;
+  severance: number;
+  severanceInterest: number;
+  vacation: number;
+  netValue: number;
+}
+
+export enum TaxRegime {
+  ORDINARY = 'ordinary',
+  SIMPLE = 'simple'
+}
+
+// Annual income tax under one regime, applied to the current month repeated twelve times.
+export interface TaxRegimeEstimate {
+  taxableBase: number;
+  tax: number;
+  effectiveRate: number;
+  netIncome: number;
+}
+
+export interface TaxRegimeComparison {
+  annualIncome: number;
+  annualSocialSecurity: number;
+  annualCosts: number;
+  ordinary: TaxRegimeEstimate;
+  // Null when the income is above the Régimen Simple limit for professional services.
+  simple: TaxRegimeEstimate | null;
+  simpleRate: number | null;
+  recommended: TaxRegime;
+}
+
+export interface SolverResult {
+  status: SolverStatus;
+  requiredGross: number;
+  results: CalculationResults | null;
+}
+
+export enum Currency {
+  COP = 'COP',
+  USD = 'USD',
+  EUR = 'EUR'
+}
+
+export type ForeignCurrency = Exclude<Currency, Currency.COP>;
+
+// TRM entered by hand: pesos per unit of each foreign currency.
+export type ExchangeRates = Partial<Record<ForeignCurrency, number>>;
+
+// `contractValue` is always in pesos; without `currency` the contract is billed in COP.
+export interface ContractInput {
+  contractValue: number;
+  currency?: Currency;
+  riskLevel: RiskLevel;
+  costMode?: CostMode;
+  declaredCosts?: number;
+  presumptiveCostActivity?: string;
+}
+
+// Without `provisionBuckets` the engine uses the default vacation and severance buckets.
+// Without `daysWorked` the contract value covers a full 30-day month.
+export interface CalculationInput extends ContractInput {
+  contractualRiskPercent: number;
+  year: number;
+  withholdingMethod?: WithholdingMethod;
+  provisionBuckets?: ProvisionBucket[];
+  daysWorked?: number;
+}
+
+export interface PortfolioInput {
+  contracts: ContractInput[];
+  contractualRiskPercent: number;
+  year: number;
+  withholdingMethod?: WithholdingMethod;
+  provisionBuckets?: ProvisionBucket[];
+  daysWorked?: number;
+}
+
+// Results for simultaneous contracts: `contracts` follows the input order.
+export interface PortfolioResults {
+  consolidated: CalculationResults;
+  contracts: CalculationResults[];
+}
+
+export interface MonthlyProjection {
+  month: number;
+  results: CalculationResults;
+  provisionBalances: ProvisionAmount[];
+  contractualRiskBalance: number;
+}
+
+export interface AnnualProjection {
+  months: MonthlyProjection[];
+  totals: {
+    contractValue: number;
+    totalSocialSecurity: number;
+    totalProvisions: number;
+    netIncome: number;
+  };
+}
+
+export interface ContractEntry extends ContractInput {
+  id: string;
+  label: string;
+  // CIIU code picked in the ARL classification helper; cleared when the class is set by hand.
+  arlActivity?: string;
+  // Amount billed in `currency` for a foreign contract; `contractValue` holds it converted at the TRM.
+  foreignValue?: number;
+}
+
+// Everything the user types into the calculator, enough to rebuild a calculation.
+export interface CalculatorState {
+  contracts: ContractEntry[];
+  contractualRiskPercent: number;
+  year: number;
+  withholdingMethod: WithholdingMethod;
+  desiredNetIncome: number;
+  provisionBuckets?: ProvisionBucket[];
+  // Scenarios saved before partial months were supported have no days: a full month.
+  daysWorked?: number;
+  exchangeRates?: ExchangeRates;
+  fxReservePercent?: number;
+}
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: string;
+  state: CalculatorState;
+}
+
+export enum ReportSection {
+  SUMMARY = 'summary',
+  SOCIAL_SECURITY = 'socialSecurity',
+  CONTRACTS = 'contracts',
+  PROVISIONS = 'provisions',
+  SIMULATOR = 'simulator',
+  SENSITIVITY = 'sensitivity',
+  LEGAL_NOTES = 'legalNotes'
+}
+
+export interface ContractorDetails {
+  name: string;
+  idNumber: string;
+  contractNumber: string;
+}
+
+export interface ClientDetails {
+  name: string;
+  nit: string;
+}
+
+// Kept in the browser so next month's cuenta de cobro starts filled in.
+export interface InvoiceDetails {
+  contractor: ContractorDetails;
+  client: ClientDetails;
+  city: string;
+  concept: string;
+  bankAccount: string;
+  lastNumber: number;
+}
+
+export enum ReportDocumentType {
+  PLANNING = 'planning',
+  INVOICE = 'invoice'
+}
+
+export interface ReportTable {
+  head: string[];
+  body: string[][];
+  theme: 'striped' | 'grid';
+  color: [number, number, number];
+}
+
+export interface ChartSeries {
+  label: string;
+  color: [number, number, number];
+  points: [number, number][];
+}
+
+// A reference line across the plot: vertical for 'x' markers, horizontal for 'y' ones.
+export interface ChartMarker {
+  axis: 'x' | 'y';
+  value: number;
+  label: string;
+  color?: [number, number, number];
+}
+
+// Language-neutral line chart, drawn as SVG in the app and as vectors in the PDF.
+export interface LineChart {
+  title: string;
+  series: ChartSeries[];
+  markers: ChartMarker[];
+  xTicks: number[];
+  formatX: (val: number) => string;
+  formatY: (val: number) => string;
+}
+
+export interface ReportSectionContent {
+  section: ReportSection;
+  title: string;
+  table?: ReportTable;
+  charts?: LineChart[];
+  paragraphs?: string[];
+}
+
+// Language-neutral description of the PDF; the renderer only handles layout.
+export interface ReportDocument {
+  title: string;
+  metadata: string[];
+  stamp: string;
+  sections: ReportSectionContent[];
+  closingNotes: string[];
+  formatPageNumber: (page: number, pageCount: number) => string;
+}
+
+export enum Language {
+  ES = 'es',
+  EN = 'en'
+}
+
+// Problems found while decoding a shared link; the UI turns them into text in the active language.
+export type UrlStateWarning =
+  | { kind: 'contractValue'; contract: number }
+  | { kind: 'riskLevel'; contract: number; fallback: RiskLevel }
+  | { kind: 'declaredCosts'; contract: number }
+  | { kind: 'presumptiveActivity'; contract: number; ciiu: string }
+  | { kind: 'costs'; contract: number }
+  | { kind: 'arlActivity'; contract: number; ciiu: string }
+  | { kind: 'contractualRiskNotNumber' }
+  | { kind: 'contractualRiskClamped'; value: number }
+  | { kind: 'year'; year: string; fallback: number }
+  | { kind: 'withholdingMethod' }
+  | { kind: 'desiredNetIncome' }
+  | { kind: 'daysWorked' }
+  | { kind: 'currency'; contract: number; code: string }
+  | { kind: 'exchangeRate'; currency: ForeignCurrency }
+  | { kind: 'fxReserve' }
+  | { kind: 'provisionBucket'; bucket: number };
+
+export type BatchError =
+  | { kind: 'missingColumns' }
+  | { kind: 'contractValue' | 'riskLevel' | 'contractualRisk' | 'costs'; value: string };
+
+// One line of the independent-worker PILA form, per contract and already rounded.
+export interface PilaLine {
+  contractLabel: string;
+  contributorType: string;
+  period: string;
+  days: number;
+  ibc: number;
+  pensionRate: number;
+  pension: number;
+  solidarityAccount: number;
+  subsistenceAccount: number;
+  healthRate: number;
+  health: number;
+  riskClass: number;
+  arlRate: number;
+  arl: number;
+  arlPayer: ContributionPayer;
+}
+
+export interface SensitivityPoint {
+  contractValue: number;
+  netIncome: number;
+  costShare: number;
+}
+
+export interface SensitivityCurve {
+  riskLevel: RiskLevel;
+  points: SensitivityPoint[];
+  breakeven: number | null;
+}
+
+export interface SensitivityAnalysis {
+  minValue: number;
+  maxValue: number;
+  floorKink: number | null;
+  capKink: number | null;
+  curves: SensitivityCurve[];
+}
+
+// A PILA payment: income billed during `period` is contributed on `dueDate` (mes vencido).
+export interface PaymentDeadline {
+  period: string;
+  billingDates: string[];
+  dueDate: string;
+  businessDay: number;
+}
@@ -0,0 +1,39 @@
+import { LineChart } from '../types';
+
+export const CHART_Y_TICKS = 4;
+
+export interface ChartBounds {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// Shared by the SVG and PDF renderers so both plots use the same scale. The y range
+// always includes zero and any horizontal marker.
+export const getChartBounds = (chart: LineChart): ChartBounds => {
+  const xs = chart.series.flatMap((series) => series.points.map(([x]) => x));
+  const ys = [
+    ...chart.series.flatMap((series) => series.points.map(([, y]) => y)),
+    ...chart.markers.filter((marker) => marker.axis === 'y').map((marker) => marker.value)
+  ];
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const yMin = Math.min(0, ...ys);
+  const yMax = Math.max(...ys);
+  return { xMin, xMax: xMax > xMin ? xMax : xMin + 1, yMin, yMax: yMax > yMin ? yMax : yMin + 1 };
+};
+
+export const getYTicks = ({ yMin, yMax }: ChartBounds): number[] =>
+  Array.from({ length: CHART_Y_TICKS + 1 }, (_, i) => yMin + ((yMax - yMin) * i) / CHART_Y_TICKS);
+
+// Maps data coordinates to a plot of the given size, with y growing downwards.
+export const createChartProjection = (bounds: ChartBounds, width: number, height: number) => ({
+  x: (val: number) => ((val - bounds.xMin) / (bounds.xMax - bounds.xMin)) * width,
+  y: (val: number) => height - ((val - bounds.yMin) / (bounds.yMax - bounds.yMin)) * height
+});
+
+export const isWithinBounds = (marker: { axis: 'x' | 'y'; value: number }, bounds: ChartBounds) =>
+  marker.axis === 'x'
+    ? marker.value >= bounds.xMin && marker.value <= bounds.xMax
+    : marker.value >= bounds.yMin && marker.value <= bounds.yMax;
@@ -0,0 +1,19 @@
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+
+// Spreadsheets run cells that start like a formula, and some cells repeat uploaded text,
+// so those get a leading apostrophe. Plain numbers, negatives included, stay numbers.
+const neutralizeFormula = (val: string) =>
+  /^[=+\-@\t\r]/.test(val) && !/^-?\d+([.,]\d+)?$/.test(val) ? `'${val}` : val;
+
+const escapeCsvCell = (rawVal: string, delimiter: string) => {
+  const val = neutralizeFormula(rawVal);
+  return val.includes(delimiter) || val.includes('"') || val.includes('\n') || val.includes('\r')
+    ? `"${val.replace(/"/g, '""')}"`
+    : val;
+};
+
+// A BOM keeps accents intact when the file is opened in Excel.
+export const toCsv = (rows: string[][], delimiter: string): string =>
+  '\uFEFF' + rows
+    .map((row) => row.map((cell) => escapeCsvCell(cell, delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
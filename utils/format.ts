@@ -0,0 +1,28 @@
+// Helper functions for monetary input formatting
+export const formatInputDisplay = (val: number | undefined, locale = 'es-CO'): string => {
+  if (val === undefined || isNaN(val)) return '';
+  return new Intl.NumberFormat(locale).format(val);
+};
+
+export const parseInputValue = (displayVal: string): number => {
+  const numericStr = displayVal.replace(/\D/g, '');
+  return numericStr ? parseInt(numericStr, 10) : 0;
+};
+
+// Amounts are Colombian pesos unless a foreign currency is given; the locale only changes
+// separators and symbol placement. Pesos are shown without cents.
+export const formatCurrency = (val: number, locale = 'es-CO', currency: string = 'COP') => {
+  const fractionDigits = currency === 'COP' ? 0 : 2;
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(val);
+};
+
+// Renders a rate from the parameter table as a percentage label, e.g. 0.125 -> "12.5%"
+export const formatRate = (rate: number, digits?: number) => {
+  const percent = rate * 100;
+  return `${digits === undefined ? parseFloat(percent.toFixed(3)) : percent.toFixed(digits)}%`;
+};
@@ -0,0 +1,48 @@
+const UNITS = ['', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve'];
+const TEENS_AND_TWENTIES = [
+  'diez', 'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve',
+  'veinte', 'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete',
+  'veintiocho', 'veintinueve'
+];
+const TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const HUNDREDS = [
+  '', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos',
+  'ochocientos', 'novecientos'
+];
+
+const joinWords = (...words: string[]) => words.filter(Boolean).join(' ');
+
+// Before "mil", "millones" or a noun, a trailing "uno" is shortened: "veintiún mil", "un peso".
+const shortenOne = (words: string) => words.replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un');
+
+const belowHundred = (n: number) => {
+  if (n < 10) return UNITS[n];
+  if (n < 30) return TEENS_AND_TWENTIES[n - 10];
+  return joinWords(TENS[Math.floor(n / 10)], n % 10 ? `y ${UNITS[n % 10]}` : '');
+};
+
+const belowThousand = (n: number) =>
+  n === 100 ? 'cien' : joinWords(HUNDREDS[Math.floor(n / 100)], belowHundred(n % 100));
+
+const belowMillion = (n: number) => {
+  const thousands = Math.floor(n / 1000);
+  const head = thousands === 0 ? '' : thousands === 1 ? 'mil' : `${shortenOne(belowThousand(thousands))} mil`;
+  return joinWords(head, belowThousand(n % 1000));
+};
+
+// Whole numbers in Spanish words, e.g. 1_250_000 -> "un millón doscientos cincuenta mil".
+export const numberToSpanishWords = (val: number): string => {
+  const n = Math.floor(Math.abs(val));
+  if (n === 0) return 'cero';
+  const millions = Math.floor(n / 1e6);
+  const head = millions === 0 ? '' : millions === 1 ? 'un millón' : `${shortenOne(numberToSpanishWords(millions))} millones`;
+  return joinWords(head, belowMillion(n % 1e6));
+};
+
+// Amount in words as written on Colombian payment documents: "UN MILLÓN DE PESOS M/CTE".
+export const pesosToSpanishWords = (amount: number): string => {
+  const n = Math.round(Math.abs(amount));
+  const words = shortenOne(numberToSpanishWords(n));
+  const connector = n > 0 && n % 1e6 === 0 ? ' de' : '';
+  return `${words}${connector} ${n === 1 ? 'peso' : 'pesos'} m/cte`.toUpperCase();
+};